@@ -4,11 +4,20 @@
  * Demonstrates:
  * - Sending audio data (OPUS format)
  * - Receiving audio responses
- * - Audio-related directives
+ * - Audio stream sessions (audio.opus_data_start / audio.opus_data_end)
  * - Binary protocol (14-byte header + masked data)
  */
 
-import { SDK, Signal, Directive, ErrorCode, Config } from '../src';
+import {
+  SDK,
+  Signal,
+  Directive,
+  ErrorCode,
+  Config,
+  AudioStreamSession,
+  OggOpusFileWriter,
+  oggOpusOptionsFromDirective
+} from '../src';
 import * as fs from 'fs';
 
 async function main() {
@@ -27,40 +36,37 @@ async function main() {
   // Register terminal
   sdk.registerTerminal('terminal-1', config);
 
-  // Set audio data callback (receive audio from platform)
-  sdk.setAudioDataCallback('terminal-1', (audioData: Buffer) => {
-    console.log(`Received audio data: ${audioData.length} bytes`);
+  // Set audio session callback (receive audio streams from platform)
+  // A session is created when the platform sends 'audio.opus_data_start'
+  // and ends on 'audio.opus_data_end' or after an idle timeout
+  sdk.setAudioSessionCallback('terminal-1', async (session: AudioStreamSession) => {
+    console.log(`Audio stream ${session.streamId} started`);
+    console.log(`  Sample rate: ${session.sampleRate} Hz`);
+    console.log(`  Channels: ${session.channels}`);
+    console.log(`  Duration: ${session.duration}s`);
+
+    // Save the stream as a playable Ogg Opus file
+    const file = new OggOpusFileWriter(`received_${session.streamId}.opus`,
+      oggOpusOptionsFromDirective(session.directive));
+
+    for await (const packet of session) {
+      console.log(`Received audio packet: ${packet.length} bytes`);
+
+      // In a real application, you would:
+      // 1. Decode the audio (OPUS -> PCM)
+      // 2. Play the audio through speakers
+      // 3. Or save to file
+      file.write(packet);
+    }
+    file.end();
 
-    // In a real application, you would:
-    // 1. Decode the audio (OPUS -> PCM)
-    // 2. Play the audio through speakers
-    // 3. Or save to file
-    saveAudioToFile(audioData, 'received_audio.opus');
+    console.log(`Audio stream ${session.streamId} ended (${session.getEndReason()}), ` +
+      `${session.packetsReceived} packets`);
   });
 
-  // Set directive callback for audio-related commands
+  // Set directive callback for other commands
   sdk.setDirectiveCallback('terminal-1', (directive: Directive) => {
     console.log(`Received directive: ${directive.name}`);
-
-    // Platform sends this directive before sending audio stream
-    if (directive.name === 'audio.opus_data_start') {
-      console.log('Platform will start sending audio...');
-      console.log('Preparing audio playback...');
-
-      // Get audio metadata
-      const sampleRate = directive.getIntParameter('sample_rate', 16000);
-      const channels = directive.getIntParameter('channels', 1);
-      const duration = directive.getNumberParameter('duration', 0);
-
-      console.log(`  Sample rate: ${sampleRate} Hz`);
-      console.log(`  Channels: ${channels}`);
-      console.log(`  Duration: ${duration}s`);
-
-      // Initialize audio playback system
-      // ...
-    } else if (directive.name === 'audio.opus_data_end') {
-      console.log('Audio stream ended');
-    }
   });
 
   // Set connection callback
@@ -107,12 +113,11 @@ async function main() {
 async function sendAudioData(sdk: SDK) {
   console.log('\nSending audio data...');
 
-  // Method 1: Send from file
+  // Method 1: Send from an Ogg Opus file, packet by packet in real time
   if (fs.existsSync('sample.opus')) {
-    const audioData = fs.readFileSync('sample.opus');
-    console.log(`Sending ${audioData.length} bytes of OPUS audio...`);
+    console.log('Sending sample.opus...');
 
-    const result = await sdk.sendAudioData('terminal-1', audioData, 'opus');
+    const result = await sdk.sendOggOpus('terminal-1', 'sample.opus', { realtime: true });
     if (result === ErrorCode.OK) {
       console.log('✓ Audio data sent successfully');
     } else {
@@ -142,18 +147,6 @@ async function sendAudioData(sdk: SDK) {
   }
 }
 
-/**
- * Save received audio to file
- */
-function saveAudioToFile(audioData: Buffer, filename: string) {
-  try {
-    fs.appendFileSync(filename, audioData);
-    console.log(`  Saved to ${filename}`);
-  } catch (error: any) {
-    console.error(`Failed to save audio: ${error.message}`);
-  }
-}
-
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nShutting down...');
@@ -4,15 +4,15 @@
  * Demonstrates:
  * - Single terminal connection
  * - Sending signals
- * - Receiving directives
+ * - Routing directives
  * - Error handling
  */
 
-import { SDK, Signal, Directive, ErrorCode, Config } from '../src';
+import { SDK, Signal, Directive, ErrorCode, Config, ConsoleLogger, createConfig } from '../src';
 
 async function main() {
-  // 1. Create configuration
-  const config: Config = {
+  // 1. Create configuration (printing it masks productKey)
+  const config: Config = createConfig({
     deviceId: 'my-device-001',
     deviceType: 'sensor',
     endpoint: 'wss://platform.example.com/signals',
@@ -21,8 +21,9 @@ async function main() {
     productKey: 'your-secret-key',
     enableDirectiveReceiving: true,
     connectionTimeoutMs: 10000,
-    heartbeatIntervalMs: 5000
-  };
+    heartbeatIntervalMs: 5000,
+    logger: new ConsoleLogger({ level: 'info' })
+  });
 
   // 2. Create SDK instance
   const sdk = new SDK();
@@ -34,26 +35,28 @@ async function main() {
     return;
   }
 
-  // 4. Set directive callback
-  sdk.setDirectiveCallback('terminal-1', (directive: Directive) => {
+  // 4. Route directives
+  sdk.useDirectiveMiddleware('terminal-1', async (directive: Directive, next) => {
     console.log(`Received directive: ${directive.name}`);
+    return next();
+  });
 
+  sdk.onDirective('terminal-1', 'motor.move', (directive: Directive) => {
     // Extract parameters with type safety
     const speed = directive.getIntParameter('speed', 100);
     const direction = directive.getStringParameter('direction', 'forward');
     const enabled = directive.getBoolParameter('enabled', true);
 
-    console.log(`  speed: ${speed}`);
-    console.log(`  direction: ${direction}`);
-    console.log(`  enabled: ${enabled}`);
+    console.log(`Moving motor: ${direction} at speed ${speed} (enabled: ${enabled})`);
+  });
+
+  sdk.onDirective('terminal-1', 'led.*', (directive: Directive) => {
+    const times = directive.getIntParameter('times', 3);
+    console.log(`LED ${directive.name}: ${times} times`);
+  });
 
-    // Handle different directive types
-    if (directive.name === 'motor.move') {
-      console.log(`Moving motor: ${direction} at speed ${speed}`);
-    } else if (directive.name === 'led.blink') {
-      const times = directive.getIntParameter('times', 3);
-      console.log(`Blinking LED ${times} times`);
-    }
+  sdk.setDirectiveFallback('terminal-1', (directive: Directive) => {
+    console.warn(`Unhandled directive: ${directive.name}`);
   });
 
   // 5. Set connection callback
@@ -4,6 +4,7 @@
  * Demonstrates:
  * - Managing multiple terminals (SaaS scenario)
  * - Concurrent connections
+ * - SDK and terminal events
  * - Global callbacks
  * - Batch operations
  */
@@ -35,15 +36,25 @@ async function main() {
 
   console.log(`Registered ${tenantIds.length} terminals`);
 
-  // Set global callbacks (apply to all terminals)
-  sdk.setGlobalConnectionCallback((terminalId: string, connected: boolean, errorMessage: string) => {
-    if (connected) {
-      console.log(`✓ Terminal ${terminalId} connected`);
-    } else {
-      console.log(`✗ Terminal ${terminalId} disconnected: ${errorMessage}`);
-    }
+  // Listen to events of all terminals
+  sdk.on('connected', (terminalId) => {
+    console.log(`✓ Terminal ${terminalId} connected`);
+  });
+
+  sdk.on('disconnected', (terminalId, reason) => {
+    console.log(`✗ Terminal ${terminalId} disconnected: ${reason}`);
+  });
+
+  sdk.on('reconnecting', (terminalId, attempt, delayMs) => {
+    console.log(`Terminal ${terminalId} reconnecting in ${delayMs}ms (attempt ${attempt})`);
+  });
+
+  // Events of a single terminal
+  sdk.getTerminalEvents('tenant-001')?.on('close', (code, reason) => {
+    console.log(`tenant-001 closed: ${code} ${reason}`);
   });
 
+  // Global callbacks (apply to all terminals)
   sdk.setGlobalDirectiveCallback((terminalId: string, directive: Directive) => {
     console.log(`Terminal ${terminalId} received directive: ${directive.name}`);
 
@@ -57,7 +68,7 @@ async function main() {
     }
   });
 
-  sdk.setGlobalErrorCallback((terminalId: string, errorCode: ErrorCode, message: string) => {
+  sdk.on('error', (terminalId, errorCode, message) => {
     console.error(`Terminal ${terminalId} error [${ErrorCode[errorCode]}]: ${message}`);
   });
 
@@ -0,0 +1,249 @@
+/**
+ * StreamInd SDK Audio Pacer
+ *
+ * Sends outbound audio frames in real time on a drift-corrected clock
+ */
+
+import { ErrorCode } from './errors';
+import { WebSocketTransport } from './transport';
+import { Clock, TimerHandle } from './clock';
+
+/**
+ * Audio pacer options
+ */
+export interface AudioPacerOptions {
+  /** Data type of the frames (default: "opus") */
+  dataType?: string;
+
+  /** Frame duration used when enqueue() is called without one, in milliseconds (default: 20) */
+  frameDurationMs?: number;
+
+  /** Maximum queued frames; enqueue() returns false beyond this (default: 500) */
+  maxQueuedFrames?: number;
+
+  /** Invoked when frames arrive after the clock ran dry; gapMs is how late the stream is */
+  onUnderrun?: (gapMs: number) => void;
+
+  /** Invoked when a frame fails to send (the frame is dropped) */
+  onError?: (errorCode: ErrorCode, message: string) => void;
+}
+
+/**
+ * Audio pacer statistics
+ */
+export interface AudioPacerStatistics {
+  framesSent: number;
+  framesDropped: number;
+  underruns: number;
+  queuedFrames: number;
+  queuedMs: number;
+  paused: boolean;
+}
+
+/**
+ * Queued frame
+ */
+interface PacedFrame {
+  data: Buffer;
+  durationMs: number;
+}
+
+/**
+ * Audio Pacer
+ *
+ * Each frame is sent when the audio before it has "played out": send times
+ * are computed from the stream start plus the summed frame durations, so
+ * timer lateness does not accumulate. If the queue runs dry and the clock
+ * passes the end of the sent audio, the next frame counts as an underrun and
+ * restarts the clock.
+ */
+export class AudioPacer {
+  private readonly dataType: string;
+  private readonly frameDurationMs: number;
+  private readonly maxQueuedFrames: number;
+  private queue: PacedFrame[] = [];
+  private readonly clock: Clock;
+  private timer: TimerHandle | null = null;
+  private sending: boolean = false;
+  private paused: boolean = false;
+  private clockBase: number | null = null;
+  private elapsedMs: number = 0;
+  private drainWaiters: Array<() => void> = [];
+
+  private stats = {
+    framesSent: 0,
+    framesDropped: 0,
+    underruns: 0
+  };
+
+  constructor(private readonly transport: WebSocketTransport, private readonly options: AudioPacerOptions = {}) {
+    this.dataType = options.dataType ?? 'opus';
+    this.frameDurationMs = options.frameDurationMs ?? 20;
+    this.maxQueuedFrames = options.maxQueuedFrames ?? 500;
+    this.clock = transport.getClock();
+  }
+
+  /**
+   * Queue a frame
+   *
+   * @param durationMs Frame duration (default: options.frameDurationMs)
+   * @returns false if the queue is full and the frame was dropped
+   */
+  enqueue(data: Buffer, durationMs: number = this.frameDurationMs): boolean {
+    if (this.queue.length >= this.maxQueuedFrames) {
+      this.stats.framesDropped++;
+      return false;
+    }
+
+    // Detect underrun: the previously sent audio has already run out
+    if (this.queue.length === 0 && !this.sending && !this.paused && this.clockBase !== null) {
+      const gapMs = this.clock.now() - (this.clockBase + this.elapsedMs);
+      if (gapMs > 0) {
+        this.stats.underruns++;
+        this.clockBase = null;
+        if (this.options.onUnderrun) {
+          this.options.onUnderrun(gapMs);
+        }
+      }
+    }
+
+    this.queue.push({ data, durationMs });
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Stop sending; queued frames are kept
+   */
+  pause(): void {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Resume sending with a fresh clock
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.clockBase = null;
+    this.schedule();
+  }
+
+  /**
+   * Discard queued frames (e.g. on barge-in)
+   *
+   * @returns Number of frames discarded
+   */
+  flush(): number {
+    const count = this.queue.length;
+    this.queue = [];
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.resolveDrain();
+    return count;
+  }
+
+  /**
+   * Restart the clock so the next frame is not counted as an underrun (e.g. between utterances)
+   */
+  reset(): void {
+    this.clockBase = null;
+    this.elapsedMs = 0;
+  }
+
+  /**
+   * Resolve once every queued frame has been sent
+   */
+  drain(): Promise<void> {
+    if (this.queue.length === 0 && !this.sending) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.drainWaiters.push(resolve));
+  }
+
+  /**
+   * Get statistics
+   */
+  getStatistics(): AudioPacerStatistics {
+    return {
+      framesSent: this.stats.framesSent,
+      framesDropped: this.stats.framesDropped,
+      underruns: this.stats.underruns,
+      queuedFrames: this.queue.length,
+      queuedMs: this.queue.reduce((total, frame) => total + frame.durationMs, 0),
+      paused: this.paused
+    };
+  }
+
+  /**
+   * Arm the timer for the next frame
+   */
+  private schedule(): void {
+    if (this.timer || this.sending || this.paused || this.queue.length === 0) {
+      return;
+    }
+
+    if (this.clockBase === null) {
+      this.clockBase = this.clock.now();
+      this.elapsedMs = 0;
+    }
+
+    const delay = Math.max(0, this.clockBase + this.elapsedMs - this.clock.now());
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.sendNext();
+    }, delay);
+  }
+
+  /**
+   * Send the head of the queue and advance the clock
+   */
+  private async sendNext(): Promise<void> {
+    const frame = this.queue.shift();
+    if (!frame) {
+      return;
+    }
+
+    this.sending = true;
+    try {
+      await this.transport.sendBinaryData(frame.data, this.dataType);
+      this.stats.framesSent++;
+    } catch (error: any) {
+      this.stats.framesDropped++;
+      if (this.options.onError) {
+        this.options.onError(error.code || ErrorCode.SEND_FAILED, error.message);
+      }
+    } finally {
+      this.sending = false;
+    }
+
+    this.elapsedMs += frame.durationMs;
+    if (this.queue.length === 0) {
+      this.resolveDrain();
+    }
+    this.schedule();
+  }
+
+  /**
+   * Wake up drain() callers
+   */
+  private resolveDrain(): void {
+    if (this.sending) {
+      return;
+    }
+    for (const resolve of this.drainWaiters.splice(0)) {
+      resolve();
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * StreamInd SDK Audio Stream Sessions
+ *
+ * Tracks inbound audio streams delimited by audio.opus_data_start / audio.opus_data_end directives
+ */
+
+import { Directive } from './models';
+import { Clock, TimerHandle, systemClock } from './clock';
+
+/** Directive announcing an inbound audio stream */
+export const AUDIO_START_DIRECTIVE = 'audio.opus_data_start';
+
+/** Directive closing an inbound audio stream */
+export const AUDIO_END_DIRECTIVE = 'audio.opus_data_end';
+
+/**
+ * Why a session ended
+ */
+export type AudioStreamEndReason = 'end' | 'timeout' | 'cancelled' | 'disconnected';
+
+/**
+ * Session callback (invoked when a start directive arrives)
+ */
+export type AudioSessionCallback = (session: AudioStreamSession) => void;
+
+/**
+ * Audio Stream Session
+ *
+ * Async iterable over the Opus packets of one inbound stream:
+ *
+ *   for await (const packet of session) { ... }
+ *
+ * Iteration completes when the stream ends; breaking out of the loop cancels the session.
+ */
+export class AudioStreamSession implements AsyncIterable<Buffer> {
+  /** Stream ID (stream_id parameter, or the start directive ID) */
+  public readonly streamId: string;
+
+  /** Start directive */
+  public readonly directive: Directive;
+
+  /** Sample rate in Hz (default: 16000) */
+  public readonly sampleRate: number;
+
+  /** Channel count (default: 1) */
+  public readonly channels: number;
+
+  /** Announced duration in seconds (0 = unknown) */
+  public readonly duration: number;
+
+  /** Start time (ms since epoch) */
+  public readonly startedAt: number;
+
+  public packetsReceived: number = 0;
+  public bytesReceived: number = 0;
+
+  private endReason: AudioStreamEndReason | null = null;
+  private packets: Buffer[] = [];
+  private waiters: Array<(result: IteratorResult<Buffer>) => void> = [];
+  private endWaiters: Array<(reason: AudioStreamEndReason) => void> = [];
+  private idleTimer: TimerHandle | null = null;
+
+  constructor(
+    directive: Directive,
+    private readonly idleTimeoutMs: number,
+    private readonly clock: Clock = systemClock
+  ) {
+    this.directive = directive;
+    this.streamId = directive.getStringParameter('stream_id', directive.id);
+    this.sampleRate = directive.getIntParameter('sample_rate', 16000);
+    this.channels = directive.getIntParameter('channels', 1);
+    this.duration = directive.getNumberParameter('duration', 0);
+    this.startedAt = this.clock.now();
+    this.resetIdleTimer();
+  }
+
+  /**
+   * Whether the session still accepts packets
+   */
+  isActive(): boolean {
+    return this.endReason === null;
+  }
+
+  /**
+   * End reason, or null while active
+   */
+  getEndReason(): AudioStreamEndReason | null {
+    return this.endReason;
+  }
+
+  /**
+   * Resolve when the session ends
+   */
+  waitForEnd(): Promise<AudioStreamEndReason> {
+    if (this.endReason) {
+      return Promise.resolve(this.endReason);
+    }
+    return new Promise((resolve) => this.endWaiters.push(resolve));
+  }
+
+  /**
+   * Cancel the session, discarding buffered packets
+   */
+  cancel(): void {
+    if (this.endReason) {
+      return;
+    }
+    this.packets = [];
+    this.finish('cancelled');
+  }
+
+  /**
+   * Deliver a packet (used by AudioSessionManager)
+   */
+  push(packet: Buffer): void {
+    if (this.endReason) {
+      return;
+    }
+
+    this.packetsReceived++;
+    this.bytesReceived += packet.length;
+    this.resetIdleTimer();
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: packet, done: false });
+    } else {
+      this.packets.push(packet);
+    }
+  }
+
+  /**
+   * End the session; buffered packets remain readable (used by AudioSessionManager)
+   */
+  finish(reason: AudioStreamEndReason): void {
+    if (this.endReason) {
+      return;
+    }
+
+    this.endReason = reason;
+    if (this.idleTimer) {
+      this.clock.clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter({ value: undefined, done: true });
+    }
+    for (const resolve of this.endWaiters.splice(0)) {
+      resolve(reason);
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<Buffer> {
+    return {
+      next: (): Promise<IteratorResult<Buffer>> => {
+        const packet = this.packets.shift();
+        if (packet) {
+          return Promise.resolve({ value: packet, done: false });
+        }
+        if (this.endReason) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => this.waiters.push(resolve));
+      },
+      return: (): Promise<IteratorResult<Buffer>> => {
+        this.cancel();
+        return Promise.resolve({ value: undefined, done: true });
+      }
+    };
+  }
+
+  /**
+   * Restart the idle timeout
+   */
+  private resetIdleTimer(): void {
+    if (this.idleTimeoutMs <= 0) {
+      return;
+    }
+    if (this.idleTimer) {
+      this.clock.clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = this.clock.setTimeout(() => this.finish('timeout'), this.idleTimeoutMs);
+  }
+}
+
+/**
+ * Audio Session Manager
+ *
+ * Creates a session per start directive and routes inbound packets to the
+ * most recently started session. Older sessions stay tracked until their end
+ * directive (matched by stream_id, or the latest session if absent), idle
+ * timeout or cancellation.
+ */
+export class AudioSessionManager {
+  private sessions: Map<string, AudioStreamSession> = new Map();
+  private current: AudioStreamSession | null = null;
+  private onSession: AudioSessionCallback | null = null;
+
+  constructor(
+    private readonly idleTimeoutMs: number,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Set session callback; sessions are only tracked while one is set
+   */
+  setSessionCallback(callback: AudioSessionCallback | null): void {
+    this.onSession = callback;
+  }
+
+  /**
+   * Handle a directive
+   *
+   * @returns true if the directive started or ended a session
+   */
+  handleDirective(directive: Directive): boolean {
+    if (directive.name === AUDIO_START_DIRECTIVE) {
+      if (!this.onSession) {
+        return false;
+      }
+
+      const session = new AudioStreamSession(directive, this.idleTimeoutMs, this.clock);
+      const previous = this.sessions.get(session.streamId);
+      if (previous) {
+        previous.finish('cancelled');
+      }
+
+      this.sessions.set(session.streamId, session);
+      this.current = session;
+      session.waitForEnd().then(() => this.remove(session));
+      this.onSession(session);
+      return true;
+    }
+
+    if (directive.name === AUDIO_END_DIRECTIVE) {
+      const streamId = directive.getStringParameter('stream_id', '');
+      const session = streamId ? this.sessions.get(streamId) : this.current;
+      if (!session) {
+        return false;
+      }
+      session.finish('end');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Route an inbound audio packet to the current session
+   *
+   * Packets are dropped once the current session has ended, until the next start directive.
+   */
+  handlePacket(packet: Buffer): void {
+    if (this.current && this.current.isActive()) {
+      this.current.push(packet);
+    }
+  }
+
+  /**
+   * Sessions that have not ended
+   */
+  getSessions(): AudioStreamSession[] {
+    return Array.from(this.sessions.values()).filter((session) => session.isActive());
+  }
+
+  /**
+   * End all sessions
+   */
+  endAll(reason: AudioStreamEndReason): void {
+    for (const session of this.sessions.values()) {
+      session.finish(reason);
+    }
+  }
+
+  /**
+   * Forget an ended session
+   */
+  private remove(session: AudioStreamSession): void {
+    if (this.sessions.get(session.streamId) === session) {
+      this.sessions.delete(session.streamId);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * StreamInd SDK Authentication
+ *
+ * Strategies computing the credentials of each connect and reconnect:
+ * - queryAuth: productKey as a URL query parameter (legacy default)
+ * - HeaderAuth: productKey in the Authorization header of the upgrade request
+ * - SignedTokenAuth: short-lived HMAC-SHA256 token signed with productKey,
+ *   so the key itself never leaves the device
+ *
+ * A signed token is "<payload>.<signature>", both base64url: the payload is
+ * the JSON of SignedTokenClaims and the signature is the HMAC-SHA256 of the
+ * encoded payload keyed with productKey.
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Terminal identity passed to a strategy
+ */
+export interface AuthContext {
+  tenantId: string;
+  productId: string;
+  productKey: string;
+  deviceId: string;
+
+  /** Current time of the terminal clock (epoch milliseconds) */
+  now: number;
+}
+
+/**
+ * Credentials added to the WebSocket upgrade request
+ */
+export interface AuthCredentials {
+  /** Query parameters appended to the endpoint URL */
+  query?: Record<string, string>;
+
+  /** HTTP headers of the upgrade request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Authentication strategy, called on every connect and reconnect
+ */
+export interface AuthStrategy {
+  credentials(context: AuthContext): AuthCredentials | Promise<AuthCredentials>;
+}
+
+/**
+ * Claims of a signed token
+ */
+export interface SignedTokenClaims {
+  tenantId: string;
+  productId: string;
+  deviceId: string;
+
+  /** Issue time (epoch milliseconds) */
+  timestamp: number;
+
+  /** Expiry time (epoch milliseconds) */
+  expiresAt: number;
+
+  /** Random hex string, unique per token */
+  nonce: string;
+}
+
+/**
+ * Sends productKey as a query parameter (default; the key appears in proxy and access logs)
+ */
+export const queryAuth: AuthStrategy = {
+  credentials: (context) => ({ query: { productKey: context.productKey } })
+};
+
+/**
+ * Header authentication options
+ */
+export interface HeaderAuthOptions {
+  /** Authorization scheme (default: "Bearer") */
+  scheme?: string;
+}
+
+/**
+ * Header Authentication
+ *
+ * Sends "Authorization: <scheme> <productKey>" with the upgrade request.
+ */
+export class HeaderAuth implements AuthStrategy {
+  private readonly scheme: string;
+
+  constructor(options: HeaderAuthOptions = {}) {
+    this.scheme = options.scheme ?? 'Bearer';
+  }
+
+  credentials(context: AuthContext): AuthCredentials {
+    return { headers: { Authorization: `${this.scheme} ${context.productKey}` } };
+  }
+}
+
+/**
+ * Signed token authentication options
+ */
+export interface SignedTokenAuthOptions {
+  /** Token lifetime in milliseconds (default: 300000) */
+  expiresInMs?: number;
+
+  /** Send the token as "Authorization: Bearer <token>" or as the "token" query parameter (default: 'header') */
+  placement?: 'header' | 'query';
+}
+
+/**
+ * Signed Token Authentication
+ *
+ * Signs a fresh token on every connect, so a token captured from a log is
+ * only usable until it expires.
+ */
+export class SignedTokenAuth implements AuthStrategy {
+  private readonly expiresInMs: number;
+  private readonly placement: 'header' | 'query';
+
+  constructor(options: SignedTokenAuthOptions = {}) {
+    this.expiresInMs = options.expiresInMs ?? 300000;
+    this.placement = options.placement ?? 'header';
+  }
+
+  credentials(context: AuthContext): AuthCredentials {
+    const token = createSignedToken({
+      tenantId: context.tenantId,
+      productId: context.productId,
+      deviceId: context.deviceId,
+      timestamp: context.now,
+      expiresAt: context.now + this.expiresInMs,
+      nonce: crypto.randomBytes(16).toString('hex')
+    }, context.productKey);
+
+    return this.placement === 'query'
+      ? { query: { token } }
+      : { headers: { Authorization: `Bearer ${token}` } };
+  }
+}
+
+/**
+ * Sign claims into a token
+ */
+export function createSignedToken(claims: SignedTokenClaims, productKey: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, productKey)}`;
+}
+
+/**
+ * Verify a signed token (for platforms and test servers)
+ *
+ * @param now Current time (epoch milliseconds, default: Date.now())
+ * @returns The claims, or null if the token is malformed, forged or expired
+ */
+export function verifySignedToken(token: string, productKey: string, now: number = Date.now()): SignedTokenClaims | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, productKey));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: SignedTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (e) {
+    return null;
+  }
+  if (typeof claims !== 'object' || claims === null || typeof claims.expiresAt !== 'number' || now > claims.expiresAt) {
+    return null;
+  }
+  return claims;
+}
+
+/**
+ * base64url HMAC-SHA256 of a token payload
+ */
+function sign(payload: string, productKey: string): string {
+  return crypto.createHmac('sha256', productKey).update(payload).digest('base64url');
+}
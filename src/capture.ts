@@ -0,0 +1,209 @@
+/**
+ * StreamInd SDK Session Capture
+ *
+ * Records terminal traffic to a newline-delimited JSON capture file and
+ * replays the inbound part into a terminal. A capture starts with a header
+ * line followed by one line per WebSocket message:
+ *
+ *   {"capture":"streamind","version":1,"startedAt":"...","deviceId":"...","endpoint":"..."}
+ *   {"timestamp":1700000000000,"direction":"out","kind":"text","data":"{\"type\":\"sensor.data\",...}"}
+ *   {"timestamp":1700000000020,"direction":"in","kind":"binary","dataType":"OPUS","data":"<base64>"}
+ *
+ * Binary messages are stored decoded (frame payload and data type); a frame
+ * that could not be decoded is stored as received, without dataType.
+ * Credentials are scrubbed from the header and from text messages.
+ */
+
+import * as fs from 'fs';
+import { ErrorCode, StreamIndError } from './errors';
+import { Clock, systemClock, sleep } from './clock';
+
+/**
+ * First line of a capture
+ */
+export interface CaptureHeader {
+  capture: 'streamind';
+  version: 1;
+  startedAt: string;
+  deviceId: string;
+
+  /** Endpoint with credentials redacted */
+  endpoint: string;
+}
+
+/**
+ * One recorded WebSocket message
+ */
+export interface CaptureRecord {
+  /** Time the message was sent or received (epoch milliseconds) */
+  timestamp: number;
+
+  direction: 'in' | 'out';
+  kind: 'text' | 'binary';
+
+  /** Text message, or base64 of the binary payload */
+  data: string;
+
+  /** Data type of a decoded binary frame */
+  dataType?: string;
+}
+
+/**
+ * Recorder hook of a terminal
+ */
+export interface Recorder {
+  /** Called with the header once, then with every message */
+  write(entry: CaptureHeader | CaptureRecord): void;
+
+  /** Called when recording stops */
+  close(): Promise<void>;
+}
+
+/**
+ * Receives replayed inbound messages (implemented by the terminal transport)
+ */
+export interface ReplayTarget {
+  replayInbound(record: CaptureRecord): void;
+}
+
+/**
+ * Replay options
+ */
+export interface ReplayOptions {
+  /** Playback speed factor (1 = original timing, 10 = ten times faster, 0 = no delays; default: 1) */
+  speed?: number;
+
+  /** Stops the replay when aborted */
+  signal?: AbortSignal;
+
+  /** Clock timing the delays (default: system clock; the SDK uses the terminal clock) */
+  clock?: Clock;
+}
+
+/**
+ * Capture File Recorder
+ *
+ * Appends capture lines to a file through a write stream. A file error
+ * fails later writes and close().
+ */
+export class FileRecorder implements Recorder {
+  private stream: fs.WriteStream;
+  private error: Error | null = null;
+
+  constructor(path: string) {
+    this.stream = fs.createWriteStream(path, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      this.error = this.error ?? error;
+    });
+  }
+
+  write(entry: CaptureHeader | CaptureRecord): void {
+    if (this.error) {
+      throw this.error;
+    }
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // A file that fails to open errors after end() was called
+      this.stream.once('error', reject);
+      this.stream.end((error?: Error | null) => {
+        const failure = this.error ?? error;
+        if (failure) {
+          reject(failure);
+        } else {
+          resolve();
+        }
+      });
+      if (this.stream.destroyed) {
+        // end() does not call back on a stream destroyed by an error
+        reject(this.error);
+      }
+    });
+  }
+}
+
+/**
+ * Read the message records of a capture file (the header is skipped)
+ *
+ * @throws StreamIndError(INVALID_PARAMETER) on a malformed line
+ */
+export function readCapture(path: string): CaptureRecord[] {
+  return parseCapture(fs.readFileSync(path, 'utf8'));
+}
+
+/**
+ * Parse the message records of capture text (the header is skipped)
+ *
+ * @throws StreamIndError(INVALID_PARAMETER) on a malformed line
+ */
+export function parseCapture(text: string): CaptureRecord[] {
+  const records: CaptureRecord[] = [];
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (e) {
+      throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `Capture line ${index + 1} is not valid JSON`);
+    }
+    if (entry.capture === 'streamind') {
+      return;
+    }
+    if (typeof entry.timestamp !== 'number' ||
+        (entry.direction !== 'in' && entry.direction !== 'out') ||
+        (entry.kind !== 'text' && entry.kind !== 'binary') ||
+        typeof entry.data !== 'string') {
+      throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `Capture line ${index + 1} is not a capture record`);
+    }
+    records.push(entry);
+  });
+  return records;
+}
+
+/**
+ * Feed the inbound records of a capture into a target, preserving their relative timing
+ *
+ * @returns Number of records replayed
+ * @throws StreamIndError(CANCELLED) if aborted
+ */
+export async function replayCapture(
+  records: CaptureRecord[],
+  target: ReplayTarget,
+  options: ReplayOptions = {}
+): Promise<number> {
+  const speed = options.speed ?? 1;
+  if (!(speed >= 0)) {
+    throw new StreamIndError(ErrorCode.INVALID_PARAMETER, 'speed must not be negative');
+  }
+
+  const clock = options.clock ?? systemClock;
+  const inbound = records.filter((record) => record.direction === 'in');
+  const startTime = clock.now();
+  const firstTimestamp = inbound.length > 0 ? inbound[0].timestamp : 0;
+  let replayed = 0;
+
+  for (const record of inbound) {
+    if (options.signal && options.signal.aborted) {
+      throw new StreamIndError(ErrorCode.CANCELLED, 'Replay cancelled');
+    }
+
+    if (speed > 0) {
+      const wait = startTime + (record.timestamp - firstTimestamp) / speed - clock.now();
+      if (wait > 0) {
+        await sleep(clock, wait, options.signal);
+      }
+      if (options.signal && options.signal.aborted) {
+        throw new StreamIndError(ErrorCode.CANCELLED, 'Replay cancelled');
+      }
+    }
+
+    target.replayInbound(record);
+    replayed++;
+  }
+  return replayed;
+}
@@ -0,0 +1,49 @@
+/**
+ * StreamInd SDK Typed Catalog
+ *
+ * Compile-time mapping of signal types to payloads and directive names to parameters:
+ *
+ *   interface MyCatalog {
+ *     signals: { 'sensor.data': { temperature: number; humidity: number } };
+ *     directives: { 'audio.play': { url: string; volume: number } };
+ *   }
+ *
+ *   const sdk = new SDK<MyCatalog>();
+ */
+
+import { Directive } from './models';
+
+/**
+ * Shape every catalog must have
+ */
+export interface Catalog {
+  signals: object;
+  directives: object;
+}
+
+/**
+ * Untyped catalog: any signal type or directive name with any fields
+ */
+export interface DefaultCatalog extends Catalog {
+  signals: Record<string, Record<string, any>>;
+  directives: Record<string, Record<string, any>>;
+}
+
+/** Signal types of a catalog */
+export type SignalType<C extends Catalog> = Extract<keyof C['signals'], string>;
+
+/** Payload of a signal type */
+export type SignalPayload<C extends Catalog, T extends SignalType<C>> = C['signals'][T];
+
+/** Directive names of a catalog */
+export type DirectiveName<C extends Catalog> = Extract<keyof C['directives'], string>;
+
+/** Parameters of a directive name */
+export type DirectiveParameters<C extends Catalog, N extends DirectiveName<C>> =
+  C['directives'][N] extends Record<string, any> ? C['directives'][N] : Record<string, any>;
+
+/** Directive with the parameters declared for its name */
+export type CatalogDirective<C extends Catalog, N extends DirectiveName<C>> = Directive<DirectiveParameters<C, N>>;
+
+/** Pattern matching several directive names (wildcard or RegExp); exact names are type-checked */
+export type WildcardPattern = `${string}*${string}` | RegExp;
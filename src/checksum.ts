@@ -0,0 +1,55 @@
+/**
+ * StreamInd SDK Checksums
+ */
+
+/**
+ * CRC-32 lookup table (IEEE 802.3, reflected polynomial 0xEDB88320)
+ */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (same as zlib/gzip)
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Ogg CRC-32 lookup table (polynomial 0x04C11DB7, not reflected)
+ */
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Ogg page checksum (computed with the checksum field zeroed)
+ */
+export function oggCrc32(data: Buffer): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc >>> 0;
+}
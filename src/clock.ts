@@ -0,0 +1,220 @@
+/**
+ * StreamInd SDK Clock
+ *
+ * Time, timer and random sources, injectable for deterministic tests
+ */
+
+import { ErrorCode, StreamIndError } from './errors';
+
+/**
+ * Opaque timer handle returned by Clock.setTimeout()
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Time and timer source
+ */
+export interface Clock {
+  /** Current time in epoch milliseconds */
+  now(): number;
+
+  /** Run a callback once after a delay */
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+
+  /** Cancel a pending callback */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Random source returning numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Clock backed by Date.now() and the global timers (default)
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout)
+};
+
+/**
+ * Wait for a delay on a clock
+ *
+ * Resolves early when the signal aborts; callers check signal.aborted afterwards.
+ */
+export function sleep(clock: Clock, delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal && signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clock.clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener('abort', done);
+      }
+      resolve();
+    };
+    const timer = clock.setTimeout(done, delayMs);
+    if (signal) {
+      signal.addEventListener('abort', done, { once: true });
+    }
+  });
+}
+
+/**
+ * Pending virtual timer
+ */
+interface VirtualTimer {
+  due: number;
+  callback: () => void;
+}
+
+/**
+ * Virtual Clock
+ *
+ * Time only moves when advanced; due timers run in order of due time (then
+ * creation), each with now() set to its due time. Timers scheduled by a
+ * running callback run in the same advance if they fall due within it.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: VirtualTimer[] = [];
+
+  constructor(startTime: number = 0) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const timer: VirtualTimer = { due: this.current + Math.max(0, delayMs || 0), callback };
+    const index = this.timers.findIndex((other) => other.due > timer.due);
+    if (index === -1) {
+      this.timers.push(timer);
+    } else {
+      this.timers.splice(index, 0, timer);
+    }
+    return timer;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    const index = this.timers.indexOf(handle as VirtualTimer);
+    if (index !== -1) {
+      this.timers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Number of pending timers
+   */
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Milliseconds until the next timer is due, or null if none is pending
+   */
+  nextTimerDelay(): number | null {
+    return this.timers.length > 0 ? this.timers[0].due - this.current : null;
+  }
+
+  /**
+   * Move time forward, running the timers that fall due
+   *
+   * @returns Number of timers run
+   */
+  advance(ms: number): number {
+    const target = this.current + Math.max(0, ms);
+    let count = 0;
+    while (this.timers.length > 0 && this.timers[0].due <= target) {
+      this.runTimer();
+      count++;
+    }
+    this.current = target;
+    return count;
+  }
+
+  /**
+   * Like advance(), but lets pending promise callbacks settle after each timer
+   *
+   * Use when timer callbacks are async (e.g. reconnect attempts).
+   */
+  async advanceAsync(ms: number): Promise<number> {
+    const target = this.current + Math.max(0, ms);
+    let count = 0;
+    await settle();
+    while (this.timers.length > 0 && this.timers[0].due <= target) {
+      this.runTimer();
+      count++;
+      await settle();
+    }
+    this.current = target;
+    return count;
+  }
+
+  /**
+   * Jump to the next timer and run it
+   *
+   * @returns false if no timer is pending
+   */
+  runNext(): boolean {
+    if (this.timers.length === 0) {
+      return false;
+    }
+    this.runTimer();
+    return true;
+  }
+
+  /**
+   * Run timers until none is pending
+   *
+   * @returns Number of timers run
+   * @throws StreamIndError(INTERNAL_ERROR) if timers are still pending after maxTimers ran (e.g. a rescheduling heartbeat)
+   */
+  runAll(maxTimers: number = 10000): number {
+    let count = 0;
+    while (this.timers.length > 0) {
+      if (count >= maxTimers) {
+        throw new StreamIndError(ErrorCode.INTERNAL_ERROR, `Timers still pending after running ${maxTimers}`);
+      }
+      this.runTimer();
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Remove and run the earliest timer at its due time
+   */
+  private runTimer(): void {
+    const timer = this.timers.shift()!;
+    this.current = Math.max(this.current, timer.due);
+    timer.callback();
+  }
+}
+
+/**
+ * Resolve after pending promise callbacks and I/O callbacks have run
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Deterministic random source (mulberry32) for reproducible jitter
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * StreamInd SDK Configuration Loader
+ *
+ * Builds a configuration from defaults, a config file and STREAMIND_*
+ * environment variables. Later sources win:
+ *
+ *   defaults < file < environment < overrides
+ *
+ * The file is JSON, or flat YAML ("key: value" lines with # comments).
+ * Environment variables use the upper snake case field name, e.g.
+ * STREAMIND_PRODUCT_KEY for productKey and STREAMIND_HEARTBEAT_INTERVAL_MS
+ * for heartbeatIntervalMs. STREAMIND_CONFIG_FILE names the file when
+ * options.file is not given.
+ */
+
+import * as fs from 'fs';
+import { Config, ConfigError, formatConfigErrors, getConfigWithDefaults, validateConfig } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+
+/**
+ * Options of loadConfig()
+ */
+export interface LoadConfigOptions {
+  /** Config file path (default: $STREAMIND_CONFIG_FILE, or none) */
+  file?: string;
+
+  /** Environment to read (default: process.env) */
+  env?: Record<string, string | undefined>;
+
+  /** Environment variable prefix (default: "STREAMIND_") */
+  envPrefix?: string;
+
+  /** Values applied last, e.g. a logger or command line options */
+  overrides?: Partial<Config>;
+}
+
+/**
+ * Value type of a configuration field settable from a file or the environment
+ */
+type FieldType = 'string' | 'number' | 'boolean';
+
+const FIELD_TYPES: Record<string, FieldType> = {
+  deviceId: 'string',
+  deviceType: 'string',
+  endpoint: 'string',
+  tenantId: 'string',
+  productId: 'string',
+  productKey: 'string',
+  enableDirectiveReceiving: 'boolean',
+  connectionTimeoutMs: 'number',
+  heartbeatIntervalMs: 'number',
+  maxMessageSize: 'number',
+  maxTransferSize: 'number',
+  maxReconnectAttempts: 'number',
+  baseReconnectIntervalMs: 'number',
+  maxReconnectIntervalMs: 'number',
+  backoffFactor: 'number',
+  jitterFactor: 'number',
+  offlineQueueEnabled: 'boolean',
+  offlineQueueBinary: 'boolean',
+  offlineQueueMaxSize: 'number',
+  offlineQueueTtlMs: 'number',
+  offlineQueueOverflowPolicy: 'string',
+  journalDir: 'string',
+  journalSegmentMaxBytes: 'number',
+  journalFsync: 'boolean',
+  audioSessionIdleTimeoutMs: 'number',
+  directiveAutoAck: 'boolean',
+  directiveAutoComplete: 'boolean',
+  directiveTimeoutMs: 'number',
+  signalValidation: 'string',
+  directiveValidation: 'string',
+  directiveRejectInvalid: 'boolean'
+};
+
+/**
+ * Load and validate a configuration
+ *
+ * @returns Configuration with defaults applied
+ * @throws StreamIndError(INVALID_CONFIG) listing every problem in the file, environment and resulting configuration
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Required<Config> {
+  const env = options.env ?? process.env;
+  const prefix = options.envPrefix ?? 'STREAMIND_';
+  const errors: ConfigError[] = [];
+
+  const file = options.file ?? env[`${prefix}CONFIG_FILE`];
+  const fromFile = file ? readConfigFile(file, errors) : {};
+  const fromEnv = readConfigEnv(env, prefix, errors);
+  const config = { ...fromFile, ...fromEnv, ...options.overrides } as Config;
+
+  // Report fields that failed to parse once, not again as missing or invalid
+  const failed = new Set(errors.map((error) => error.field));
+  errors.push(...validateConfig(config).filter((error) => !failed.has(error.field)));
+  if (errors.length > 0) {
+    throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Invalid configuration: ${formatConfigErrors(errors)}`);
+  }
+  return getConfigWithDefaults(config);
+}
+
+/**
+ * Read the fields of a JSON or flat YAML config file, adding field problems to errors
+ *
+ * @throws StreamIndError(INVALID_CONFIG) if the file cannot be read or parsed
+ */
+function readConfigFile(path: string, errors: ConfigError[]): Partial<Config> {
+  let text: string;
+  try {
+    text = fs.readFileSync(path, 'utf8');
+  } catch (e: any) {
+    throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Cannot read config file ${path}: ${e.message}`);
+  }
+
+  let values: Record<string, unknown>;
+  if (/\.json$/i.test(path) || text.trim().startsWith('{')) {
+    try {
+      values = JSON.parse(text);
+    } catch (e: any) {
+      throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Config file ${path} is not valid JSON: ${e.message}`);
+    }
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Config file ${path} must contain a JSON object`);
+    }
+  } else {
+    values = parseFlatYaml(text, path);
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(values)) {
+    const type = Object.prototype.hasOwnProperty.call(FIELD_TYPES, field) ? FIELD_TYPES[field] : undefined;
+    if (!type) {
+      errors.push({ field, message: `is not a known field (in ${path})` });
+    } else if (value !== null && typeof value !== type) {
+      errors.push({ field, message: `must be a ${type} (in ${path})` });
+    } else if (value !== null) {
+      config[field] = value;
+    }
+  }
+  return config as Partial<Config>;
+}
+
+/**
+ * Read the fields set by environment variables, adding parse problems to errors
+ */
+function readConfigEnv(env: Record<string, string | undefined>, prefix: string, errors: ConfigError[]): Partial<Config> {
+  const config: Record<string, unknown> = {};
+  for (const [field, type] of Object.entries(FIELD_TYPES)) {
+    const name = prefix + envName(field);
+    const text = env[name];
+    if (text === undefined || text === '') {
+      continue;
+    }
+
+    const value = parseScalar(text.trim(), type);
+    if (value === undefined) {
+      errors.push({ field, message: `must be a ${type} (${name})` });
+    } else {
+      config[field] = value;
+    }
+  }
+  return config as Partial<Config>;
+}
+
+/**
+ * Upper snake case of a field name (heartbeatIntervalMs -> HEARTBEAT_INTERVAL_MS)
+ */
+function envName(field: string): string {
+  return field.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * Parse a text value as a field type
+ *
+ * @returns undefined if the text is not of the type
+ */
+function parseScalar(text: string, type: FieldType): string | number | boolean | undefined {
+  switch (type) {
+    case 'string':
+      return text;
+    case 'number': {
+      const value = Number(text);
+      return text !== '' && Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (['true', 'yes', 'on', '1'].includes(lower)) return true;
+      if (['false', 'no', 'off', '0'].includes(lower)) return false;
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Parse flat YAML: "key: value" lines, # comments, quoted or plain scalars
+ *
+ * Plain scalars are read as YAML would: true/false, null/~, numbers, otherwise strings.
+ *
+ * @throws StreamIndError(INVALID_CONFIG) on nested or malformed lines
+ */
+function parseFlatYaml(text: string, path: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  text.split(/\r?\n/).forEach((line, index) => {
+    const content = stripComment(line);
+    if (!content.trim() || content.trim() === '---') {
+      return;
+    }
+
+    const match = /^([A-Za-z_][A-Za-z0-9_]*)\s*:(?:\s+(.*))?$/.exec(content.trimEnd());
+    if (!match || /^\s/.test(content)) {
+      throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Config file ${path} line ${index + 1}: expected "key: value"`);
+    }
+
+    const raw = (match[2] ?? '').trim();
+    if (/^".*"$/.test(raw)) {
+      try {
+        values[match[1]] = JSON.parse(raw);
+      } catch (e) {
+        throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Config file ${path} line ${index + 1}: malformed string`);
+      }
+    } else if (/^'.*'$/.test(raw)) {
+      values[match[1]] = raw.slice(1, -1).replace(/''/g, "'");
+    } else if (raw === '' || raw === 'null' || raw === '~') {
+      values[match[1]] = null;
+    } else if (raw === 'true' || raw === 'false') {
+      values[match[1]] = raw === 'true';
+    } else if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(raw)) {
+      values[match[1]] = Number(raw);
+    } else {
+      values[match[1]] = raw;
+    }
+  });
+  return values;
+}
+
+/**
+ * Line without a trailing # comment (a # inside quotes or not preceded by a space is kept)
+ */
+function stripComment(line: string): string {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
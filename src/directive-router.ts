@@ -0,0 +1,189 @@
+/**
+ * StreamInd SDK Directive Router
+ *
+ * Dispatches directives to handlers by name pattern, through a middleware chain
+ */
+
+import { Directive } from './models';
+
+/**
+ * Directive name pattern: exact name, wildcard ("audio.*", "*") or RegExp
+ */
+export type DirectivePattern = string | RegExp;
+
+/**
+ * Directive handler
+ */
+export type DirectiveHandler = (directive: Directive) => unknown | Promise<unknown>;
+
+/**
+ * Directive middleware; call next() to continue to the handlers
+ *
+ * next() resolves to the handlers' result. Not calling it stops the directive.
+ */
+export type DirectiveMiddleware = (directive: Directive, next: () => Promise<unknown>) => unknown | Promise<unknown>;
+
+/**
+ * Outcome of DirectiveRouter.dispatch()
+ */
+export interface DispatchResult {
+  /** Whether handlers ran (false if none matched or a middleware did not call next()) */
+  handled: boolean;
+
+  /** Last handler's result */
+  result: unknown;
+}
+
+/**
+ * Registered route
+ */
+interface Route {
+  pattern: DirectivePattern;
+  matcher: RegExp | null;
+  handler: DirectiveHandler;
+}
+
+/**
+ * Compile a wildcard pattern ("*" matches any characters, including dots)
+ */
+function compilePattern(pattern: DirectivePattern): RegExp | null {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  if (!pattern.includes('*')) {
+    return null;
+  }
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Directive Router
+ *
+ * Ordering is fixed:
+ * 1. Middleware of the parent router, then this router's, in registration order
+ * 2. Every matching route of this router, then of the parent, in registration
+ *    order; each handler is awaited before the next starts
+ * 3. If no route matched: this router's fallback, else the parent's
+ *
+ * dispatch() resolves to whether handlers ran and the last handler's result,
+ * and rejects with the first error thrown by a middleware or handler.
+ */
+export class DirectiveRouter {
+  private routes: Route[] = [];
+  private middleware: DirectiveMiddleware[] = [];
+  private fallback: DirectiveHandler | null = null;
+
+  /**
+   * @param parent Router whose middleware and routes also apply (e.g. the SDK-wide router)
+   */
+  constructor(private readonly parent: DirectiveRouter | null = null) {}
+
+  /**
+   * Add a handler for directives matching the pattern
+   *
+   * @returns Function removing the handler
+   */
+  on(pattern: DirectivePattern, handler: DirectiveHandler): () => void {
+    const route: Route = { pattern, matcher: compilePattern(pattern), handler };
+    this.routes.push(route);
+    return () => {
+      this.routes = this.routes.filter((entry) => entry !== route);
+    };
+  }
+
+  /**
+   * Add middleware
+   *
+   * @returns Function removing the middleware
+   */
+  use(middleware: DirectiveMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((entry) => entry !== middleware);
+    };
+  }
+
+  /**
+   * Set the handler for directives no route matches (null to remove)
+   */
+  setFallback(handler: DirectiveHandler | null): void {
+    this.fallback = handler;
+  }
+
+  /**
+   * Whether a route or fallback would handle the directive
+   */
+  matches(directive: Directive): boolean {
+    return this.collectHandlers(directive).length > 0;
+  }
+
+  /**
+   * Run a directive through middleware and handlers
+   */
+  async dispatch(directive: Directive): Promise<DispatchResult> {
+    const chain = this.collectMiddleware();
+    const handlers = this.collectHandlers(directive);
+    let handled = false;
+    let result: unknown;
+
+    const run = async (index: number): Promise<unknown> => {
+      if (index < chain.length) {
+        let called = false;
+        return chain[index](directive, () => {
+          if (called) {
+            return Promise.reject(new Error('next() called multiple times'));
+          }
+          called = true;
+          return run(index + 1);
+        });
+      }
+
+      handled = handlers.length > 0;
+      for (const handler of handlers) {
+        result = await handler(directive);
+      }
+      return result;
+    };
+
+    await run(0);
+    return { handled, result };
+  }
+
+  /**
+   * Middleware chain, parent first
+   */
+  private collectMiddleware(): DirectiveMiddleware[] {
+    const inherited = this.parent ? this.parent.collectMiddleware() : [];
+    return inherited.concat(this.middleware);
+  }
+
+  /**
+   * Matching handlers, or the nearest fallback if none match
+   */
+  private collectHandlers(directive: Directive): DirectiveHandler[] {
+    const handlers = this.matchRoutes(directive);
+    if (handlers.length > 0) {
+      return handlers;
+    }
+    const fallback = this.findFallback();
+    return fallback ? [fallback] : [];
+  }
+
+  /**
+   * Handlers of matching routes, own routes first
+   */
+  private matchRoutes(directive: Directive): DirectiveHandler[] {
+    const own = this.routes
+      .filter((route) => (route.matcher ? route.matcher.test(directive.name) : route.pattern === directive.name))
+      .map((route) => route.handler);
+    return this.parent ? own.concat(this.parent.matchRoutes(directive)) : own;
+  }
+
+  /**
+   * Own fallback, else the parent's
+   */
+  private findFallback(): DirectiveHandler | null {
+    return this.fallback ?? (this.parent ? this.parent.findFallback() : null);
+  }
+}
@@ -15,11 +15,22 @@ export enum ErrorCode {
   SEND_FAILED = 10,
   INVALID_PARAMETER = 11,
   TERMINAL_NOT_FOUND = 12,
+  QUEUE_FULL = 13,
+  INVALID_FRAME = 14,
+  CANCELLED = 15,
+  INVALID_MEDIA = 16,
+  HANDLER_FAILED = 17,
+  INVALID_DIRECTIVE = 18,
+  AUTH_FAILED = 19,
+  IO_ERROR = 20,
   INTERNAL_ERROR = 99
 }
 
 /**
  * StreamInd SDK Error
+ *
+ * Messages are built without credentials; the transport masks the productKey
+ * value in messages taken from caught errors.
  */
 export class StreamIndError extends Error {
   public readonly code: ErrorCode;
@@ -50,6 +61,14 @@ export function getErrorMessage(code: ErrorCode): string {
     [ErrorCode.SEND_FAILED]: 'Send failed',
     [ErrorCode.INVALID_PARAMETER]: 'Invalid parameter',
     [ErrorCode.TERMINAL_NOT_FOUND]: 'Terminal not found',
+    [ErrorCode.QUEUE_FULL]: 'Offline queue is full',
+    [ErrorCode.INVALID_FRAME]: 'Malformed binary frame',
+    [ErrorCode.CANCELLED]: 'Operation cancelled',
+    [ErrorCode.INVALID_MEDIA]: 'Invalid media data',
+    [ErrorCode.HANDLER_FAILED]: 'Directive handler failed',
+    [ErrorCode.INVALID_DIRECTIVE]: 'Invalid directive parameters',
+    [ErrorCode.AUTH_FAILED]: 'Authentication failed',
+    [ErrorCode.IO_ERROR]: 'Read or write failed',
     [ErrorCode.INTERNAL_ERROR]: 'Internal error'
   };
   return messages[code] || 'Unknown error';
@@ -0,0 +1,167 @@
+/**
+ * StreamInd SDK Event Iterator
+ *
+ * Bounded async-iterable buffer fed by event listeners
+ */
+
+import { OverflowPolicy } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+
+/**
+ * Event iterator options
+ */
+export interface EventIteratorOptions {
+  /** Maximum buffered items (default: 100) */
+  bufferSize?: number;
+
+  /** Policy when the buffer is full; 'reject' fails the iterator with QUEUE_FULL (default: 'drop-oldest') */
+  overflowPolicy?: OverflowPolicy;
+
+  /** Ends the iterator and discards buffered items when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Pending next() call (methods, so EventIterator<T> is assignable to EventIterator<unknown>)
+ */
+interface Waiter<T> {
+  resolve(result: IteratorResult<T>): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Event Iterator
+ *
+ * Items pushed while nobody is waiting are buffered up to bufferSize. After
+ * end(), buffered items are still yielded before iteration completes;
+ * breaking out of a for await loop or aborting the signal discards them.
+ */
+export class EventIterator<T> implements AsyncIterableIterator<T> {
+  private readonly bufferSize: number;
+  private readonly overflowPolicy: OverflowPolicy;
+  private readonly controller: AbortController = new AbortController();
+  private buffer: T[] = [];
+  private waiters: Array<Waiter<T>> = [];
+  private ended: boolean = false;
+  private error: Error | null = null;
+  private dropped: number = 0;
+
+  constructor(options: EventIteratorOptions = {}) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? 100);
+    this.overflowPolicy = options.overflowPolicy ?? 'drop-oldest';
+
+    const { signal } = options;
+    if (signal) {
+      if (signal.aborted) {
+        this.cancel();
+      } else {
+        const onAbort = () => this.cancel();
+        signal.addEventListener('abort', onAbort, { once: true });
+        this.controller.signal.addEventListener('abort', () => signal.removeEventListener('abort', onAbort), { once: true });
+      }
+    }
+  }
+
+  /**
+   * Aborted once the iterator stops accepting items (use to remove its listeners)
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Number of items dropped because the buffer was full
+   */
+  getDropped(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Deliver an item
+   */
+  push(value: T): void {
+    if (this.ended) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflowPolicy === 'reject') {
+        this.fail(new StreamIndError(ErrorCode.QUEUE_FULL, `Iterator buffer full (${this.bufferSize} items)`));
+        return;
+      }
+      this.dropped++;
+      if (this.overflowPolicy === 'drop-newest') {
+        return;
+      }
+      this.buffer.shift();
+    }
+    this.buffer.push(value);
+  }
+
+  /**
+   * Stop accepting items; buffered items remain readable
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.controller.abort();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * Stop accepting items; next() rejects with the error once the buffer is drained
+   */
+  fail(error: Error): void {
+    if (this.ended) {
+      return;
+    }
+    this.error = error;
+    this.ended = true;
+    this.controller.abort();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * End the iterator and discard buffered items
+   */
+  cancel(): void {
+    this.buffer = [];
+    this.end();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this.cancel();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * StreamInd SDK Typed Event Emitter
+ *
+ * Multi-listener events with AbortSignal removal
+ */
+
+import { Logger, silentLogger, errorFields } from './logger';
+
+/**
+ * Event listener for an event's argument tuple
+ */
+export type EventListener<Args extends unknown[]> = (...args: Args) => void | Promise<void>;
+
+/**
+ * Listener receiving every event (name and arguments)
+ */
+export type AnyEventListener<Events> = (event: keyof Events, args: unknown[]) => void;
+
+/**
+ * Listener registration options
+ */
+export interface ListenerOptions {
+  /** Removes the listener when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Listeners of a legacy set*Callback method, by event
+ */
+export type CallbackListeners<Events extends { [K in keyof Events]: unknown[] }> = {
+  [K in keyof Events]?: EventListener<Events[K]>;
+};
+
+/**
+ * Registered listener
+ */
+interface ListenerEntry {
+  listener: (...args: any[]) => void | Promise<void>;
+  once: boolean;
+  detach: (() => void) | null;
+}
+
+/**
+ * Typed Event Emitter
+ *
+ * Listeners run synchronously in registration order, followed by onAny()
+ * listeners. A listener that throws (or rejects) is passed to
+ * listenerFailed() (logged by default) and does not stop the others; unlike
+ * Node's EventEmitter, an 'error' event without listeners is not thrown.
+ */
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners: Map<keyof Events, ListenerEntry[]> = new Map();
+  private anyListeners: ListenerEntry[] = [];
+  private callbackListeners: Map<string, Array<{ event: keyof Events; listener: ListenerEntry['listener'] }>> = new Map();
+
+  /** Receives listener failures (silent by default) */
+  protected logger: Logger = silentLogger;
+
+  /**
+   * Add a listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>, options: ListenerOptions = {}): this {
+    this.addEntry(this.entriesFor(event), listener, false, options);
+    return this;
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>, options: ListenerOptions = {}): this {
+    this.addEntry(this.entriesFor(event), listener, true, options);
+    return this;
+  }
+
+  /**
+   * Remove a listener (the earliest registration if added more than once)
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    this.removeEntry(this.listeners.get(event), listener);
+    return this;
+  }
+
+  /**
+   * Add a listener for every event, invoked after the event's own listeners
+   */
+  onAny(listener: AnyEventListener<Events>, options: ListenerOptions = {}): this {
+    this.addEntry(this.anyListeners, listener, false, options);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with onAny()
+   */
+  offAny(listener: AnyEventListener<Events>): this {
+    this.removeEntry(this.anyListeners, listener);
+    return this;
+  }
+
+  /**
+   * Number of listeners for an event
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Invoke the listeners of an event
+   *
+   * @returns true if the event had listeners
+   */
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean {
+    const entries = this.listeners.get(event) ?? [];
+    const anyEntries = this.anyListeners;
+    const hasListeners = entries.length > 0;
+
+    for (const entry of entries.slice()) {
+      this.invoke(entries, entry, event, args, args);
+    }
+    for (const entry of anyEntries.slice()) {
+      this.invoke(anyEntries, entry, event, args, [event, args]);
+    }
+    return hasListeners;
+  }
+
+  /**
+   * Handle a listener that threw or rejected
+   */
+  protected listenerFailed<K extends keyof Events>(event: K, _args: Events[K], error: unknown): void {
+    this.logger.error('Event listener failed', { event: String(event), ...errorFields(error) });
+  }
+
+  /**
+   * Register the listeners of a legacy set*Callback method, removing the ones it registered before
+   */
+  protected replaceCallback(name: string, listeners: CallbackListeners<Events>): void {
+    for (const { event, listener } of this.callbackListeners.get(name) ?? []) {
+      this.removeEntry(this.listeners.get(event), listener);
+    }
+
+    const registered: Array<{ event: keyof Events; listener: ListenerEntry['listener'] }> = [];
+    for (const event of Object.keys(listeners) as Array<keyof Events>) {
+      const listener = listeners[event]!;
+      this.addEntry(this.entriesFor(event), listener, false, {});
+      registered.push({ event, listener });
+    }
+    this.callbackListeners.set(name, registered);
+  }
+
+  /**
+   * Listener list of an event, created on demand
+   */
+  private entriesFor(event: keyof Events): ListenerEntry[] {
+    let entries = this.listeners.get(event);
+    if (!entries) {
+      entries = [];
+      this.listeners.set(event, entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Register a listener, honoring options.signal
+   */
+  private addEntry(
+    entries: ListenerEntry[],
+    listener: (...args: any[]) => void | Promise<void>,
+    once: boolean,
+    options: ListenerOptions
+  ): void {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return;
+    }
+
+    const entry: ListenerEntry = { listener, once, detach: null };
+    if (signal) {
+      const onAbort = () => this.removeEntry(entries, listener, entry);
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.detach = () => signal.removeEventListener('abort', onAbort);
+    }
+    entries.push(entry);
+  }
+
+  /**
+   * Remove a registration by entry, or the first one with the listener
+   */
+  private removeEntry(
+    entries: ListenerEntry[] | undefined,
+    listener: (...args: any[]) => void | Promise<void>,
+    entry?: ListenerEntry
+  ): void {
+    if (!entries) {
+      return;
+    }
+    const index = entry ? entries.indexOf(entry) : entries.findIndex((candidate) => candidate.listener === listener);
+    if (index === -1) {
+      return;
+    }
+    const [removed] = entries.splice(index, 1);
+    if (removed.detach) {
+      removed.detach();
+    }
+  }
+
+  /**
+   * Call a listener, reporting synchronous and asynchronous failures
+   */
+  private invoke<K extends keyof Events>(
+    entries: ListenerEntry[],
+    entry: ListenerEntry,
+    event: K,
+    args: Events[K],
+    listenerArgs: unknown[]
+  ): void {
+    if (entry.once) {
+      this.removeEntry(entries, entry.listener, entry);
+    }
+
+    const fail = (error: unknown) => this.listenerFailed(event, args, error);
+    try {
+      const result = entry.listener(...listenerArgs);
+      if (result && typeof result.then === 'function') {
+        result.then(undefined, fail);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * StreamInd SDK Fragmented Binary Transfer
+ *
+ * Splits payloads larger than one 0x82 frame into sequenced fragments and
+ * reassembles them on receive. Each fragment travels as a regular 0x82 frame
+ * with data type "FRAG"; the frame payload starts with a fragment header:
+ *
+ * - Byte 0:      Flags (0x01 start, 0x02 end, 0x04 cancel)
+ * - Byte 1-4:    Transfer ID (big-endian)
+ * - Byte 5-8:    Sequence number (big-endian, starting at 0)
+ *
+ * Start fragments extend the header with:
+ * - Byte 9-12:   Total data length (big-endian)
+ * - Byte 13-16:  CRC-32 of the complete data
+ * - Byte 17-23:  Original data type (7-byte ASCII, uppercase, zero-padded)
+ *
+ * The fragment data follows the header.
+ */
+
+import { crc32 } from './checksum';
+import { MAX_FRAME_PAYLOAD } from './frame';
+import { ErrorCode, StreamIndError } from './errors';
+import { Clock, systemClock } from './clock';
+
+/** Frame data type carrying fragments */
+export const FRAGMENT_DATA_TYPE = 'FRAG';
+
+/** Fragment flags */
+export const FRAGMENT_FLAG_START = 0x01;
+export const FRAGMENT_FLAG_END = 0x02;
+export const FRAGMENT_FLAG_CANCEL = 0x04;
+
+/** Header sizes */
+const FRAGMENT_HEADER_SIZE = 9;
+const START_HEADER_SIZE = 24;
+
+/** Largest chunk that fits into a start fragment */
+export const MAX_FRAGMENT_CHUNK = MAX_FRAME_PAYLOAD - START_HEADER_SIZE;
+
+/** Largest transfer the 32-bit total length field can describe */
+export const MAX_TRANSFER_SIZE = 0xffffffff;
+
+/**
+ * Large binary transfer options
+ */
+export interface LargeBinaryOptions {
+  /** Bytes of data per fragment, an integer from 1 to 65511 (default: 65511) */
+  chunkSize?: number;
+
+  /** Progress callback, invoked after every fragment */
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+
+  /** Cancels the transfer when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reassembled transfer
+ */
+export interface ReassembledData {
+  transferId: number;
+  dataType: string;
+  data: Buffer;
+}
+
+/**
+ * Generate a random transfer ID
+ */
+export function createTransferId(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Split data into fragment payloads (to be framed with FRAGMENT_DATA_TYPE)
+ */
+export function encodeFragments(
+  data: Buffer,
+  dataType: string,
+  transferId: number,
+  chunkSize: number = MAX_FRAGMENT_CHUNK
+): Buffer[] {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_FRAGMENT_CHUNK) {
+    throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `chunkSize must be an integer between 1 and ${MAX_FRAGMENT_CHUNK}`);
+  }
+  if (data.length > MAX_TRANSFER_SIZE) {
+    throw new StreamIndError(ErrorCode.SIGNAL_TOO_LARGE, `Transfer exceeds ${MAX_TRANSFER_SIZE} bytes`);
+  }
+
+  const fragments: Buffer[] = [];
+  const count = Math.max(1, Math.ceil(data.length / chunkSize));
+
+  for (let seq = 0; seq < count; seq++) {
+    const chunk = data.subarray(seq * chunkSize, (seq + 1) * chunkSize);
+    const isStart = seq === 0;
+    const headerSize = isStart ? START_HEADER_SIZE : FRAGMENT_HEADER_SIZE;
+    const fragment = Buffer.alloc(headerSize + chunk.length);
+
+    let flags = 0;
+    if (isStart) flags |= FRAGMENT_FLAG_START;
+    if (seq === count - 1) flags |= FRAGMENT_FLAG_END;
+
+    fragment[0] = flags;
+    fragment.writeUInt32BE(transferId, 1);
+    fragment.writeUInt32BE(seq, 5);
+    if (isStart) {
+      fragment.writeUInt32BE(data.length, 9);
+      fragment.writeUInt32BE(crc32(data), 13);
+      fragment.write(dataType.toUpperCase().substring(0, 7), 17, 7, 'ascii');
+    }
+    chunk.copy(fragment, headerSize);
+
+    fragments.push(fragment);
+  }
+
+  return fragments;
+}
+
+/**
+ * Build a cancel fragment payload for a transfer
+ */
+export function encodeCancelFragment(transferId: number): Buffer {
+  const fragment = Buffer.alloc(FRAGMENT_HEADER_SIZE);
+  fragment[0] = FRAGMENT_FLAG_CANCEL;
+  fragment.writeUInt32BE(transferId, 1);
+  return fragment;
+}
+
+/**
+ * Fragment assembler options
+ */
+export interface FragmentAssemblerOptions {
+  /** Idle time in milliseconds after which an incomplete transfer is dropped (default: 30000) */
+  timeoutMs?: number;
+
+  /** Time source for the idle timeout (default: system clock) */
+  clock?: Clock;
+
+  /** Transfers in progress at once; further start fragments are rejected (default: 8) */
+  maxPendingTransfers?: number;
+
+  /** Bytes buffered across all transfers in progress (default: maxTransferSize) */
+  maxBufferedBytes?: number;
+}
+
+/**
+ * In-progress inbound transfer
+ */
+interface PendingTransfer {
+  dataType: string;
+  totalLength: number;
+  checksum: number;
+  nextSeq: number;
+  received: number;
+  chunks: Buffer[];
+  lastUpdate: number;
+}
+
+/**
+ * Fragment Assembler
+ *
+ * Reassembles inbound transfers; fragments of one transfer must arrive in order.
+ * The number of transfers in progress and the bytes they buffer are capped, so
+ * a peer that starts transfers without finishing them cannot exhaust memory;
+ * idle transfers are evicted whenever a fragment arrives.
+ */
+export class FragmentAssembler {
+  private transfers: Map<number, PendingTransfer> = new Map();
+  private bufferedBytes: number = 0;
+  private readonly timeoutMs: number;
+  private readonly clock: Clock;
+  private readonly maxPendingTransfers: number;
+  private readonly maxBufferedBytes: number;
+
+  /**
+   * @param maxTransferSize Largest accepted transfer in bytes
+   */
+  constructor(private readonly maxTransferSize: number, options: FragmentAssemblerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.clock = options.clock ?? systemClock;
+    this.maxPendingTransfers = options.maxPendingTransfers ?? 8;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? maxTransferSize;
+  }
+
+  /**
+   * Number of transfers in progress
+   */
+  pendingTransfers(): number {
+    return this.transfers.size;
+  }
+
+  /**
+   * Bytes buffered by transfers in progress
+   */
+  getBufferedBytes(): number {
+    return this.bufferedBytes;
+  }
+
+  /**
+   * Feed a fragment payload
+   *
+   * @returns The reassembled data once the end fragment arrives, otherwise null
+   * @throws StreamIndError(INVALID_FRAME) on malformed, out-of-order, corrupt or over-limit transfers
+   */
+  push(fragment: Buffer): ReassembledData | null {
+    const now = this.clock.now();
+    this.expire(now);
+
+    if (fragment.length < FRAGMENT_HEADER_SIZE) {
+      throw new StreamIndError(ErrorCode.INVALID_FRAME, 'Fragment too short');
+    }
+
+    const flags = fragment[0];
+    const transferId = fragment.readUInt32BE(1);
+    const seq = fragment.readUInt32BE(5);
+
+    if (flags & FRAGMENT_FLAG_CANCEL) {
+      this.drop(transferId);
+      return null;
+    }
+
+    let transfer = this.transfers.get(transferId);
+    let offset = FRAGMENT_HEADER_SIZE;
+
+    if (flags & FRAGMENT_FLAG_START) {
+      if (fragment.length < START_HEADER_SIZE) {
+        throw new StreamIndError(ErrorCode.INVALID_FRAME, 'Start fragment too short');
+      }
+
+      const totalLength = fragment.readUInt32BE(9);
+      if (totalLength > this.maxTransferSize) {
+        throw new StreamIndError(ErrorCode.INVALID_FRAME, `Transfer ${transferId} exceeds ${this.maxTransferSize} bytes`);
+      }
+
+      // A restarted transfer replaces its earlier attempt
+      this.drop(transferId);
+      if (this.transfers.size >= this.maxPendingTransfers) {
+        throw new StreamIndError(
+          ErrorCode.INVALID_FRAME,
+          `Transfer ${transferId} rejected: ${this.maxPendingTransfers} transfers already in progress`
+        );
+      }
+
+      const typeBytes = fragment.subarray(17, 24);
+      const typeEnd = typeBytes.indexOf(0x00);
+      transfer = {
+        dataType: typeBytes.toString('ascii', 0, typeEnd === -1 ? 7 : typeEnd),
+        totalLength,
+        checksum: fragment.readUInt32BE(13),
+        nextSeq: 0,
+        received: 0,
+        chunks: [],
+        lastUpdate: now
+      };
+      this.transfers.set(transferId, transfer);
+      offset = START_HEADER_SIZE;
+    }
+
+    if (!transfer) {
+      throw new StreamIndError(ErrorCode.INVALID_FRAME, `Fragment for unknown transfer ${transferId}`);
+    }
+
+    if (seq !== transfer.nextSeq) {
+      this.drop(transferId);
+      throw new StreamIndError(
+        ErrorCode.INVALID_FRAME,
+        `Transfer ${transferId} out of order: expected fragment ${transfer.nextSeq}, got ${seq}`
+      );
+    }
+
+    const chunk = fragment.subarray(offset);
+    if (transfer.received + chunk.length > transfer.totalLength) {
+      this.drop(transferId);
+      throw new StreamIndError(ErrorCode.INVALID_FRAME, `Transfer ${transferId} exceeds declared length`);
+    }
+    if (this.bufferedBytes + chunk.length > this.maxBufferedBytes) {
+      this.drop(transferId);
+      throw new StreamIndError(
+        ErrorCode.INVALID_FRAME,
+        `Transfer ${transferId} dropped: transfers in progress exceed ${this.maxBufferedBytes} buffered bytes`
+      );
+    }
+
+    transfer.received += chunk.length;
+    this.bufferedBytes += chunk.length;
+    transfer.chunks.push(Buffer.from(chunk));
+    transfer.nextSeq++;
+    transfer.lastUpdate = now;
+
+    if (!(flags & FRAGMENT_FLAG_END)) {
+      return null;
+    }
+
+    this.drop(transferId);
+    const data = Buffer.concat(transfer.chunks, transfer.received);
+
+    if (data.length !== transfer.totalLength) {
+      throw new StreamIndError(
+        ErrorCode.INVALID_FRAME,
+        `Transfer ${transferId} length mismatch: expected ${transfer.totalLength}, got ${data.length}`
+      );
+    }
+    if (crc32(data) !== transfer.checksum) {
+      throw new StreamIndError(ErrorCode.INVALID_FRAME, `Transfer ${transferId} checksum mismatch`);
+    }
+
+    return { transferId, dataType: transfer.dataType, data };
+  }
+
+  /**
+   * Drop all in-progress transfers
+   */
+  clear(): void {
+    this.transfers.clear();
+    this.bufferedBytes = 0;
+  }
+
+  /**
+   * Forget a transfer and release its buffered bytes
+   */
+  private drop(transferId: number): void {
+    const transfer = this.transfers.get(transferId);
+    if (transfer) {
+      this.bufferedBytes -= transfer.received;
+      this.transfers.delete(transferId);
+    }
+  }
+
+  /**
+   * Drop transfers idle for longer than the timeout
+   */
+  private expire(now: number): void {
+    for (const [transferId, transfer] of this.transfers) {
+      if (now - transfer.lastUpdate > this.timeoutMs) {
+        this.drop(transferId);
+      }
+    }
+  }
+}
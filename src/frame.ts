@@ -0,0 +1,110 @@
+/**
+ * StreamInd SDK Binary Frame Codec
+ *
+ * 14-byte application-layer protocol for typed binary data (same as hardware SDK)
+ *
+ * Protocol format:
+ * - Byte 0:      0x82 (protocol identifier)
+ * - Byte 1-2:    Data length (big-endian, 2 bytes)
+ * - Byte 3-9:    Data type (7-byte ASCII, uppercase, zero-padded)
+ * - Byte 10-13:  Mask key (4 random bytes for application-layer XOR masking)
+ * - Byte 14+:    XOR-masked actual data
+ *
+ * Note: This is the application-layer protocol, NOT WebSocket framing.
+ */
+
+import { ErrorCode, StreamIndError } from './errors';
+
+/** Application-layer protocol identifier */
+export const FRAME_MARKER = 0x82;
+
+/** Header size in bytes */
+export const FRAME_HEADER_SIZE = 14;
+
+/** Maximum payload size (2-byte length field) */
+export const MAX_FRAME_PAYLOAD = 65535;
+
+/** Data type field size in bytes */
+const DATA_TYPE_SIZE = 7;
+
+/**
+ * Decoded binary frame
+ */
+export interface BinaryFrame {
+  /** Data type (uppercase, e.g. "OPUS") */
+  dataType: string;
+
+  /** Unmasked payload */
+  data: Buffer;
+}
+
+/**
+ * Encode typed binary data into a frame
+ *
+ * @throws StreamIndError(SIGNAL_TOO_LARGE) if data exceeds 65535 bytes
+ */
+export function encodeBinaryFrame(data: Buffer, dataType: string): Buffer {
+  const dataLen = data.length;
+  if (dataLen > MAX_FRAME_PAYLOAD) {
+    throw new StreamIndError(ErrorCode.SIGNAL_TOO_LARGE, `Binary data exceeds ${MAX_FRAME_PAYLOAD} bytes`);
+  }
+
+  const frame = Buffer.alloc(FRAME_HEADER_SIZE + dataLen);
+
+  // Byte 0: 0x82 (application layer protocol identifier)
+  frame[0] = FRAME_MARKER;
+
+  // Byte 1-2: Data length (big-endian, 2 bytes)
+  frame.writeUInt16BE(dataLen, 1);
+
+  // Byte 3-9: Data type (7-byte ASCII, uppercase, padded with 0x00)
+  const dataTypeStr = dataType.toUpperCase().substring(0, DATA_TYPE_SIZE);  // e.g., "opus" -> "OPUS"
+  frame.write(dataTypeStr, 3, DATA_TYPE_SIZE, 'ascii');
+
+  // Byte 10-13: Mask key (4 random bytes) - application layer masking
+  for (let i = 0; i < 4; i++) {
+    frame[10 + i] = Math.floor(Math.random() * 256);
+  }
+
+  // Byte 14+: XOR-masked actual data
+  for (let i = 0; i < dataLen; i++) {
+    frame[FRAME_HEADER_SIZE + i] = data[i] ^ frame[10 + (i % 4)];
+  }
+
+  return frame;
+}
+
+/**
+ * Decode and unmask a frame
+ *
+ * @throws StreamIndError(INVALID_FRAME) if the frame is malformed
+ */
+export function decodeBinaryFrame(frame: Buffer): BinaryFrame {
+  if (frame.length < FRAME_HEADER_SIZE) {
+    throw new StreamIndError(ErrorCode.INVALID_FRAME, `Frame too short: ${frame.length} bytes`);
+  }
+
+  if (frame[0] !== FRAME_MARKER) {
+    throw new StreamIndError(ErrorCode.INVALID_FRAME, `Invalid frame marker: 0x${frame[0].toString(16).padStart(2, '0')}`);
+  }
+
+  const dataLen = frame.readUInt16BE(1);
+  if (dataLen !== frame.length - FRAME_HEADER_SIZE) {
+    throw new StreamIndError(
+      ErrorCode.INVALID_FRAME,
+      `Frame length mismatch: header ${dataLen}, actual ${frame.length - FRAME_HEADER_SIZE}`
+    );
+  }
+
+  // Data type is zero-padded ASCII
+  const typeBytes = frame.subarray(3, 3 + DATA_TYPE_SIZE);
+  const typeEnd = typeBytes.indexOf(0x00);
+  const dataType = typeBytes.toString('ascii', 0, typeEnd === -1 ? DATA_TYPE_SIZE : typeEnd);
+
+  const data = Buffer.allocUnsafe(dataLen);
+  for (let i = 0; i < dataLen; i++) {
+    data[i] = frame[FRAME_HEADER_SIZE + i] ^ frame[10 + (i % 4)];
+  }
+
+  return { dataType, data };
+}
@@ -9,7 +9,7 @@
  */
 
 // Export main SDK class
-export { SDK } from './sdk';
+export { SDK, SDKEvents, SDKOptions, OggOpusSendOptions } from './sdk';
 
 // Export models
 export {
@@ -17,12 +17,37 @@ export {
   Payload,
   Signal,
   Directive,
+  DirectiveStatus,
+  DirectiveReplier,
+  DIRECTIVE_REPLY_SIGNAL,
   Statistics,
   SignalSource,
+  SendOptions,
+  OverflowPolicy,
+  ConfigError,
   getWebSocketUrl,
-  getConfigWithDefaults
+  getConfigWithDefaults,
+  validateConfig,
+  formatConfigErrors,
+  createConfig,
+  redactConfig
 } from './models';
 
+// Export configuration loading
+export { LoadConfigOptions, loadConfig } from './config-loader';
+
+// Export typed catalog
+export type {
+  Catalog,
+  DefaultCatalog,
+  SignalType,
+  SignalPayload,
+  DirectiveName,
+  DirectiveParameters,
+  CatalogDirective,
+  WildcardPattern
+} from './catalog';
+
 // Export errors
 export {
   ErrorCode,
@@ -30,11 +55,215 @@ export {
   getErrorMessage
 } from './errors';
 
+// Export binary frame codec
+export {
+  BinaryFrame,
+  FRAME_MARKER,
+  FRAME_HEADER_SIZE,
+  MAX_FRAME_PAYLOAD,
+  encodeBinaryFrame,
+  decodeBinaryFrame
+} from './frame';
+
+// Export fragmented transfer
+export {
+  LargeBinaryOptions,
+  ReassembledData,
+  FragmentAssembler,
+  FragmentAssemblerOptions,
+  FRAGMENT_DATA_TYPE,
+  MAX_FRAGMENT_CHUNK,
+  MAX_TRANSFER_SIZE,
+  encodeFragments,
+  encodeCancelFragment
+} from './fragment';
+
+// Export logging
+export {
+  Logger,
+  LogLevel,
+  LogFields,
+  ConsoleLogger,
+  ConsoleLoggerOptions,
+  silentLogger,
+  withFields
+} from './logger';
+
+// Export redaction
+export {
+  REDACTED,
+  DEFAULT_SENSITIVE_KEYS,
+  Redactor,
+  isSensitiveKey,
+  redactUrl,
+  redactText,
+  redactValue,
+  redactLogger
+} from './redact';
+
+// Export tracing
+export {
+  TraceContext,
+  SpanKind,
+  SpanAttributes,
+  SpanOptions,
+  TraceSpan,
+  Tracer,
+  noopTracer,
+  isTraceId,
+  parseTraceparent,
+  formatTraceparent,
+  createTraceContext
+} from './tracing';
+
+// Export metrics
+export {
+  MetricType,
+  MetricLabels,
+  MetricSample,
+  HistogramSample,
+  ScalarFamily,
+  HistogramFamily,
+  MetricFamily,
+  MetricsSnapshot,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  LATENCY_BUCKETS,
+  RECONNECT_BUCKETS,
+  withLabels,
+  mergeSnapshots,
+  formatPrometheus
+} from './metrics';
+
+// Export authentication
+export {
+  AuthContext,
+  AuthCredentials,
+  AuthStrategy,
+  SignedTokenClaims,
+  HeaderAuthOptions,
+  SignedTokenAuthOptions,
+  queryAuth,
+  HeaderAuth,
+  SignedTokenAuth,
+  createSignedToken,
+  verifySignedToken
+} from './auth';
+
+// Export clock
+export {
+  Clock,
+  TimerHandle,
+  RandomSource,
+  systemClock,
+  VirtualClock,
+  seededRandom
+} from './clock';
+
+// Export schema validation
+export {
+  JsonSchema,
+  JsonSchemaObject,
+  JsonSchemaType,
+  SchemaError,
+  ValidationMode,
+  SchemaRegistry,
+  CompiledSchema,
+  validateSchema,
+  formatSchemaErrors,
+  isJsonSchema
+} from './schema';
+
+// Export events
+export {
+  TypedEventEmitter,
+  EventListener,
+  AnyEventListener,
+  ListenerOptions
+} from './events';
+
+// Export event iterators
+export {
+  EventIterator,
+  EventIteratorOptions
+} from './event-iterator';
+
+// Export directive router
+export {
+  DirectiveRouter,
+  DirectivePattern,
+  DirectiveHandler,
+  DirectiveMiddleware,
+  DispatchResult
+} from './directive-router';
+
+// Export audio stream sessions
+export {
+  AudioStreamSession,
+  AudioStreamEndReason,
+  AudioSessionCallback,
+  AUDIO_START_DIRECTIVE,
+  AUDIO_END_DIRECTIVE
+} from './audio-session';
+
+// Export audio pacer
+export {
+  AudioPacer,
+  AudioPacerOptions,
+  AudioPacerStatistics
+} from './audio-pacer';
+
+// Export stream adapters
+export {
+  AudioWriteStream,
+  AudioWriteStreamOptions,
+  BinaryReadStream,
+  BinaryReadStreamOptions
+} from './streams';
+
+// Export Ogg Opus support
+export {
+  OggPage,
+  OggPageParser,
+  OggOpusDemuxer,
+  OpusHead,
+  OpusChannelMapping,
+  OpusTags,
+  OpusPacket,
+  parseOpusHead,
+  parseOpusTags,
+  getOpusPacketSamples,
+  demuxOggOpus,
+  OggOpusMuxer,
+  OggOpusMuxerOptions,
+  OggOpusEncoderStream,
+  OggOpusFileWriter,
+  oggOpusOptionsFromDirective
+} from './ogg-opus';
+
+// Export session capture
+export {
+  CaptureHeader,
+  CaptureRecord,
+  Recorder,
+  ReplayTarget,
+  ReplayOptions,
+  FileRecorder,
+  readCapture,
+  parseCapture,
+  replayCapture
+} from './capture';
+
 // Export transport types
 export type {
+  TerminalEvents,
+  ConnectionStateChange,
   ConnectionCallback,
   DirectiveCallback,
   AudioDataCallback,
+  BinaryDataCallback,
   ErrorCallback,
   CloseCallback
 } from './transport';
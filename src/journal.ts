@@ -0,0 +1,380 @@
+/**
+ * StreamInd SDK Signal Journal
+ *
+ * Durable, append-only, segmented on-disk log of outbound signals
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCode, StreamIndError } from './errors';
+import { Logger, silentLogger, errorFields } from './logger';
+
+/**
+ * Pending (undelivered) journal entry
+ */
+export interface JournalEntry {
+  /** Sequence number (monotonic per journal) */
+  seq: number;
+
+  /** Serialized signal JSON */
+  data: string;
+}
+
+/**
+ * Segment bookkeeping
+ */
+interface Segment {
+  index: number;
+  file: string;
+  size: number;
+  pending: number;
+}
+
+const SEGMENT_PREFIX = 'segment-';
+const SEGMENT_SUFFIX = '.log';
+
+/**
+ * Segment file name for an index
+ */
+function segmentFileName(index: number): string {
+  return `${SEGMENT_PREFIX}${String(index).padStart(6, '0')}${SEGMENT_SUFFIX}`;
+}
+
+/**
+ * Signal Journal
+ *
+ * Each segment is a sequence of newline-terminated JSON records:
+ * - `{"s":<seq>,"d":"<signal json>"}` appends a signal
+ * - `{"a":<seq>}` marks a signal as delivered
+ *
+ * Segments are deleted oldest-first once every signal they hold has been delivered.
+ * A trailing record without a newline (e.g. after power loss) is discarded.
+ *
+ * Entries are marked sent when written to the socket and acknowledged once
+ * the platform has confirmed receipt; sent but unconfirmed entries are sent
+ * again after a reconnect, so delivery is at-least-once.
+ *
+ * Writes are not synced individually: sync() fsyncs everything written so
+ * far off the event loop, and concurrent callers share one fsync. Delivery
+ * marks are synced along with the next signal, so a crash may replay a
+ * signal that was already delivered but never loses one.
+ */
+export class SignalJournal {
+  private opened: boolean = false;
+  private segments: Segment[] = [];
+  private active: Segment | null = null;
+  private fd: number | null = null;
+  private pending: Map<number, { data: string; segment: Segment; sent: boolean }> = new Map();
+  private nextSeq: number = 1;
+  private syncing: Promise<void> | null = null;
+  private syncQueued: Promise<void> | null = null;
+  private writtenCount: number = 0;
+  private syncedCount: number = 0;
+
+  private logger: Logger = silentLogger;
+
+  constructor(
+    private readonly dir: string,
+    private readonly segmentMaxBytes: number,
+    private readonly fsync: boolean
+  ) {}
+
+  /**
+   * Set logger for repair and cleanup warnings
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Load existing segments and start a new active segment (idempotent)
+   */
+  open(): void {
+    if (this.opened) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+
+      const indexes = fs.readdirSync(this.dir)
+        .filter((name) => name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_SUFFIX))
+        .map((name) => parseInt(name.slice(SEGMENT_PREFIX.length, -SEGMENT_SUFFIX.length), 10))
+        .filter((index) => !isNaN(index))
+        .sort((a, b) => a - b);
+
+      for (const index of indexes) {
+        this.loadSegment(index);
+      }
+
+      this.compact();
+      this.rollSegment();
+      this.opened = true;
+    } catch (error: any) {
+      throw new StreamIndError(ErrorCode.INTERNAL_ERROR, `Failed to open signal journal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Close the active segment file
+   */
+  close(): void {
+    if (this.fd !== null) {
+      if (this.fsync) {
+        try {
+          fs.fsyncSync(this.fd);
+        } catch (e) {
+          this.logger.warn('Failed to sync signal journal', errorFields(e));
+        }
+      }
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+    this.opened = false;
+    this.segments = [];
+    this.active = null;
+    this.pending.clear();
+  }
+
+  /**
+   * Append a serialized signal (call sync() before sending it)
+   *
+   * @returns Sequence number to pass to markSent() and ack()
+   */
+  append(data: string): number {
+    this.open();
+
+    const seq = this.nextSeq++;
+    const segment = this.write(JSON.stringify({ s: seq, d: data }));
+    segment.pending++;
+    this.pending.set(seq, { data, segment, sent: false });
+    return seq;
+  }
+
+  /**
+   * Make everything written so far durable (no-op without fsync)
+   *
+   * @throws StreamIndError(INTERNAL_ERROR) if the fsync fails
+   */
+  sync(): Promise<void> {
+    if (!this.fsync || this.fd === null || this.syncedCount >= this.writtenCount) {
+      return Promise.resolve();
+    }
+    if (this.syncQueued) {
+      return this.syncQueued;
+    }
+    if (this.syncing) {
+      // Records written after the running fsync started need another one
+      this.syncQueued = this.syncing.catch(() => {}).then(() => {
+        this.syncQueued = null;
+        return this.startSync();
+      });
+      return this.syncQueued;
+    }
+    return this.startSync();
+  }
+
+  /**
+   * Mark an entry as written to the socket
+   */
+  markSent(seq: number): void {
+    const entry = this.pending.get(seq);
+    if (entry) {
+      entry.sent = true;
+    }
+  }
+
+  /**
+   * Sequence numbers of entries sent but not yet acknowledged
+   */
+  sentSeqs(): number[] {
+    const seqs: number[] = [];
+    for (const [seq, entry] of this.pending) {
+      if (entry.sent) {
+        seqs.push(seq);
+      }
+    }
+    return seqs;
+  }
+
+  /**
+   * Mark every unacknowledged entry as unsent again (e.g. after the connection was lost)
+   */
+  resetSent(): void {
+    for (const entry of this.pending.values()) {
+      entry.sent = false;
+    }
+  }
+
+  /**
+   * Mark a signal as delivered and compact fully delivered segments
+   */
+  ack(seq: number): void {
+    const entry = this.pending.get(seq);
+    if (!entry) {
+      return;
+    }
+
+    this.write(JSON.stringify({ a: seq }));
+    this.pending.delete(seq);
+    entry.segment.pending--;
+    this.compact();
+  }
+
+  /**
+   * Oldest entry not yet sent
+   */
+  peek(): JournalEntry | undefined {
+    for (const [seq, entry] of this.pending) {
+      if (!entry.sent) {
+        return { seq, data: entry.data };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Number of undelivered entries
+   */
+  size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Read a segment, applying its records and repairing a truncated tail
+   */
+  private loadSegment(index: number): void {
+    const file = path.join(this.dir, segmentFileName(index));
+    const content = fs.readFileSync(file);
+    const segment: Segment = { index, file, size: 0, pending: 0 };
+
+    const lastNewline = content.lastIndexOf(0x0A);
+    const validLength = lastNewline + 1;
+    if (validLength < content.length) {
+      this.logger.warn('Discarding truncated journal record', { file });
+      fs.truncateSync(file, validLength);
+    }
+    segment.size = validLength;
+
+    const lines = content.toString('utf8', 0, validLength).split('\n');
+    for (const line of lines) {
+      if (!line) {
+        continue;
+      }
+
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch (e) {
+        this.logger.warn('Skipping corrupt journal record', { file });
+        continue;
+      }
+
+      if (typeof record.s === 'number' && typeof record.d === 'string') {
+        this.pending.set(record.s, { data: record.d, segment, sent: false });
+        segment.pending++;
+        this.nextSeq = Math.max(this.nextSeq, record.s + 1);
+      } else if (typeof record.a === 'number') {
+        const entry = this.pending.get(record.a);
+        if (entry) {
+          this.pending.delete(record.a);
+          entry.segment.pending--;
+        }
+      }
+    }
+
+    this.segments.push(segment);
+  }
+
+  /**
+   * Write a record to the active segment, rolling over when it is full
+   */
+  private write(record: string): Segment {
+    const line = record + '\n';
+    const bytes = Buffer.byteLength(line, 'utf8');
+
+    try {
+      if (this.active!.size > 0 && this.active!.size + bytes > this.segmentMaxBytes) {
+        this.rollSegment();
+      }
+
+      fs.writeSync(this.fd!, line);
+      this.writtenCount++;
+    } catch (error: any) {
+      throw new StreamIndError(ErrorCode.INTERNAL_ERROR, `Failed to write signal journal: ${error.message}`);
+    }
+
+    this.active!.size += bytes;
+    return this.active!;
+  }
+
+  /**
+   * fsync the active segment in the thread pool
+   */
+  private startSync(): Promise<void> {
+    const fd = this.fd;
+    const target = this.writtenCount;
+    if (fd === null || this.syncedCount >= target) {
+      return Promise.resolve();
+    }
+
+    this.syncing = new Promise<void>((resolve, reject) => {
+      fs.fsync(fd, (error) => {
+        // A segment rolled over or closed meanwhile was synced before closing
+        if (error && fd === this.fd) {
+          reject(new StreamIndError(ErrorCode.INTERNAL_ERROR, `Failed to sync signal journal: ${error.message}`));
+        } else {
+          this.syncedCount = Math.max(this.syncedCount, target);
+          resolve();
+        }
+      });
+    }).finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Start a new active segment
+   */
+  private rollSegment(): void {
+    if (this.fd !== null) {
+      // A running sync() may still target this file; sync it before closing
+      if (this.fsync) {
+        fs.fsyncSync(this.fd);
+      }
+      fs.closeSync(this.fd);
+    }
+
+    const last = this.segments[this.segments.length - 1];
+    const index = last ? last.index + 1 : 1;
+    const file = path.join(this.dir, segmentFileName(index));
+
+    this.fd = fs.openSync(file, 'a');
+    this.active = { index, file, size: 0, pending: 0 };
+    this.segments.push(this.active);
+    this.compact();
+  }
+
+  /**
+   * Delete the oldest inactive segments while they hold no undelivered entries
+   *
+   * Only a prefix is removed: delivery marks always follow the entries they
+   * refer to, so a newer segment must outlive every older segment.
+   */
+  private compact(): void {
+    while (this.segments.length > 0) {
+      const oldest = this.segments[0];
+      if (oldest === this.active || oldest.pending > 0) {
+        break;
+      }
+
+      try {
+        fs.unlinkSync(oldest.file);
+      } catch (e) {
+        this.logger.warn('Failed to remove journal segment', { file: oldest.file, ...errorFields(e) });
+      }
+      this.segments.shift();
+    }
+  }
+}
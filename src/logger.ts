@@ -0,0 +1,111 @@
+/**
+ * StreamInd SDK Logging
+ *
+ * Pluggable structured logger with a silent default and a console adapter
+ */
+
+/**
+ * Log levels, lowest first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a log record (terminalId, traceId, ...)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface; adapt pino, winston etc. by forwarding each level
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Logger that discards everything (default)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+/**
+ * Console logger options
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level written (default: 'info') */
+  level?: LogLevel;
+
+  /** Prefix of every line (default: "[StreamInd]") */
+  prefix?: string;
+}
+
+/**
+ * Console Logger
+ *
+ * Writes "<prefix> <message> <fields as JSON>" with the console method of the level.
+ */
+export class ConsoleLogger implements Logger {
+  private readonly minLevel: number;
+  private readonly prefix: string;
+
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.minLevel = LEVEL_ORDER[options.level ?? 'info'];
+    this.prefix = options.prefix ?? '[StreamInd]';
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < this.minLevel) {
+      return;
+    }
+    const line = `${this.prefix} ${message}`;
+    if (fields && Object.keys(fields).length > 0) {
+      console[level](line, JSON.stringify(fields));
+    } else {
+      console[level](line);
+    }
+  }
+}
+
+/**
+ * Wrap a logger so every record carries the given fields (record fields win)
+ */
+export function withFields(logger: Logger, context: LogFields): Logger {
+  const merge = (fields?: LogFields): LogFields => (fields ? { ...context, ...fields } : { ...context });
+  return {
+    debug: (message, fields) => logger.debug(message, merge(fields)),
+    info: (message, fields) => logger.info(message, merge(fields)),
+    warn: (message, fields) => logger.warn(message, merge(fields)),
+    error: (message, fields) => logger.error(message, merge(fields))
+  };
+}
+
+/**
+ * Log fields describing a caught error
+ */
+export function errorFields(error: unknown): LogFields {
+  return { error: error instanceof Error ? error.message : String(error) };
+}
@@ -0,0 +1,352 @@
+/**
+ * StreamInd SDK Metrics
+ *
+ * Counters, gauges and histograms exportable as Prometheus text exposition
+ * or as a JSON snapshot
+ */
+
+/**
+ * Metric type
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label names and values of a series
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Value of a counter or gauge series
+ */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Value of a histogram series
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+
+  /** Cumulative counts by upper bound, ascending and ending with le "+Inf" */
+  buckets: Array<{ le: string; count: number }>;
+
+  sum: number;
+  count: number;
+}
+
+/**
+ * Counter or gauge with all its series
+ */
+export interface ScalarFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: MetricSample[];
+}
+
+/**
+ * Histogram with all its series
+ */
+export interface HistogramFamily {
+  name: string;
+  help: string;
+  type: 'histogram';
+  samples: HistogramSample[];
+}
+
+/**
+ * Metric with all its series
+ */
+export type MetricFamily = ScalarFamily | HistogramFamily;
+
+/**
+ * Point-in-time copy of a set of metrics (JSON serializable)
+ */
+export type MetricsSnapshot = MetricFamily[];
+
+/** Bucket bounds for latencies and round-trip times, in seconds */
+export const LATENCY_BUCKETS: readonly number[] = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/** Bucket bounds for reconnect durations, in seconds */
+export const RECONNECT_BUCKETS: readonly number[] = [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120, 300];
+
+/**
+ * Stable map key of a label set
+ */
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+/**
+ * Counter
+ *
+ * Monotonic; a counter without label names starts with a zero series.
+ */
+export class Counter {
+  private series: Map<string, MetricSample> = new Map();
+
+  constructor(readonly name: string, readonly help: string, labelNames: readonly string[] = []) {
+    if (labelNames.length === 0) {
+      this.series.set(labelKey({}), { labels: {}, value: 0 });
+    }
+  }
+
+  /**
+   * Increase a series
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  /**
+   * Current value of a series
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Current values of all series
+   */
+  collect(): ScalarFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'counter',
+      samples: Array.from(this.series.values(), (sample) => ({ labels: { ...sample.labels }, value: sample.value }))
+    };
+  }
+}
+
+/**
+ * Gauge
+ *
+ * Either set explicitly or read from a function when collected.
+ */
+export class Gauge {
+  private series: Map<string, MetricSample> = new Map();
+
+  constructor(readonly name: string, readonly help: string, private readonly read: (() => number) | null = null) {}
+
+  /**
+   * Set a series
+   */
+  set(value: number, labels: MetricLabels = {}): void {
+    this.series.set(labelKey(labels), { labels: { ...labels }, value });
+  }
+
+  /**
+   * Current values of all series
+   */
+  collect(): ScalarFamily {
+    const samples = this.read
+      ? [{ labels: {}, value: this.read() }]
+      : Array.from(this.series.values(), (sample) => ({ labels: { ...sample.labels }, value: sample.value }));
+    return { name: this.name, help: this.help, type: 'gauge', samples };
+  }
+}
+
+/**
+ * Series state of a histogram
+ */
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Histogram
+ *
+ * Buckets are upper bounds; a histogram without label names starts with an empty series.
+ */
+export class Histogram {
+  private readonly bounds: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(readonly name: string, readonly help: string, buckets: readonly number[], labelNames: readonly string[] = []) {
+    this.bounds = Array.from(new Set(buckets)).sort((a, b) => a - b);
+    if (labelNames.length === 0) {
+      this.seriesFor({});
+    }
+  }
+
+  /**
+   * Record a value
+   */
+  observe(value: number, labels: MetricLabels = {}): void {
+    const series = this.seriesFor(labels);
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      series.counts[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Current values of all series
+   */
+  collect(): HistogramFamily {
+    const samples = Array.from(this.series.values(), (series) => {
+      let cumulative = 0;
+      const buckets = this.bounds.map((bound, i) => {
+        cumulative += series.counts[i];
+        return { le: String(bound), count: cumulative };
+      });
+      buckets.push({ le: '+Inf', count: series.count });
+      return { labels: { ...series.labels }, buckets, sum: series.sum, count: series.count };
+    });
+    return { name: this.name, help: this.help, type: 'histogram', samples };
+  }
+
+  /**
+   * Series of a label set, created on demand
+   */
+  private seriesFor(labels: MetricLabels): HistogramSeries {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, counts: new Array(this.bounds.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * Metrics Registry
+ *
+ * Creates metrics and collects them in registration order.
+ */
+export class MetricsRegistry {
+  private metrics: Array<Counter | Gauge | Histogram> = [];
+
+  /**
+   * Create a counter
+   */
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.add(new Counter(name, help, labelNames));
+  }
+
+  /**
+   * Create a gauge, optionally read from a function when collected
+   */
+  gauge(name: string, help: string, read: (() => number) | null = null): Gauge {
+    return this.add(new Gauge(name, help, read));
+  }
+
+  /**
+   * Create a histogram
+   */
+  histogram(name: string, help: string, buckets: readonly number[], labelNames: readonly string[] = []): Histogram {
+    return this.add(new Histogram(name, help, buckets, labelNames));
+  }
+
+  /**
+   * Current values of all metrics
+   */
+  snapshot(): MetricsSnapshot {
+    return this.metrics.map((metric) => metric.collect());
+  }
+
+  /**
+   * Register a metric
+   */
+  private add<M extends Counter | Gauge | Histogram>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Copy of a snapshot with labels added to every series (e.g. { terminal })
+ */
+export function withLabels(snapshot: MetricsSnapshot, labels: MetricLabels): MetricsSnapshot {
+  return snapshot.map((family) => ({
+    ...family,
+    samples: family.samples.map((sample: MetricSample | HistogramSample) => ({ ...sample, labels: { ...sample.labels, ...labels } }))
+  }) as MetricFamily);
+}
+
+/**
+ * Combine snapshots, joining the series of metrics with the same name
+ */
+export function mergeSnapshots(snapshots: MetricsSnapshot[]): MetricsSnapshot {
+  const families: Map<string, MetricFamily> = new Map();
+  for (const snapshot of snapshots) {
+    for (const family of snapshot) {
+      const existing = families.get(family.name);
+      if (existing) {
+        (existing.samples as Array<MetricSample | HistogramSample>).push(...family.samples);
+      } else {
+        families.set(family.name, { ...family, samples: [...family.samples] } as MetricFamily);
+      }
+    }
+  }
+  return Array.from(families.values());
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format (version 0.0.4)
+ */
+export function formatPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  for (const family of snapshot) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.type === 'histogram') {
+      for (const sample of family.samples) {
+        for (const { le, count } of sample.buckets) {
+          lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le })} ${count}`);
+        }
+        lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+        lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    } else {
+      for (const sample of family.samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Label set in exposition syntax ({a="1",b="2"}, or empty)
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Sample value in exposition syntax
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * HELP text with backslashes and newlines escaped
+ */
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,562 @@
+/**
+ * StreamInd SDK Mock Platform
+ *
+ * Local platform server for integration tests: accepts terminals with query,
+ * header or signed token authentication, records signals and 0x82 binary frames, answers heartbeats,
+ * pushes directives and audio, and injects faults.
+ *
+ *   const platform = new MockPlatform();
+ *   await platform.start();
+ *   sdk.registerTerminal('t', platform.terminalConfig({ deviceId: 'device-1' }));
+ *   await sdk.connect('t');
+ *   const { signal } = await platform.waitForSignal('sensor.data');
+ *   await platform.stop();
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import WebSocket from 'ws';
+import { Config, Signal } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+import { MAX_FRAME_PAYLOAD, encodeBinaryFrame, decodeBinaryFrame } from './frame';
+import { FragmentAssembler, FRAGMENT_DATA_TYPE, createTransferId, encodeFragments } from './fragment';
+import { TypedEventEmitter } from './events';
+import { verifySignedToken } from './auth';
+
+/**
+ * Mock platform options
+ */
+export interface MockPlatformOptions {
+  /** Listening port (default: 0 = ephemeral) */
+  port?: number;
+
+  /** Listening address (default: '127.0.0.1') */
+  host?: string;
+
+  /** Accepted tenant ID (default: 'mock-tenant') */
+  tenantId?: string;
+
+  /** Accepted product ID (default: 'mock-product') */
+  productId?: string;
+
+  /** Accepted product key (default: 'mock-product-key') */
+  productKey?: string;
+
+  /** Accepted authentication methods (default: all) */
+  acceptedAuth?: MockAuthMethod[];
+}
+
+/**
+ * How a terminal authenticated: productKey in the query or Authorization header, or a signed token
+ */
+export type MockAuthMethod = 'query' | 'header' | 'token';
+
+/**
+ * Connected terminal
+ */
+export interface MockConnection {
+  /** Sequential connection number, starting at 1 */
+  id: number;
+  tenantId: string;
+  productId: string;
+  traceId: string;
+  auth: MockAuthMethod;
+  connectedAt: number;
+}
+
+/**
+ * Signal received by the mock platform
+ */
+export interface ReceivedSignal {
+  connection: MockConnection;
+  signal: Signal;
+  receivedAt: number;
+}
+
+/**
+ * Binary data received by the mock platform (fragmented transfers are reassembled)
+ */
+export interface ReceivedBinary {
+  connection: MockConnection;
+  data: Buffer;
+  dataType: string;
+  receivedAt: number;
+}
+
+/**
+ * Directive push options
+ */
+export interface PushDirectiveOptions {
+  /** Directive ID (default: generated) */
+  id?: string;
+
+  /** W3C traceparent sent with the directive */
+  traceparent?: string;
+
+  /** Target connection ID (default: all connections) */
+  connectionId?: number;
+}
+
+/**
+ * Mock platform events
+ */
+export interface MockPlatformEvents {
+  connection: [connection: MockConnection];
+  disconnection: [connection: MockConnection, code: number];
+  signal: [received: ReceivedSignal];
+  binary: [received: ReceivedBinary];
+}
+
+/**
+ * Accepted socket with its protocol state
+ */
+interface MockSocket {
+  connection: MockConnection;
+  ws: WebSocket;
+  assembler: FragmentAssembler;
+}
+
+/**
+ * Mock Platform
+ *
+ * Faults: rejectAuth() answers the handshake with 401, dropConnections()
+ * terminates open sockets, setDelay() delays the handshake and every message
+ * sent to terminals, and setSilent() stops all responses (pongs, directives,
+ * audio) while keeping connections open.
+ */
+export class MockPlatform extends TypedEventEmitter<MockPlatformEvents> {
+  private readonly options: Required<MockPlatformOptions>;
+  private server: http.Server | null = null;
+  private wss: WebSocket.Server | null = null;
+  private sockets: Set<MockSocket> = new Set();
+  private nextConnectionId: number = 1;
+  private nextDirectiveId: number = 1;
+  private received: ReceivedSignal[] = [];
+  private receivedBinary: ReceivedBinary[] = [];
+  private authRejected: boolean = false;
+  private delayMs: number = 0;
+  private silent: boolean = false;
+
+  constructor(options: MockPlatformOptions = {}) {
+    super();
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+      tenantId: options.tenantId ?? 'mock-tenant',
+      productId: options.productId ?? 'mock-product',
+      productKey: options.productKey ?? 'mock-product-key',
+      acceptedAuth: options.acceptedAuth ?? ['query', 'header', 'token']
+    };
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new StreamIndError(ErrorCode.ALREADY_INITIALIZED, 'Mock platform already started');
+    }
+
+    // Pings are answered manually so setSilent() can suppress pongs
+    const wss = new WebSocket.Server({ noServer: true, autoPong: false });
+    const server = http.createServer((_req, res) => {
+      res.writeHead(426);
+      res.end();
+    });
+    server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(req, socket, head));
+    this.wss = wss;
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    for (const socket of this.sockets) {
+      socket.ws.terminate();
+    }
+    this.sockets.clear();
+    this.wss?.close();
+    this.wss = null;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Listening port
+   */
+  get port(): number {
+    if (!this.server) {
+      throw new StreamIndError(ErrorCode.NOT_INITIALIZED, 'Mock platform not started');
+    }
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * WebSocket endpoint for Config.endpoint
+   */
+  get endpoint(): string {
+    return `ws://${this.options.host}:${this.port}`;
+  }
+
+  /**
+   * Terminal configuration with this platform's endpoint and credentials
+   */
+  terminalConfig(overrides: Partial<Config> = {}): Config {
+    return {
+      deviceId: 'mock-device',
+      deviceType: 'mock',
+      endpoint: this.endpoint,
+      tenantId: this.options.tenantId,
+      productId: this.options.productId,
+      productKey: this.options.productKey,
+      ...overrides
+    };
+  }
+
+  /**
+   * Open connections
+   */
+  getConnections(): MockConnection[] {
+    return Array.from(this.sockets, (socket) => socket.connection);
+  }
+
+  /**
+   * Signals received so far, optionally of one type
+   */
+  getSignals(type?: string): ReceivedSignal[] {
+    return type === undefined ? [...this.received] : this.received.filter((received) => received.signal.type === type);
+  }
+
+  /**
+   * Binary data received so far, optionally of one data type
+   */
+  getBinaryData(dataType?: string): ReceivedBinary[] {
+    return dataType === undefined
+      ? [...this.receivedBinary]
+      : this.receivedBinary.filter((received) => received.dataType === dataType.toUpperCase());
+  }
+
+  /**
+   * Forget received signals and binary data
+   */
+  clear(): void {
+    this.received = [];
+    this.receivedBinary = [];
+  }
+
+  /**
+   * Resolve with the first signal (already received or upcoming) of a type or matching a predicate
+   *
+   * @throws StreamIndError(CONNECTION_TIMEOUT) if none arrives in time
+   */
+  waitForSignal(match: string | ((received: ReceivedSignal) => boolean), timeoutMs: number = 5000): Promise<ReceivedSignal> {
+    const predicate = typeof match === 'string' ? (received: ReceivedSignal) => received.signal.type === match : match;
+    const existing = this.received.find(predicate);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    return this.waitFor('signal', (received) => predicate(received) ? received : null, timeoutMs, typeof match === 'string' ? `${match} signal` : 'matching signal');
+  }
+
+  /**
+   * Resolve with the first binary data (already received or upcoming) of a data type
+   *
+   * @throws StreamIndError(CONNECTION_TIMEOUT) if none arrives in time
+   */
+  waitForBinary(dataType: string, timeoutMs: number = 5000): Promise<ReceivedBinary> {
+    const type = dataType.toUpperCase();
+    const existing = this.receivedBinary.find((received) => received.dataType === type);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    return this.waitFor('binary', (received) => received.dataType === type ? received : null, timeoutMs, `${type} data`);
+  }
+
+  /**
+   * Resolve with the first open (or next) connection
+   *
+   * @throws StreamIndError(CONNECTION_TIMEOUT) if no terminal connects in time
+   */
+  waitForConnection(timeoutMs: number = 5000): Promise<MockConnection> {
+    const [existing] = this.getConnections();
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    return this.waitFor('connection', (connection) => connection, timeoutMs, 'connection');
+  }
+
+  /**
+   * Push a directive
+   *
+   * @returns The directive ID
+   */
+  pushDirective(name: string, parameters: Record<string, any> = {}, options: PushDirectiveOptions = {}): string {
+    const id = options.id ?? `mock_dir_${this.nextDirectiveId++}`;
+    const message: Record<string, any> = { id, name, timestamp: new Date().toISOString(), parameters };
+    if (options.traceparent) {
+      message.traceparent = options.traceparent;
+    }
+    this.broadcast(JSON.stringify(message), options.connectionId);
+    return id;
+  }
+
+  /**
+   * Push OPUS audio (one packet per frame)
+   */
+  pushAudio(packet: Buffer, connectionId?: number): void {
+    this.pushBinary(packet, 'OPUS', connectionId);
+  }
+
+  /**
+   * Push typed binary data, fragmented if it exceeds one frame
+   */
+  pushBinary(data: Buffer, dataType: string, connectionId?: number): void {
+    if (data.length <= MAX_FRAME_PAYLOAD) {
+      this.broadcast(encodeBinaryFrame(data, dataType), connectionId);
+      return;
+    }
+    for (const fragment of encodeFragments(data, dataType, createTransferId())) {
+      this.broadcast(encodeBinaryFrame(fragment, FRAGMENT_DATA_TYPE), connectionId);
+    }
+  }
+
+  /**
+   * Reject new connections with HTTP 401
+   */
+  rejectAuth(enabled: boolean = true): void {
+    this.authRejected = enabled;
+  }
+
+  /**
+   * Terminate open connections without a close handshake
+   */
+  dropConnections(connectionId?: number): void {
+    for (const socket of this.sockets) {
+      if (connectionId === undefined || socket.connection.id === connectionId) {
+        socket.ws.terminate();
+      }
+    }
+  }
+
+  /**
+   * Delay handshakes and every message sent to terminals
+   */
+  setDelay(delayMs: number): void {
+    this.delayMs = Math.max(0, delayMs);
+  }
+
+  /**
+   * Stop (or resume) all responses while keeping connections open
+   */
+  setSilent(silent: boolean = true): void {
+    this.silent = silent;
+  }
+
+  /**
+   * Authenticate and accept a WebSocket upgrade
+   */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const query = new URL(req.url ?? '/', 'ws://localhost').searchParams;
+    const auth = this.authenticate(req, query);
+    const authorized = !this.authRejected &&
+      auth !== null &&
+      this.options.acceptedAuth.includes(auth) &&
+      query.get('tenantId') === this.options.tenantId &&
+      query.get('productId') === this.options.productId;
+
+    this.later(() => {
+      if (!authorized) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      if (!this.wss) {
+        socket.destroy();
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.accept(ws, query, auth!));
+    });
+  }
+
+  /**
+   * Authentication method of an upgrade request, or null if its credentials are wrong
+   */
+  private authenticate(req: http.IncomingMessage, query: URLSearchParams): MockAuthMethod | null {
+    const header = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    const token = header ? header[1] : query.get('token');
+    if (token) {
+      const claims = verifySignedToken(token, this.options.productKey);
+      if (claims) {
+        return claims.tenantId === this.options.tenantId && claims.productId === this.options.productId ? 'token' : null;
+      }
+    }
+    if (header) {
+      return header[1] === this.options.productKey ? 'header' : null;
+    }
+    return query.get('productKey') === this.options.productKey ? 'query' : null;
+  }
+
+  /**
+   * Register an accepted connection
+   */
+  private accept(ws: WebSocket, query: URLSearchParams, auth: MockAuthMethod): void {
+    const connection: MockConnection = {
+      id: this.nextConnectionId++,
+      tenantId: query.get('tenantId') ?? '',
+      productId: query.get('productId') ?? '',
+      traceId: query.get('traceId') ?? '',
+      auth,
+      connectedAt: Date.now()
+    };
+    const socket: MockSocket = { connection, ws, assembler: new FragmentAssembler(16 * 1024 * 1024) };
+    this.sockets.add(socket);
+
+    ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+      const message = Buffer.isBuffer(data) ? data : Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+      if (isBinary) {
+        this.handleBinary(socket, message);
+      } else {
+        this.handleText(socket, message.toString());
+      }
+    });
+    ws.on('ping', (data: Buffer) => {
+      if (!this.silent) {
+        this.later(() => ws.pong(data));
+      }
+    });
+    ws.on('error', () => {});
+    ws.on('close', (code: number) => {
+      this.sockets.delete(socket);
+      this.emit('disconnection', connection, code);
+    });
+
+    this.emit('connection', connection);
+  }
+
+  /**
+   * Heartbeats are answered; anything else with a type is recorded as a signal
+   */
+  private handleText(socket: MockSocket, text: string): void {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      return;
+    }
+
+    if (data && data.type === 'ping') {
+      this.send(socket, JSON.stringify({ type: 'pong' }));
+      return;
+    }
+    if (data && typeof data.type === 'string') {
+      const received: ReceivedSignal = { connection: socket.connection, signal: Signal.fromJSON(text), receivedAt: Date.now() };
+      this.received.push(received);
+      this.emit('signal', received);
+    }
+  }
+
+  /**
+   * Decode a 0x82 frame, reassembling fragmented transfers
+   */
+  private handleBinary(socket: MockSocket, message: Buffer): void {
+    let data: Buffer;
+    let dataType: string;
+    try {
+      const frame = decodeBinaryFrame(message);
+      if (frame.dataType === FRAGMENT_DATA_TYPE) {
+        const transfer = socket.assembler.push(frame.data);
+        if (!transfer) {
+          return;
+        }
+        data = transfer.data;
+        dataType = transfer.dataType;
+      } else {
+        data = frame.data;
+        dataType = frame.dataType;
+      }
+    } catch (e) {
+      return;
+    }
+
+    const received: ReceivedBinary = { connection: socket.connection, data, dataType, receivedAt: Date.now() };
+    this.receivedBinary.push(received);
+    this.emit('binary', received);
+  }
+
+  /**
+   * Send to all connections or one, unless silent
+   */
+  private broadcast(message: string | Buffer, connectionId?: number): void {
+    for (const socket of this.sockets) {
+      if (connectionId === undefined || socket.connection.id === connectionId) {
+        this.send(socket, message);
+      }
+    }
+  }
+
+  /**
+   * Send to one connection after the configured delay, unless silent
+   */
+  private send(socket: MockSocket, message: string | Buffer): void {
+    if (this.silent) {
+      return;
+    }
+    this.later(() => {
+      if (socket.ws.readyState === WebSocket.OPEN) {
+        socket.ws.send(message);
+      }
+    });
+  }
+
+  /**
+   * Run now, or after the configured delay
+   */
+  private later(action: () => void): void {
+    if (this.delayMs > 0) {
+      setTimeout(action, this.delayMs);
+    } else {
+      action();
+    }
+  }
+
+  /**
+   * Resolve with the first event value accepted by select, or time out
+   */
+  private waitFor<K extends keyof MockPlatformEvents, T>(
+    event: K,
+    select: (...args: MockPlatformEvents[K]) => T | null,
+    timeoutMs: number,
+    description: string
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const listener = (...args: MockPlatformEvents[K]) => {
+        const value = select(...args);
+        if (value !== null) {
+          clearTimeout(timer);
+          this.off(event, listener);
+          resolve(value);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.off(event, listener);
+        reject(new StreamIndError(ErrorCode.CONNECTION_TIMEOUT, `No ${description} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.on(event, listener);
+    });
+  }
+}
@@ -4,6 +4,21 @@
  * Core data structures for Signal/Directive communication
  */
 
+import { inspect, InspectOptions } from 'util';
+import { ErrorCode, StreamIndError } from './errors';
+import { ValidationMode } from './schema';
+import { Logger, silentLogger } from './logger';
+import { DEFAULT_SENSITIVE_KEYS, Redactor, redactValue } from './redact';
+import { Tracer, TraceContext, noopTracer, parseTraceparent, formatTraceparent } from './tracing';
+import { Clock, RandomSource, systemClock } from './clock';
+import { AuthStrategy, queryAuth } from './auth';
+import { MAX_TRANSFER_SIZE } from './fragment';
+
+/**
+ * Offline queue overflow policy
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'reject';
+
 /**
  * SDK Configuration
  */
@@ -38,6 +53,9 @@ export interface Config {
   /** Maximum message size in bytes (default: 10MB) */
   maxMessageSize?: number;
 
+  /** Maximum size of a fragmented binary transfer in bytes, sent or received (default: 64MB, at most 4294967295) */
+  maxTransferSize?: number;
+
   /** Maximum reconnection attempts (-1 = infinite, default: -1) */
   maxReconnectAttempts?: number;
 
@@ -52,26 +70,145 @@ export interface Config {
 
   /** Jitter factor for randomization (default: 0.1) */
   jitterFactor?: number;
+
+  /** Queue outbound signals while reconnecting (default: false) */
+  offlineQueueEnabled?: boolean;
+
+  /** Also queue binary frames while reconnecting (default: false) */
+  offlineQueueBinary?: boolean;
+
+  /** Maximum number of queued messages (default: 1000) */
+  offlineQueueMaxSize?: number;
+
+  /** Default time-to-live of queued messages in milliseconds (0 = no expiry, default: 0) */
+  offlineQueueTtlMs?: number;
+
+  /** Policy when the queue is full (default: 'drop-oldest') */
+  offlineQueueOverflowPolicy?: OverflowPolicy;
+
+  /** Directory for the durable signal journal, one per terminal (default: '' = disabled) */
+  journalDir?: string;
+
+  /** Maximum journal segment size in bytes (default: 1MB) */
+  journalSegmentMaxBytes?: number;
+
+  /** fsync journaled signals before sending them; concurrent signals share one fsync (default: true) */
+  journalFsync?: boolean;
+
+  /** End an audio session after this long without packets, in milliseconds (0 = never, default: 5000) */
+  audioSessionIdleTimeoutMs?: number;
+
+  /** Reply 'received' to every directive on arrival (default: false) */
+  directiveAutoAck?: boolean;
+
+  /** Reply 'completed'/'failed' once the directive callback and routed handlers settle; not if no handler ran (default: false) */
+  directiveAutoComplete?: boolean;
+
+  /** Reply 'failed' if a directive is not completed within this time, in milliseconds (0 = never, default: 0) */
+  directiveTimeoutMs?: number;
+
+  /** Validation of outbound signal payloads against registered schemas (default: 'strict') */
+  signalValidation?: ValidationMode;
+
+  /** Validation of inbound directive parameters against registered schemas (default: 'strict') */
+  directiveValidation?: ValidationMode;
+
+  /** Reply 'failed' with the offending fields to directives rejected by validation (default: false) */
+  directiveRejectInvalid?: boolean;
+
+  /** Logger for this terminal (default: silent, or the SDK logger) */
+  logger?: Logger;
+
+  /** Tracer for this terminal (default: no-op, or the SDK tracer) */
+  tracer?: Tracer;
+
+  /** Time and timer source (default: system clock, or the SDK clock) */
+  clock?: Clock;
+
+  /** Random source for reconnect jitter (default: Math.random, or the SDK random source) */
+  random?: RandomSource;
+
+  /** Credentials of each connect (default: queryAuth, productKey in the URL) */
+  auth?: AuthStrategy;
+
+  /** Keys whose values are masked in logs, captures and printed configs (default: DEFAULT_SENSITIVE_KEYS, or the SDK keys) */
+  sensitiveKeys?: string[];
+}
+
+/**
+ * Per-message send options
+ */
+export interface SendOptions {
+  /** Time-to-live in the offline queue in milliseconds (overrides offlineQueueTtlMs, 0 = no expiry) */
+  ttlMs?: number;
 }
 
 /**
  * Get WebSocket URL with query parameters
+ *
+ * authQuery holds the query credentials of the auth strategy (by default
+ * productKey, as with queryAuth); pass the URL through redactUrl() before
+ * logging it.
  */
-export function getWebSocketUrl(config: Config, traceId: string = ''): string {
+export function getWebSocketUrl(
+  config: Config,
+  traceId: string = '',
+  authQuery: Record<string, string> = { productKey: config.productKey }
+): string {
   let url = config.endpoint;
   url += `?tenantId=${config.tenantId}`;
   url += `&productId=${config.productId}`;
-  url += `&productKey=${config.productKey}`;
+  for (const [name, value] of Object.entries(authQuery)) {
+    url += `&${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+  }
   if (traceId) {
     url += `&traceId=${traceId}`;
   }
   return url;
 }
 
+/**
+ * Invalid configuration field
+ */
+export interface ConfigError {
+  field: string;
+  message: string;
+}
+
 /**
  * Get configuration with defaults
+ *
+ * @throws StreamIndError(INVALID_CONFIG) listing every invalid field
  */
 export function getConfigWithDefaults(config: Config): Required<Config> {
+  const resolved = resolveConfig(config);
+  const errors = checkConfig(resolved);
+  if (errors.length > 0) {
+    throw new StreamIndError(ErrorCode.INVALID_CONFIG, `Invalid configuration: ${formatConfigErrors(errors)}`);
+  }
+  return withSafeOutput(resolved);
+}
+
+/**
+ * Validate a configuration with defaults applied
+ *
+ * @returns Every invalid field (empty if valid)
+ */
+export function validateConfig(config: Config): ConfigError[] {
+  return checkConfig(resolveConfig(config));
+}
+
+/**
+ * Format errors as "field: message; ..." (e.g. "heartbeatIntervalMs: must be a positive number")
+ */
+export function formatConfigErrors(errors: ConfigError[]): string {
+  return errors.map((error) => `${error.field}: ${error.message}`).join('; ');
+}
+
+/**
+ * Configuration with defaults applied
+ */
+function resolveConfig(config: Config): Required<Config> {
   return {
     deviceId: config.deviceId,
     deviceType: config.deviceType,
@@ -83,14 +220,182 @@ export function getConfigWithDefaults(config: Config): Required<Config> {
     connectionTimeoutMs: config.connectionTimeoutMs ?? 10000,
     heartbeatIntervalMs: config.heartbeatIntervalMs ?? 5000,
     maxMessageSize: config.maxMessageSize ?? 10 * 1024 * 1024,
+    maxTransferSize: config.maxTransferSize ?? 64 * 1024 * 1024,
     maxReconnectAttempts: config.maxReconnectAttempts ?? -1,
     baseReconnectIntervalMs: config.baseReconnectIntervalMs ?? 1000,
     maxReconnectIntervalMs: config.maxReconnectIntervalMs ?? 60000,
     backoffFactor: config.backoffFactor ?? 2.0,
-    jitterFactor: config.jitterFactor ?? 0.1
+    jitterFactor: config.jitterFactor ?? 0.1,
+    offlineQueueEnabled: config.offlineQueueEnabled ?? false,
+    offlineQueueBinary: config.offlineQueueBinary ?? false,
+    offlineQueueMaxSize: config.offlineQueueMaxSize ?? 1000,
+    offlineQueueTtlMs: config.offlineQueueTtlMs ?? 0,
+    offlineQueueOverflowPolicy: config.offlineQueueOverflowPolicy ?? 'drop-oldest',
+    journalDir: config.journalDir ?? '',
+    journalSegmentMaxBytes: config.journalSegmentMaxBytes ?? 1024 * 1024,
+    journalFsync: config.journalFsync ?? true,
+    audioSessionIdleTimeoutMs: config.audioSessionIdleTimeoutMs ?? 5000,
+    directiveAutoAck: config.directiveAutoAck ?? false,
+    directiveAutoComplete: config.directiveAutoComplete ?? false,
+    directiveTimeoutMs: config.directiveTimeoutMs ?? 0,
+    signalValidation: config.signalValidation ?? 'strict',
+    directiveValidation: config.directiveValidation ?? 'strict',
+    directiveRejectInvalid: config.directiveRejectInvalid ?? false,
+    logger: config.logger ?? silentLogger,
+    tracer: config.tracer ?? noopTracer,
+    clock: config.clock ?? systemClock,
+    random: config.random ?? Math.random,
+    auth: config.auth ?? queryAuth,
+    sensitiveKeys: config.sensitiveKeys ?? [...DEFAULT_SENSITIVE_KEYS]
   };
 }
 
+/**
+ * Check every field of a resolved configuration
+ */
+function checkConfig(config: Required<Config>): ConfigError[] {
+  const errors: ConfigError[] = [];
+  const fail = (field: keyof Config, message: string) => errors.push({ field, message });
+
+  const strings: Array<keyof Config> = ['deviceId', 'deviceType', 'endpoint', 'tenantId', 'productId', 'productKey'];
+  for (const field of strings) {
+    if (typeof config[field] !== 'string' || (config[field] as string).trim() === '') {
+      fail(field, 'must be a non-empty string');
+    }
+  }
+  if (typeof config.endpoint === 'string' && config.endpoint.trim() !== '') {
+    let protocol = '';
+    try {
+      protocol = new URL(config.endpoint).protocol;
+    } catch (e) {
+      fail('endpoint', 'must be a valid URL');
+    }
+    if (protocol && protocol !== 'ws:' && protocol !== 'wss:') {
+      fail('endpoint', `must use the ws: or wss: scheme (got ${protocol})`);
+    }
+  }
+
+  const booleans: Array<keyof Config> = [
+    'enableDirectiveReceiving', 'offlineQueueEnabled', 'offlineQueueBinary', 'journalFsync',
+    'directiveAutoAck', 'directiveAutoComplete', 'directiveRejectInvalid'
+  ];
+  for (const field of booleans) {
+    if (typeof config[field] !== 'boolean') {
+      fail(field, 'must be a boolean');
+    }
+  }
+
+  const positive: Array<keyof Config> = [
+    'connectionTimeoutMs', 'heartbeatIntervalMs', 'baseReconnectIntervalMs', 'maxReconnectIntervalMs'
+  ];
+  for (const field of positive) {
+    if (!isNumber(config[field]) || (config[field] as number) <= 0) {
+      fail(field, 'must be a positive number');
+    }
+  }
+  const positiveIntegers: Array<keyof Config> = ['maxMessageSize', 'maxTransferSize', 'offlineQueueMaxSize', 'journalSegmentMaxBytes'];
+  for (const field of positiveIntegers) {
+    if (!Number.isInteger(config[field]) || (config[field] as number) <= 0) {
+      fail(field, 'must be a positive integer');
+    }
+  }
+  if (Number.isInteger(config.maxTransferSize) && config.maxTransferSize > MAX_TRANSFER_SIZE) {
+    fail('maxTransferSize', `must be at most ${MAX_TRANSFER_SIZE}`);
+  }
+  const nonNegative: Array<keyof Config> = ['offlineQueueTtlMs', 'audioSessionIdleTimeoutMs', 'directiveTimeoutMs'];
+  for (const field of nonNegative) {
+    if (!isNumber(config[field]) || (config[field] as number) < 0) {
+      fail(field, 'must be zero or a positive number');
+    }
+  }
+
+  if (!Number.isInteger(config.maxReconnectAttempts) || config.maxReconnectAttempts < -1) {
+    fail('maxReconnectAttempts', 'must be an integer, -1 for infinite');
+  }
+  if (isNumber(config.baseReconnectIntervalMs) && isNumber(config.maxReconnectIntervalMs) &&
+      config.maxReconnectIntervalMs < config.baseReconnectIntervalMs) {
+    fail('maxReconnectIntervalMs', 'must not be less than baseReconnectIntervalMs');
+  }
+  if (!isNumber(config.backoffFactor) || config.backoffFactor < 1) {
+    fail('backoffFactor', 'must be a number >= 1');
+  }
+  if (!isNumber(config.jitterFactor) || config.jitterFactor < 0 || config.jitterFactor > 1) {
+    fail('jitterFactor', 'must be a number between 0 and 1');
+  }
+
+  if (!['drop-oldest', 'drop-newest', 'reject'].includes(config.offlineQueueOverflowPolicy)) {
+    fail('offlineQueueOverflowPolicy', "must be 'drop-oldest', 'drop-newest' or 'reject'");
+  }
+  for (const field of ['signalValidation', 'directiveValidation'] as const) {
+    if (!['strict', 'warn', 'off'].includes(config[field])) {
+      fail(field, "must be 'strict', 'warn' or 'off'");
+    }
+  }
+  if (typeof config.journalDir !== 'string') {
+    fail('journalDir', 'must be a string');
+  }
+
+  const logger = config.logger as unknown as Record<string, unknown>;
+  if (!logger || ['debug', 'info', 'warn', 'error'].some((level) => typeof logger[level] !== 'function')) {
+    fail('logger', 'must implement debug, info, warn and error');
+  }
+  if (!config.tracer || typeof config.tracer.startSpan !== 'function') {
+    fail('tracer', 'must implement startSpan');
+  }
+  const clock = config.clock as unknown as Record<string, unknown>;
+  if (!clock || ['now', 'setTimeout', 'clearTimeout'].some((method) => typeof clock[method] !== 'function')) {
+    fail('clock', 'must implement now, setTimeout and clearTimeout');
+  }
+  if (typeof config.random !== 'function') {
+    fail('random', 'must be a function');
+  }
+  if (!config.auth || typeof config.auth.credentials !== 'function') {
+    fail('auth', 'must implement credentials');
+  }
+  if (!Array.isArray(config.sensitiveKeys) || !config.sensitiveKeys.every((key) => typeof key === 'string')) {
+    fail('sensitiveKeys', 'must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a value is a finite number
+ */
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Copy of a configuration that is safe to print (secrets masked, logger, tracer, clock, random source and auth strategy omitted)
+ */
+export function redactConfig(config: Config): Record<string, unknown> {
+  const { logger: _logger, tracer: _tracer, clock: _clock, random: _random, auth: _auth, ...fields } = config;
+  return Array.isArray(config.sensitiveKeys) ? new Redactor(config.sensitiveKeys).value(fields) : redactValue(fields);
+}
+
+/**
+ * Create a configuration whose toString() and console.log() output mask secrets
+ */
+export function createConfig(config: Config): Config {
+  return withSafeOutput({ ...config });
+}
+
+/**
+ * Add non-enumerable toString() and inspect output that redact the configuration
+ */
+function withSafeOutput<T extends Config>(config: T): T {
+  Object.defineProperties(config, {
+    toString: {
+      value: () => `Config ${JSON.stringify(redactConfig(config))}`
+    },
+    [inspect.custom]: {
+      value: (_depth: number, options: InspectOptions) => `Config ${inspect(redactConfig(config), options)}`
+    }
+  });
+  return config;
+}
+
 /**
  * Payload - Key-value data container
  */
@@ -210,6 +515,12 @@ export interface SignalSource {
   receptorId: string;
   receptorTopic: string;
   generatedTime: string;
+
+  /** W3C traceparent of the span that sent the signal */
+  traceparent?: string;
+
+  /** W3C tracestate */
+  tracestate?: string;
 }
 
 /**
@@ -226,6 +537,7 @@ export class Signal {
   public timestamp: string;
   public source: SignalSource;
   private payload: Payload;
+  private redactor: Redactor | null = null;
 
   constructor(type: string) {
     this.uuid = `sig_${Date.now()}_${++signalCounter}`;
@@ -253,6 +565,36 @@ export class Signal {
     this.payload = payload;
   }
 
+  /**
+   * Get the trace context carried in source.traceparent
+   */
+  getTraceContext(): TraceContext | null {
+    return this.source.traceparent ? parseTraceparent(this.source.traceparent, this.source.tracestate) : null;
+  }
+
+  /**
+   * Set the trace context to continue; sending starts a child span and replaces it with the span's context
+   */
+  setTraceContext(context: TraceContext | null): void {
+    delete this.source.traceparent;
+    delete this.source.tracestate;
+    if (context) {
+      this.source.traceparent = formatTraceparent(context);
+      if (context.traceState) {
+        this.source.tracestate = context.traceState;
+      }
+    }
+  }
+
+  /**
+   * Set the redactor used by toString() and console.log() (default: DEFAULT_SENSITIVE_KEYS)
+   *
+   * Sending the signal sets the terminal's redactor, so its sensitiveKeys apply from then on.
+   */
+  setRedactor(redactor: Redactor | null): void {
+    this.redactor = redactor;
+  }
+
   /**
    * Convert to JSON string
    */
@@ -266,6 +608,20 @@ export class Signal {
     });
   }
 
+  /**
+   * Summary with sensitive payload fields masked
+   */
+  toString(): string {
+    return `Signal ${JSON.stringify(this.toRedacted())}`;
+  }
+
+  /**
+   * console.log() / util.inspect() output with sensitive payload fields masked
+   */
+  [inspect.custom](_depth: number, options: InspectOptions): string {
+    return `Signal ${inspect(this.toRedacted(), options)}`;
+  }
+
   /**
    * Create from JSON string
    */
@@ -280,18 +636,55 @@ export class Signal {
     }
     return signal;
   }
+
+  /**
+   * Plain copy of the signal with sensitive payload fields masked
+   */
+  private toRedacted(): Record<string, unknown> {
+    return {
+      uuid: this.uuid,
+      type: this.type,
+      timestamp: this.timestamp,
+      source: this.source,
+      payload: this.redactor ? this.redactor.value(this.payload.getData()) : redactValue(this.payload.getData())
+    };
+  }
 }
 
+/**
+ * Signal type of directive replies
+ *
+ * Payload: { directiveId, directiveName, status, result?, error?: { code, message } }
+ */
+export const DIRECTIVE_REPLY_SIGNAL = 'directive.reply';
+
+/**
+ * Directive reply status
+ */
+export type DirectiveStatus = 'received' | 'completed' | 'failed';
+
+/**
+ * Sends a reply for a directive (bound by the terminal that received it)
+ */
+export type DirectiveReplier = (status: DirectiveStatus, payload: Record<string, any>) => Promise<ErrorCode>;
+
 /**
  * Directive - Downlink command from platform to terminal
+ *
+ * P types the parameters when the directive comes from a typed catalog.
  */
-export class Directive {
+export class Directive<P extends Record<string, any> = Record<string, any>> {
   public id: string;
   public name: string;
   public timestamp: string;
-  private parameters: Record<string, any>;
+  public parameters: P;
+
+  /** Trace context sent by the platform (traceparent), if any */
+  public traceContext: TraceContext | null = null;
 
-  constructor(id: string = '', name: string = '', parameters: Record<string, any> = {}) {
+  private replier: DirectiveReplier | null = null;
+
+  constructor(id: string = '', name: string = '', parameters: P = {} as P) {
     this.id = id;
     this.name = name;
     this.timestamp = new Date().toISOString();
@@ -301,7 +694,7 @@ export class Directive {
   /**
    * Get all parameters
    */
-  getParameters(): Record<string, any> {
+  getParameters(): P {
     return { ...this.parameters };
   }
 
@@ -351,6 +744,47 @@ export class Directive {
     return this.parameters[key] ?? defaultValue;
   }
 
+  /**
+   * Bind the reply channel (set by the receiving terminal)
+   */
+  setReplier(replier: DirectiveReplier | null): void {
+    this.replier = replier;
+  }
+
+  /**
+   * Acknowledge receipt
+   */
+  ack(): Promise<ErrorCode> {
+    return this.reply('received', {});
+  }
+
+  /**
+   * Report successful execution
+   */
+  complete(result: Record<string, any> = {}): Promise<ErrorCode> {
+    return this.reply('completed', { result });
+  }
+
+  /**
+   * Report failed execution
+   */
+  fail(error: Error | string, code: string = ''): Promise<ErrorCode> {
+    const message = typeof error === 'string' ? error : error.message;
+    return this.reply('failed', { error: { code, message } });
+  }
+
+  /**
+   * Send a reply signal through the receiving terminal
+   *
+   * @returns ErrorCode.NOT_INITIALIZED if the directive was not received from a terminal
+   */
+  async reply(status: DirectiveStatus, payload: Record<string, any> = {}): Promise<ErrorCode> {
+    if (!this.replier) {
+      return ErrorCode.NOT_INITIALIZED;
+    }
+    return this.replier(status, payload);
+  }
+
   /**
    * Convert to JSON string
    */
@@ -359,7 +793,8 @@ export class Directive {
       id: this.id,
       name: this.name,
       timestamp: this.timestamp,
-      parameters: this.parameters
+      parameters: this.parameters,
+      ...(this.traceContext ? { traceparent: formatTraceparent(this.traceContext), tracestate: this.traceContext.traceState } : {})
     });
   }
 
@@ -379,11 +814,19 @@ export class Directive {
       }
     }
 
-    return new Directive(
+    const directive = new Directive(
       data.id || '',
       data.name || '',
       params
     );
+
+    // traceparent at the top level or in metadata
+    const metadata = data.metadata || {};
+    const traceparent = data.traceparent || metadata.traceparent;
+    if (typeof traceparent === 'string') {
+      directive.traceContext = parseTraceparent(traceparent, data.tracestate || metadata.tracestate);
+    }
+    return directive;
   }
 }
 
@@ -395,8 +838,15 @@ export interface Statistics {
   audioSent: number;
   directivesReceived: number;
   audioReceived: number;
+  malformedFrames: number;
+  invalidSignals: number;
+  invalidDirectives: number;
   errors: number;
   connected: boolean;
   uptimeSeconds: number;
   reconnectAttempts: number;
+  queueDepth: number;
+  queueDropped: number;
+  queueExpired: number;
+  journalPending: number;
 }
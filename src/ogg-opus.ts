@@ -0,0 +1,749 @@
+/**
+ * StreamInd SDK Ogg Opus Support
+ *
+ * Pure TypeScript Ogg Opus demuxing and muxing (RFC 3533, RFC 7845)
+ */
+
+import * as fs from 'fs';
+import { Transform, TransformCallback, Writable } from 'stream';
+import { oggCrc32 } from './checksum';
+import { Directive } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+
+/** Ogg page capture pattern */
+const OGG_CAPTURE = Buffer.from('OggS', 'ascii');
+
+/** Fixed part of an Ogg page header */
+const OGG_HEADER_SIZE = 27;
+
+/** Page header type flags */
+export const OGG_FLAG_CONTINUED = 0x01;
+export const OGG_FLAG_BOS = 0x02;
+export const OGG_FLAG_EOS = 0x04;
+
+/** Opus granule positions always use a 48 kHz clock */
+export const OPUS_GRANULE_RATE = 48000;
+
+/**
+ * Ogg page
+ */
+export interface OggPage {
+  headerType: number;
+  granulePosition: number;
+  serialNumber: number;
+  sequenceNumber: number;
+
+  /** Packet segments: complete packets, except that the first may continue and the last may be unfinished */
+  segments: Buffer[];
+
+  /** Whether the last segment is unfinished (continues on the next page) */
+  lastIncomplete: boolean;
+}
+
+/**
+ * OpusHead identification header
+ */
+export interface OpusHead {
+  version: number;
+  channelCount: number;
+  preSkip: number;
+  inputSampleRate: number;
+  outputGain: number;
+  mappingFamily: number;
+
+  /** Stream layout (implied by the channel count for mapping family 0) */
+  channelMapping: OpusChannelMapping;
+}
+
+/**
+ * Layout of the Opus streams in a packet (RFC 7845 section 5.1.1)
+ */
+export interface OpusChannelMapping {
+  /** Number of Opus streams in each packet */
+  streamCount: number;
+
+  /** Number of those streams that are stereo */
+  coupledCount: number;
+
+  /** Decoded channel index of each output channel (255 = silence) */
+  mapping: number[];
+}
+
+/**
+ * Stream layouts of libopus for 1 to 8 channels in Vorbis channel order (index = channel count)
+ */
+const VORBIS_CHANNEL_MAPPINGS: Array<OpusChannelMapping | null> = [
+  null,
+  { streamCount: 1, coupledCount: 0, mapping: [0] },
+  { streamCount: 1, coupledCount: 1, mapping: [0, 1] },
+  { streamCount: 2, coupledCount: 1, mapping: [0, 2, 1] },
+  { streamCount: 2, coupledCount: 2, mapping: [0, 1, 2, 3] },
+  { streamCount: 3, coupledCount: 2, mapping: [0, 4, 1, 2, 3] },
+  { streamCount: 4, coupledCount: 2, mapping: [0, 4, 1, 2, 3, 5] },
+  { streamCount: 4, coupledCount: 3, mapping: [0, 4, 1, 2, 3, 5, 6] },
+  { streamCount: 5, coupledCount: 3, mapping: [0, 6, 1, 2, 3, 4, 5, 7] }
+];
+
+/**
+ * OpusTags comment header
+ */
+export interface OpusTags {
+  vendor: string;
+  comments: string[];
+}
+
+/**
+ * Demuxed Opus packet
+ */
+export interface OpusPacket {
+  /** Raw Opus packet */
+  data: Buffer;
+
+  /** Start time relative to the beginning of the stream, in milliseconds (pre-skip removed) */
+  timestampMs: number;
+
+  /** Packet duration in milliseconds (from the TOC byte) */
+  durationMs: number;
+}
+
+/**
+ * Number of 48 kHz samples in an Opus packet (RFC 6716 section 3.1)
+ */
+export function getOpusPacketSamples(packet: Buffer): number {
+  if (packet.length === 0) {
+    return 0;
+  }
+
+  const toc = packet[0];
+  const config = toc >> 3;
+
+  // Frame size in 48 kHz samples
+  let frameSize: number;
+  if (config < 12) {
+    frameSize = [480, 960, 1920, 2880][config & 3];        // SILK: 10/20/40/60 ms
+  } else if (config < 16) {
+    frameSize = [480, 960][config & 1];                    // Hybrid: 10/20 ms
+  } else {
+    frameSize = [120, 240, 480, 960][config & 3];          // CELT: 2.5/5/10/20 ms
+  }
+
+  let frameCount: number;
+  switch (toc & 3) {
+    case 0:
+      frameCount = 1;
+      break;
+    case 3:
+      frameCount = packet.length > 1 ? packet[1] & 0x3F : 0;
+      break;
+    default:
+      frameCount = 2;
+  }
+
+  return frameSize * frameCount;
+}
+
+/**
+ * Parse an OpusHead packet
+ */
+export function parseOpusHead(packet: Buffer): OpusHead {
+  if (packet.length < 19 || packet.toString('ascii', 0, 8) !== 'OpusHead') {
+    throw new StreamIndError(ErrorCode.INVALID_MEDIA, 'Missing OpusHead header');
+  }
+
+  const channelCount = packet[9];
+  const mappingFamily = packet[18];
+  let channelMapping: OpusChannelMapping;
+  if (mappingFamily === 0) {
+    channelMapping = {
+      streamCount: 1,
+      coupledCount: channelCount > 1 ? 1 : 0,
+      mapping: channelCount > 1 ? [0, 1] : [0]
+    };
+  } else {
+    if (packet.length < 21 + channelCount) {
+      throw new StreamIndError(ErrorCode.INVALID_MEDIA, 'Truncated OpusHead channel mapping table');
+    }
+    channelMapping = {
+      streamCount: packet[19],
+      coupledCount: packet[20],
+      mapping: Array.from(packet.subarray(21, 21 + channelCount))
+    };
+  }
+
+  return {
+    version: packet[8],
+    channelCount,
+    preSkip: packet.readUInt16LE(10),
+    inputSampleRate: packet.readUInt32LE(12),
+    outputGain: packet.readInt16LE(16),
+    mappingFamily,
+    channelMapping
+  };
+}
+
+/**
+ * Parse an OpusTags packet
+ */
+export function parseOpusTags(packet: Buffer): OpusTags {
+  if (packet.length < 16 || packet.toString('ascii', 0, 8) !== 'OpusTags') {
+    throw new StreamIndError(ErrorCode.INVALID_MEDIA, 'Missing OpusTags header');
+  }
+
+  try {
+    let offset = 8;
+    const vendorLength = packet.readUInt32LE(offset);
+    offset += 4;
+    const vendor = packet.toString('utf8', offset, offset + vendorLength);
+    offset += vendorLength;
+
+    const count = packet.readUInt32LE(offset);
+    offset += 4;
+    const comments: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const length = packet.readUInt32LE(offset);
+      offset += 4;
+      comments.push(packet.toString('utf8', offset, offset + length));
+      offset += length;
+    }
+
+    return { vendor, comments };
+  } catch (e) {
+    throw new StreamIndError(ErrorCode.INVALID_MEDIA, 'Truncated OpusTags header');
+  }
+}
+
+/**
+ * Incremental Ogg page parser
+ */
+export class OggPageParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Feed bytes and return every complete page
+   *
+   * @throws StreamIndError(INVALID_MEDIA) on a checksum mismatch
+   */
+  push(chunk: Buffer): OggPage[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const pages: OggPage[] = [];
+
+    for (;;) {
+      // Resynchronize on the capture pattern
+      const start = this.buffer.indexOf(OGG_CAPTURE);
+      if (start === -1) {
+        // Keep a possible partial capture pattern
+        this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - 3));
+        break;
+      }
+      if (start > 0) {
+        this.buffer = this.buffer.subarray(start);
+      }
+
+      if (this.buffer.length < OGG_HEADER_SIZE) {
+        break;
+      }
+
+      const segmentCount = this.buffer[26];
+      const headerSize = OGG_HEADER_SIZE + segmentCount;
+      if (this.buffer.length < headerSize) {
+        break;
+      }
+
+      const lacing = this.buffer.subarray(OGG_HEADER_SIZE, headerSize);
+      let bodySize = 0;
+      for (const value of lacing) {
+        bodySize += value;
+      }
+      if (this.buffer.length < headerSize + bodySize) {
+        break;
+      }
+
+      const raw = this.buffer.subarray(0, headerSize + bodySize);
+      this.buffer = this.buffer.subarray(headerSize + bodySize);
+      pages.push(this.parsePage(raw, lacing, headerSize));
+    }
+
+    return pages;
+  }
+
+  /**
+   * Decode a complete page
+   */
+  private parsePage(raw: Buffer, lacing: Buffer, headerSize: number): OggPage {
+    const checksum = raw.readUInt32LE(22);
+    const copy = Buffer.from(raw);
+    copy.writeUInt32LE(0, 22);
+    if (oggCrc32(copy) !== checksum) {
+      throw new StreamIndError(ErrorCode.INVALID_MEDIA, `Ogg page checksum mismatch (sequence ${raw.readUInt32LE(18)})`);
+    }
+
+    // Split the body into packets using the lacing values
+    const segments: Buffer[] = [];
+    let offset = headerSize;
+    let packetStart = offset;
+    let lastIncomplete = false;
+    for (let i = 0; i < lacing.length; i++) {
+      offset += lacing[i];
+      if (lacing[i] < 255) {
+        segments.push(raw.subarray(packetStart, offset));
+        packetStart = offset;
+        lastIncomplete = false;
+      } else {
+        lastIncomplete = true;
+      }
+    }
+    if (lastIncomplete) {
+      segments.push(raw.subarray(packetStart, offset));
+    }
+
+    return {
+      headerType: raw[5],
+      granulePosition: Number(raw.readBigInt64LE(6)),
+      serialNumber: raw.readUInt32LE(14),
+      sequenceNumber: raw.readUInt32LE(18),
+      segments,
+      lastIncomplete
+    };
+  }
+}
+
+/**
+ * Ogg Opus Demuxer
+ *
+ * Extracts raw Opus packets from the first Opus logical stream. Packet
+ * timestamps follow the TOC durations and are resynchronized to each page's
+ * granule position.
+ */
+export class OggOpusDemuxer {
+  private parser = new OggPageParser();
+  private serialNumber: number | null = null;
+  private head: OpusHead | null = null;
+  private tags: OpusTags | null = null;
+  private partial: Buffer[] = [];
+  private headerPackets: number = 0;
+  private samplePosition: number = 0;
+
+  /**
+   * Identification header (available once parsed)
+   */
+  getHead(): OpusHead | null {
+    return this.head;
+  }
+
+  /**
+   * Comment header (available once parsed)
+   */
+  getTags(): OpusTags | null {
+    return this.tags;
+  }
+
+  /**
+   * Feed bytes and return the audio packets completed by them
+   */
+  push(chunk: Buffer): OpusPacket[] {
+    const packets: OpusPacket[] = [];
+
+    for (const page of this.parser.push(chunk)) {
+      if (this.serialNumber === null) {
+        // Lock onto the first stream that starts with OpusHead
+        if (!(page.headerType & OGG_FLAG_BOS) || page.segments.length === 0 ||
+            page.segments[0].toString('ascii', 0, 8) !== 'OpusHead') {
+          continue;
+        }
+        this.serialNumber = page.serialNumber;
+      } else if (page.serialNumber !== this.serialNumber) {
+        continue;
+      }
+
+      const pagePackets: Buffer[] = [];
+      page.segments.forEach((segment, index) => {
+        if (index === 0 && (page.headerType & OGG_FLAG_CONTINUED)) {
+          this.partial.push(segment);
+        } else {
+          this.partial = [segment];
+        }
+
+        const complete = !(page.lastIncomplete && index === page.segments.length - 1);
+        if (complete) {
+          pagePackets.push(Buffer.concat(this.partial));
+          this.partial = [];
+        }
+      });
+
+      for (const packet of pagePackets) {
+        if (this.headerPackets === 0) {
+          this.head = parseOpusHead(packet);
+          this.headerPackets++;
+        } else if (this.headerPackets === 1) {
+          this.tags = parseOpusTags(packet);
+          this.headerPackets++;
+        } else {
+          const samples = getOpusPacketSamples(packet);
+          packets.push({
+            data: packet,
+            timestampMs: this.samplesToMs(this.samplePosition),
+            durationMs: (samples * 1000) / OPUS_GRANULE_RATE
+          });
+          this.samplePosition += samples;
+        }
+      }
+
+      // The last packet completed on a page ends at its granule position
+      if (page.granulePosition >= 0 && this.headerPackets >= 2 && pagePackets.length > 0) {
+        this.samplePosition = page.granulePosition;
+      }
+    }
+
+    return packets;
+  }
+
+  /**
+   * Convert a granule position to milliseconds, removing pre-skip
+   */
+  private samplesToMs(samples: number): number {
+    const preSkip = this.head ? this.head.preSkip : 0;
+    return (Math.max(0, samples - preSkip) * 1000) / OPUS_GRANULE_RATE;
+  }
+}
+
+/**
+ * Demux Opus packets from a byte source (e.g. fs.createReadStream('audio.opus'))
+ */
+export async function* demuxOggOpus(source: AsyncIterable<Buffer | Uint8Array>): AsyncGenerator<OpusPacket> {
+  const demuxer = new OggOpusDemuxer();
+  for await (const chunk of source) {
+    yield* demuxer.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+}
+
+/**
+ * Ogg Opus muxer options
+ */
+export interface OggOpusMuxerOptions {
+  /** Channel count, 1 to 255 (default: 1) */
+  channels?: number;
+
+  /** Stream layout for more than 2 channels (default: the libopus Vorbis layout, which exists for up to 8 channels) */
+  channelMapping?: OpusChannelMapping;
+
+  /** Original input sample rate, informational (default: 16000) */
+  sampleRate?: number;
+
+  /** Samples (at 48 kHz) to discard at decoder start (default: 0) */
+  preSkip?: number;
+
+  /** Logical stream serial number (default: random) */
+  serialNumber?: number;
+
+  /** Vendor string in OpusTags (default: "StreamInd SDK") */
+  vendor?: string;
+
+  /** User comments in OpusTags, e.g. "TITLE=..." */
+  comments?: string[];
+
+  /** Maximum audio duration per page in milliseconds (default: 1000) */
+  maxPageDurationMs?: number;
+}
+
+/**
+ * Muxer options from an audio.opus_data_start directive (sample_rate, channels)
+ */
+export function oggOpusOptionsFromDirective(directive: Directive): OggOpusMuxerOptions {
+  return {
+    channels: directive.getIntParameter('channels', 1),
+    sampleRate: directive.getIntParameter('sample_rate', 16000)
+  };
+}
+
+/**
+ * Channel mapping table to write for a channel count (null for mapping family 0)
+ *
+ * @throws StreamIndError(INVALID_PARAMETER) if the channel count or mapping is invalid
+ */
+function resolveChannelMapping(channels: number, mapping?: OpusChannelMapping): OpusChannelMapping | null {
+  if (!Number.isInteger(channels) || channels < 1 || channels > 255) {
+    throw new StreamIndError(ErrorCode.INVALID_PARAMETER, 'channels must be an integer between 1 and 255');
+  }
+  if (channels <= 2) {
+    return null;
+  }
+
+  const resolved = mapping ?? VORBIS_CHANNEL_MAPPINGS[channels];
+  if (!resolved) {
+    throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `channelMapping is required for ${channels} channels`);
+  }
+  const { streamCount, coupledCount } = resolved;
+  const valid = Number.isInteger(streamCount) && Number.isInteger(coupledCount) &&
+    streamCount >= 1 && coupledCount >= 0 && coupledCount <= streamCount && streamCount + coupledCount <= 255 &&
+    resolved.mapping.length === channels &&
+    resolved.mapping.every((index) => Number.isInteger(index) && (index === 255 || (index >= 0 && index < streamCount + coupledCount)));
+  if (!valid) {
+    throw new StreamIndError(ErrorCode.INVALID_PARAMETER, 'channelMapping does not describe the channels (RFC 7845 section 5.1.1)');
+  }
+  return resolved;
+}
+
+/** Maximum lacing values per page */
+const MAX_PAGE_SEGMENTS = 255;
+
+/**
+ * Ogg Opus Muxer
+ *
+ * Wraps raw Opus packets into a playable Ogg Opus stream: OpusHead and
+ * OpusTags header pages, audio pages with granule positions, and CRC-32
+ * page checksums. All methods return encoded bytes to be written in order.
+ */
+export class OggOpusMuxer {
+  private readonly options: Required<Omit<OggOpusMuxerOptions, 'channelMapping'>>;
+  private readonly channelMapping: OpusChannelMapping | null;
+  private sequenceNumber: number = 0;
+
+  /** Samples of all flushed packets; pre-skip samples are counted, not added (RFC 7845 section 4) */
+  private granulePosition: number = 0;
+  private pending: Buffer[] = [];
+  private pendingSamples: number = 0;
+  private headersWritten: boolean = false;
+  private ended: boolean = false;
+
+  /**
+   * @throws StreamIndError(INVALID_PARAMETER) if the channel count or mapping is invalid
+   */
+  constructor(options: OggOpusMuxerOptions = {}) {
+    this.options = {
+      channels: options.channels ?? 1,
+      sampleRate: options.sampleRate ?? 16000,
+      preSkip: options.preSkip ?? 0,
+      serialNumber: options.serialNumber ?? Math.floor(Math.random() * 0x100000000) >>> 0,
+      vendor: options.vendor ?? 'StreamInd SDK',
+      comments: options.comments ?? [],
+      maxPageDurationMs: options.maxPageDurationMs ?? 1000
+    };
+    this.channelMapping = resolveChannelMapping(this.options.channels, options.channelMapping);
+  }
+
+  /**
+   * OpusHead and OpusTags pages (emitted automatically by the first write)
+   */
+  writeHeaders(): Buffer {
+    if (this.headersWritten) {
+      return Buffer.alloc(0);
+    }
+    this.headersWritten = true;
+
+    const mapping = this.channelMapping;
+    const head = Buffer.alloc(mapping ? 21 + mapping.mapping.length : 19);
+    head.write('OpusHead', 0, 'ascii');
+    head[8] = 1;                                          // Version
+    head[9] = this.options.channels;
+    head.writeUInt16LE(this.options.preSkip, 10);
+    head.writeUInt32LE(this.options.sampleRate, 12);
+    head.writeInt16LE(0, 16);                             // Output gain
+    head[18] = mapping ? 1 : 0;                           // Channel mapping family
+    if (mapping) {
+      head[19] = mapping.streamCount;
+      head[20] = mapping.coupledCount;
+      Buffer.from(mapping.mapping).copy(head, 21);
+    }
+
+    const vendor = Buffer.from(this.options.vendor, 'utf8');
+    const comments = this.options.comments.map((comment) => Buffer.from(comment, 'utf8'));
+    const tags = Buffer.alloc(8 + 4 + vendor.length + 4 + comments.reduce((n, c) => n + 4 + c.length, 0));
+    let offset = tags.write('OpusTags', 0, 'ascii');
+    offset = tags.writeUInt32LE(vendor.length, offset);
+    offset += vendor.copy(tags, offset);
+    offset = tags.writeUInt32LE(comments.length, offset);
+    for (const comment of comments) {
+      offset = tags.writeUInt32LE(comment.length, offset);
+      offset += comment.copy(tags, offset);
+    }
+
+    return Buffer.concat([
+      ...this.buildPages([head], OGG_FLAG_BOS, 0),
+      ...this.buildPages([tags], 0, 0)
+    ]);
+  }
+
+  /**
+   * Add an Opus packet
+   *
+   * @returns Encoded pages completed by this packet (possibly empty)
+   */
+  writePacket(packet: Buffer): Buffer {
+    if (this.ended) {
+      throw new StreamIndError(ErrorCode.INVALID_PARAMETER, 'Ogg Opus stream already ended');
+    }
+
+    const output: Buffer[] = [this.writeHeaders()];
+    const samples = getOpusPacketSamples(packet);
+
+    // Flush before the page would exceed its duration or lacing capacity
+    const segments = this.pending.reduce((n, p) => n + Math.floor(p.length / 255) + 1, 0);
+    const maxSamples = (this.options.maxPageDurationMs * OPUS_GRANULE_RATE) / 1000;
+    if (this.pending.length > 0 &&
+        (this.pendingSamples + samples > maxSamples ||
+         segments + Math.floor(packet.length / 255) + 1 > MAX_PAGE_SEGMENTS)) {
+      output.push(this.flushPage(0));
+    }
+
+    this.pending.push(packet);
+    this.pendingSamples += samples;
+    return Buffer.concat(output);
+  }
+
+  /**
+   * Finish the stream with an end-of-stream page
+   */
+  end(): Buffer {
+    if (this.ended) {
+      return Buffer.alloc(0);
+    }
+
+    const output = [this.writeHeaders()];
+    if (this.pending.length === 0) {
+      // An empty EOS page still terminates the logical stream
+      output.push(...this.buildPages([], OGG_FLAG_EOS, this.granulePosition));
+    } else {
+      output.push(this.flushPage(OGG_FLAG_EOS));
+    }
+    this.ended = true;
+    return Buffer.concat(output);
+  }
+
+  /**
+   * Encode pending packets into page(s)
+   */
+  private flushPage(flags: number): Buffer {
+    this.granulePosition += this.pendingSamples;
+    const pages = this.buildPages(this.pending, flags, this.granulePosition);
+    this.pending = [];
+    this.pendingSamples = 0;
+    return Buffer.concat(pages);
+  }
+
+  /**
+   * Lay packets out over as many pages as their lacing values require
+   *
+   * The granule position goes on the page where the last packet completes;
+   * earlier pages carrying only a packet prefix get -1.
+   */
+  private buildPages(packets: Buffer[], flags: number, granulePosition: number): Buffer[] {
+    // Lacing values and body slices
+    const lacing: number[] = [];
+    for (const packet of packets) {
+      let remaining = packet.length;
+      while (remaining >= 255) {
+        lacing.push(255);
+        remaining -= 255;
+      }
+      lacing.push(remaining);
+    }
+    const body = Buffer.concat(packets);
+
+    const pages: Buffer[] = [];
+    let lacingIndex = 0;
+    let bodyOffset = 0;
+    let continued = false;
+
+    do {
+      const pageLacing = lacing.slice(lacingIndex, lacingIndex + MAX_PAGE_SEGMENTS);
+      lacingIndex += pageLacing.length;
+      const isLast = lacingIndex >= lacing.length;
+      const bodySize = pageLacing.reduce((n, value) => n + value, 0);
+
+      const header = Buffer.alloc(OGG_HEADER_SIZE + pageLacing.length);
+      OGG_CAPTURE.copy(header, 0);
+      header[4] = 0;                                                         // Version
+      header[5] = (continued ? OGG_FLAG_CONTINUED : 0) |
+        (pages.length === 0 ? flags & OGG_FLAG_BOS : 0) |
+        (isLast ? flags & OGG_FLAG_EOS : 0);
+      header.writeBigInt64LE(BigInt(isLast ? granulePosition : -1), 6);
+      header.writeUInt32LE(this.options.serialNumber, 14);
+      header.writeUInt32LE(this.sequenceNumber++, 18);
+      header[26] = pageLacing.length;
+      Buffer.from(pageLacing).copy(header, OGG_HEADER_SIZE);
+
+      const page = Buffer.concat([header, body.subarray(bodyOffset, bodyOffset + bodySize)]);
+      page.writeUInt32LE(oggCrc32(page), 22);
+      pages.push(page);
+
+      bodyOffset += bodySize;
+      continued = pageLacing.length > 0 && pageLacing[pageLacing.length - 1] === 255;
+    } while (lacingIndex < lacing.length);
+
+    return pages;
+  }
+}
+
+/**
+ * Ogg Opus Encoder Stream
+ *
+ * Transform from raw Opus packets (one Buffer per write) to Ogg Opus bytes.
+ */
+export class OggOpusEncoderStream extends Transform {
+  private readonly muxer: OggOpusMuxer;
+
+  constructor(options: OggOpusMuxerOptions = {}) {
+    super({ writableObjectMode: true });
+    this.muxer = new OggOpusMuxer(options);
+  }
+
+  _transform(packet: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      const output = this.muxer.writePacket(Buffer.isBuffer(packet) ? packet : Buffer.from(packet, encoding));
+      if (output.length > 0) {
+        this.push(output);
+      }
+      callback();
+    } catch (error: any) {
+      callback(error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.push(this.muxer.end());
+    callback();
+  }
+}
+
+/**
+ * Ogg Opus File Writer
+ *
+ * Writable sink saving raw Opus packets as a playable .opus file; 'finish'
+ * is emitted once the file has been fully written and closed.
+ */
+export class OggOpusFileWriter extends Writable {
+  private readonly muxer: OggOpusMuxer;
+  private readonly file: fs.WriteStream;
+
+  constructor(path: string, options: OggOpusMuxerOptions = {}) {
+    super({ objectMode: true });
+    this.muxer = new OggOpusMuxer(options);
+    this.file = fs.createWriteStream(path);
+    this.file.on('error', (error) => this.destroy(error));
+  }
+
+  _write(packet: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    let output: Buffer;
+    try {
+      output = this.muxer.writePacket(Buffer.isBuffer(packet) ? packet : Buffer.from(packet, encoding));
+    } catch (error: any) {
+      callback(error);
+      return;
+    }
+
+    if (output.length === 0) {
+      callback();
+      return;
+    }
+    this.file.write(output, callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.file.end(this.muxer.end(), () => callback());
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.file.destroy();
+    callback(error);
+  }
+}
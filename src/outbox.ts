@@ -0,0 +1,137 @@
+/**
+ * StreamInd SDK Offline Outbox
+ *
+ * Bounded in-memory queue for outbound messages while a terminal is reconnecting
+ */
+
+import { OverflowPolicy } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Queued outbound message
+ */
+export interface OutboxEntry {
+  /** Message kind (used for statistics when flushed) */
+  kind: 'signal' | 'binary';
+
+  /** Encoded message (JSON text or framed binary) */
+  data: string | Buffer;
+
+  /** Enqueue time (ms since epoch) */
+  enqueuedAt: number;
+
+  /** Expiry time (ms since epoch, 0 = never) */
+  expiresAt: number;
+}
+
+/**
+ * Offline Outbox
+ */
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private droppedCount: number = 0;
+  private expiredCount: number = 0;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly policy: OverflowPolicy,
+    private readonly defaultTtlMs: number,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Enqueue a message
+   *
+   * @param ttlMs Time-to-live override (0 = never expire, undefined = default)
+   * @returns true if queued, false if dropped by 'drop-newest' policy
+   * @throws StreamIndError(QUEUE_FULL) when the policy is 'reject'
+   */
+  push(kind: OutboxEntry['kind'], data: string | Buffer, ttlMs?: number): boolean {
+    const now = this.clock.now();
+    this.purgeExpired(now);
+
+    if (this.entries.length >= this.maxSize) {
+      switch (this.policy) {
+        case 'reject':
+          throw new StreamIndError(ErrorCode.QUEUE_FULL);
+        case 'drop-newest':
+          this.droppedCount++;
+          return false;
+        case 'drop-oldest':
+          this.entries.shift();
+          this.droppedCount++;
+          break;
+      }
+    }
+
+    const ttl = ttlMs ?? this.defaultTtlMs;
+    this.entries.push({
+      kind,
+      data,
+      enqueuedAt: now,
+      expiresAt: ttl > 0 ? now + ttl : 0
+    });
+    return true;
+  }
+
+  /**
+   * Take the oldest unexpired message
+   */
+  shift(): OutboxEntry | undefined {
+    this.purgeExpired(this.clock.now());
+    return this.entries.shift();
+  }
+
+  /**
+   * Put a message back at the head of the queue (e.g. after a failed send)
+   */
+  unshift(entry: OutboxEntry): void {
+    this.entries.unshift(entry);
+  }
+
+  /**
+   * Number of queued messages
+   */
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Number of messages dropped due to overflow
+   */
+  dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Number of messages discarded after their TTL elapsed
+   */
+  expired(): number {
+    return this.expiredCount;
+  }
+
+  /**
+   * Reset drop/expiry counters
+   */
+  resetCounters(): void {
+    this.droppedCount = 0;
+    this.expiredCount = 0;
+  }
+
+  /**
+   * Remove all queued messages
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Drop entries whose TTL has elapsed
+   */
+  private purgeExpired(now: number): void {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.expiresAt === 0 || entry.expiresAt > now);
+    this.expiredCount += before - this.entries.length;
+  }
+}
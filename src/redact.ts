@@ -0,0 +1,215 @@
+/**
+ * StreamInd SDK Redaction
+ *
+ * Masks credentials in URLs, log records, captures and object dumps
+ */
+
+import { Logger, LogFields } from './logger';
+
+/**
+ * Replacement for masked values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Keys masked by default (matched case-insensitively)
+ */
+export const DEFAULT_SENSITIVE_KEYS: readonly string[] = [
+  'productKey',
+  'password',
+  'secret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'apiKey',
+  'authorization'
+];
+
+/** Literal secrets shorter than this are not searched for in text */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Redactor
+ *
+ * Masks by structure: fields and query parameters named by a sensitive key
+ * (matched case-insensitively) and URL passwords. Free text such as log and
+ * error messages is not pattern-matched; only the given literal secrets
+ * (e.g. the productKey value) are replaced in it.
+ */
+export class Redactor {
+  private readonly keys: Set<string>;
+  private readonly secrets: string[];
+
+  /**
+   * @param keys Sensitive keys (default: DEFAULT_SENSITIVE_KEYS)
+   * @param secrets Literal values masked wherever they appear
+   */
+  constructor(keys: readonly string[] = DEFAULT_SENSITIVE_KEYS, secrets: readonly string[] = []) {
+    this.keys = new Set(keys.map((key) => key.toLowerCase()));
+    this.secrets = secrets.filter((secret) => secret && secret.length >= MIN_SECRET_LENGTH);
+  }
+
+  /**
+   * Sensitive keys (lower case)
+   */
+  getSensitiveKeys(): string[] {
+    return Array.from(this.keys);
+  }
+
+  /**
+   * Whether values under the key are masked
+   */
+  isSensitiveKey(key: string): boolean {
+    return this.keys.has(key.toLowerCase());
+  }
+
+  /**
+   * Mask the password and sensitive query parameters of a URL
+   */
+  url(url: string): string {
+    const hashIndex = url.indexOf('#');
+    const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+    const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+    const queryIndex = withoutHash.indexOf('?');
+    const base = (queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex))
+      .replace(/^([a-z][a-z0-9+.-]*:\/\/[^/?#@:]*:)[^/?#@]*@/i, `$1${REDACTED}@`);
+    if (queryIndex === -1) {
+      return this.text(base + hash);
+    }
+
+    const query = withoutHash.slice(queryIndex + 1).split('&').map((parameter) => {
+      const equals = parameter.indexOf('=');
+      if (equals === -1 || !this.isSensitiveKey(decodeName(parameter.slice(0, equals)))) {
+        return parameter;
+      }
+      return `${parameter.slice(0, equals)}=${REDACTED}`;
+    });
+    return this.text(`${base}?${query.join('&')}${hash}`);
+  }
+
+  /**
+   * Mask the literal secrets in free text
+   */
+  text(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Copy of a value with sensitive fields masked
+   *
+   * Plain objects and arrays are copied recursively and strings are passed
+   * through text(); other values are returned as they are.
+   */
+  value<T>(value: T): T {
+    return this.redactInner(value, new WeakSet()) as T;
+  }
+
+  /**
+   * Wrap a logger so messages and fields are redacted before they are written
+   */
+  logger(logger: Logger): Logger {
+    const message = (text: string): string => this.text(text);
+    const fields = (values?: LogFields): LogFields | undefined => (values ? this.value(values) : values);
+    return {
+      debug: (text, values) => logger.debug(message(text), fields(values)),
+      info: (text, values) => logger.info(message(text), fields(values)),
+      warn: (text, values) => logger.warn(message(text), fields(values)),
+      error: (text, values) => logger.error(message(text), fields(values))
+    };
+  }
+
+  /**
+   * Recursive part of value(), tracking the containers being copied
+   */
+  private redactInner(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.text(value);
+    }
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+      let copy: unknown;
+      if (Array.isArray(value)) {
+        copy = value.map((item) => this.redactInner(item, seen));
+      } else {
+        const fields: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+          fields[key] = this.isSensitiveKey(key) && item !== undefined && item !== null && item !== ''
+            ? REDACTED
+            : this.redactInner(item, seen);
+        }
+        copy = fields;
+      }
+      seen.delete(value);
+      return copy;
+    }
+    return value;
+  }
+}
+
+/** Redactor with the default keys */
+const defaultRedactor = new Redactor();
+
+/**
+ * Whether values under the key are masked by default
+ */
+export function isSensitiveKey(key: string): boolean {
+  return defaultRedactor.isSensitiveKey(key);
+}
+
+/**
+ * Mask the password and sensitive query parameters of a URL (default keys)
+ */
+export function redactUrl(url: string): string {
+  return defaultRedactor.url(url);
+}
+
+/**
+ * Mask the given literal secrets in free text
+ */
+export function redactText(text: string, secrets: readonly string[] = []): string {
+  return new Redactor(DEFAULT_SENSITIVE_KEYS, secrets).text(text);
+}
+
+/**
+ * Copy of a value with sensitive fields (default keys) and the given literal secrets masked
+ */
+export function redactValue<T>(value: T, secrets: readonly string[] = []): T {
+  return new Redactor(DEFAULT_SENSITIVE_KEYS, secrets).value(value);
+}
+
+/**
+ * Wrap a logger so messages and fields are redacted (default keys) before they are written
+ */
+export function redactLogger(logger: Logger, secrets: readonly string[] = []): Logger {
+  return new Redactor(DEFAULT_SENSITIVE_KEYS, secrets).logger(logger);
+}
+
+/**
+ * Decoded query parameter name (the raw name if it is malformed)
+ */
+function decodeName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch (e) {
+    return name;
+  }
+}
+
+/**
+ * Object literal or Object.create(null) (not a class instance)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
@@ -0,0 +1,523 @@
+/**
+ * StreamInd SDK Schema Validation
+ *
+ * JSON Schema (draft 2020-12 subset) validator and per-name schema registry.
+ *
+ * Supported keywords:
+ * - Any:     type, enum, const, allOf, anyOf, oneOf, not, $ref (local "#/$defs/..." only)
+ * - Number:  minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf
+ * - String:  minLength, maxLength, pattern
+ * - Object:  properties, required, additionalProperties, minProperties, maxProperties
+ * - Array:   items, prefixItems, minItems, maxItems, uniqueItems
+ *
+ * Other keywords (format, title, description, ...) are ignored.
+ *
+ * Schemas are compiled before use: references are resolved and patterns
+ * built once, so a broken schema is rejected when registered rather than
+ * when the first value is validated.
+ */
+
+import { ErrorCode, StreamIndError } from './errors';
+
+/**
+ * JSON Schema document (or boolean schema)
+ */
+export type JsonSchema = boolean | JsonSchemaObject;
+
+/**
+ * JSON Schema object
+ */
+export interface JsonSchemaObject {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  [keyword: string]: unknown;
+}
+
+/**
+ * JSON Schema type names
+ */
+export type JsonSchemaType = 'null' | 'boolean' | 'object' | 'array' | 'number' | 'integer' | 'string';
+
+/**
+ * Validation failure at a JSON Pointer path ("" is the root)
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validation mode: reject invalid data, log and continue, or skip validation
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/** Valid values of the type keyword */
+const SCHEMA_TYPES: JsonSchemaType[] = ['null', 'boolean', 'object', 'array', 'number', 'integer', 'string'];
+
+/**
+ * Compiled schema state shared by every node of one validation
+ */
+interface SchemaContext {
+  root: JsonSchema;
+
+  /** Resolved targets by $ref */
+  refs: Map<string, JsonSchema>;
+
+  /** Compiled regular expressions by pattern */
+  patterns: Map<string, RegExp>;
+}
+
+/**
+ * JSON type name of a value
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Structural equality of JSON values
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every((key) => jsonEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Escape a property name for a JSON Pointer
+ */
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * Whether a value can be used as a schema (object or boolean)
+ */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'boolean' || (typeof value === 'object' && value !== null && !Array.isArray(value));
+}
+
+/**
+ * Format errors as "path: message; ..." (root shown as "/")
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((error) => `${error.path || '/'}: ${error.message}`).join('; ');
+}
+
+/**
+ * Compiled Schema
+ *
+ * A schema whose references resolve and whose patterns are valid regular expressions.
+ */
+export class CompiledSchema {
+  private constructor(private readonly context: SchemaContext) {}
+
+  /**
+   * Compile a schema
+   *
+   * @throws StreamIndError(INVALID_PARAMETER) listing every problem, with JSON Pointer paths into the schema
+   */
+  static compile(schema: JsonSchema): CompiledSchema {
+    const context: SchemaContext = { root: schema, refs: new Map(), patterns: new Map() };
+    const errors: SchemaError[] = [];
+    compileNode(schema, '', context, errors);
+    if (errors.length > 0) {
+      throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `Invalid schema: ${formatSchemaErrors(errors)}`);
+    }
+    return new CompiledSchema(context);
+  }
+
+  /**
+   * Validate a value
+   *
+   * @returns Every failure found (empty if valid)
+   */
+  validate(value: unknown): SchemaError[] {
+    const errors: SchemaError[] = [];
+    validateNode(this.context.root, value, '', this.context, errors);
+    return errors;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns Every failure found (empty if valid)
+ * @throws StreamIndError(INVALID_PARAMETER) if the schema does not compile
+ */
+export function validateSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  return CompiledSchema.compile(schema).validate(value);
+}
+
+/**
+ * Check one schema node and its subschemas, resolving references and compiling patterns
+ */
+function compileNode(schema: unknown, path: string, context: SchemaContext, errors: SchemaError[]): void {
+  if (!isJsonSchema(schema)) {
+    errors.push({ path, message: 'must be an object or boolean' });
+    return;
+  }
+  if (typeof schema === 'boolean') {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || !types.every((type) => SCHEMA_TYPES.includes(type))) {
+      errors.push({ path: pointer(path, 'type'), message: `must be one of ${SCHEMA_TYPES.join(', ')}, or an array of them` });
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    errors.push({ path: pointer(path, 'enum'), message: 'must be an array' });
+  }
+  if (schema.required !== undefined &&
+      !(Array.isArray(schema.required) && schema.required.every((key) => typeof key === 'string'))) {
+    errors.push({ path: pointer(path, 'required'), message: 'must be an array of strings' });
+  }
+
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== 'string') {
+      errors.push({ path: pointer(path, 'pattern'), message: 'must be a string' });
+    } else if (!context.patterns.has(schema.pattern)) {
+      try {
+        context.patterns.set(schema.pattern, new RegExp(schema.pattern, 'u'));
+      } catch (error: any) {
+        errors.push({ path: pointer(path, 'pattern'), message: `is not a valid regular expression (${error.message})` });
+      }
+    }
+  }
+
+  if (schema.$ref !== undefined) {
+    const problem = resolveRef(schema.$ref, context);
+    if (problem) {
+      errors.push({ path: pointer(path, '$ref'), message: problem });
+    }
+  }
+
+  // Subschemas
+  for (const keyword of ['not', 'items', 'additionalProperties'] as const) {
+    if (schema[keyword] !== undefined) {
+      compileNode(schema[keyword], pointer(path, keyword), context, errors);
+    }
+  }
+  for (const keyword of ['allOf', 'anyOf', 'oneOf', 'prefixItems'] as const) {
+    const list = schema[keyword];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      errors.push({ path: pointer(path, keyword), message: 'must be an array of schemas' });
+      continue;
+    }
+    list.forEach((subschema, index) => compileNode(subschema, pointer(pointer(path, keyword), index), context, errors));
+  }
+  for (const keyword of ['properties', '$defs'] as const) {
+    const map = schema[keyword];
+    if (map === undefined) {
+      continue;
+    }
+    if (typeof map !== 'object' || map === null || Array.isArray(map)) {
+      errors.push({ path: pointer(path, keyword), message: 'must be an object of schemas' });
+      continue;
+    }
+    for (const [key, subschema] of Object.entries(map)) {
+      compileNode(subschema, pointer(pointer(path, keyword), key), context, errors);
+    }
+  }
+}
+
+/**
+ * Resolve a local "#/$defs/name" reference into context.refs, following chains of references
+ *
+ * @returns Problem description, or null if the reference resolves
+ */
+function resolveRef(ref: unknown, context: SchemaContext): string | null {
+  const seen = new Set<string>();
+  let current = ref;
+  while (true) {
+    if (typeof current !== 'string') {
+      return 'must be a string';
+    }
+    if (seen.has(current)) {
+      return `circular reference ${current}`;
+    }
+    seen.add(current);
+
+    const match = /^#\/\$defs\/(.+)$/.exec(current);
+    const name = match ? match[1].replace(/~1/g, '/').replace(/~0/g, '~') : '';
+    const root = context.root;
+    const defs = typeof root === 'object' && typeof root.$defs === 'object' && root.$defs !== null ? root.$defs : undefined;
+    const target = defs && Object.prototype.hasOwnProperty.call(defs, name) ? defs[name] : undefined;
+    if (target === undefined) {
+      return `cannot resolve ${current} (only local "#/$defs/..." references are supported)`;
+    }
+    context.refs.set(current, target);
+
+    // A definition that is itself only a reference must not lead back here
+    if (typeof target !== 'object' || target === null || target.$ref === undefined) {
+      return null;
+    }
+    current = target.$ref;
+  }
+}
+
+/**
+ * Validate one schema node
+ */
+function validateNode(schema: JsonSchema, value: unknown, path: string, context: SchemaContext, errors: SchemaError[]): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({ path, message: 'not allowed' });
+    return;
+  }
+
+  if (schema.$ref !== undefined) {
+    validateNode(context.refs.get(schema.$ref)!, value, path, context, errors);
+  }
+
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${actual}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !jsonEqual(value, schema.const)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => jsonEqual(value, option))) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(schema, value, path, errors);
+  } else if (typeof value === 'string') {
+    validateString(schema, value, path, context, errors);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, context, errors);
+  } else if (actual === 'object') {
+    validateObject(schema, value as Record<string, unknown>, path, context, errors);
+  }
+
+  validateCombinators(schema, value, path, context, errors);
+}
+
+/**
+ * Numeric keywords
+ */
+function validateNumber(schema: JsonSchemaObject, value: number, path: string, errors: SchemaError[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}, got ${value}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `must be <= ${schema.maximum}, got ${value}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be > ${schema.exclusiveMinimum}, got ${value}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be < ${schema.exclusiveMaximum}, got ${value}` });
+  }
+  if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+}
+
+/**
+ * String keywords
+ */
+function validateString(schema: JsonSchemaObject, value: string, path: string, context: SchemaContext, errors: SchemaError[]): void {
+  // Length counts code points, not UTF-16 units
+  const length = Array.from(value).length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !context.patterns.get(schema.pattern)!.test(value)) {
+    errors.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+}
+
+/**
+ * Array keywords
+ */
+function validateArray(schema: JsonSchemaObject, value: unknown[], path: string, context: SchemaContext, errors: SchemaError[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+  if (schema.uniqueItems) {
+    for (let i = 1; i < value.length; i++) {
+      if (value.slice(0, i).some((item) => jsonEqual(item, value[i]))) {
+        errors.push({ path: pointer(path, i), message: 'duplicate item' });
+      }
+    }
+  }
+
+  const prefix = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefix.length ? prefix[index] : schema.items;
+    if (itemSchema !== undefined) {
+      validateNode(itemSchema, item, pointer(path, index), context, errors);
+    }
+  });
+}
+
+/**
+ * Object keywords
+ */
+function validateObject(
+  schema: JsonSchemaObject,
+  value: Record<string, unknown>,
+  path: string,
+  context: SchemaContext,
+  errors: SchemaError[]
+): void {
+  const keys = Object.keys(value);
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    errors.push({ path, message: `must have at least ${schema.minProperties} properties` });
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    errors.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+  }
+
+  for (const key of schema.required ?? []) {
+    if (!Object.prototype.hasOwnProperty.call(value, key)) {
+      errors.push({ path: pointer(path, key), message: 'is required' });
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const key of keys) {
+    if (Object.prototype.hasOwnProperty.call(properties, key)) {
+      validateNode(properties[key], value[key], pointer(path, key), context, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: pointer(path, key), message: 'is not allowed' });
+    } else if (schema.additionalProperties !== undefined) {
+      validateNode(schema.additionalProperties, value[key], pointer(path, key), context, errors);
+    }
+  }
+}
+
+/**
+ * allOf / anyOf / oneOf / not
+ */
+function validateCombinators(schema: JsonSchemaObject, value: unknown, path: string, context: SchemaContext, errors: SchemaError[]): void {
+  for (const subschema of schema.allOf ?? []) {
+    validateNode(subschema, value, path, context, errors);
+  }
+
+  if (schema.anyOf !== undefined && !schema.anyOf.some((subschema) => matches(subschema, value, context))) {
+    errors.push({ path, message: 'must match at least one schema in anyOf' });
+  }
+
+  if (schema.oneOf !== undefined) {
+    const matched = schema.oneOf.filter((subschema) => matches(subschema, value, context)).length;
+    if (matched !== 1) {
+      errors.push({ path, message: `must match exactly one schema in oneOf (matched ${matched})` });
+    }
+  }
+
+  if (schema.not !== undefined && matches(schema.not, value, context)) {
+    errors.push({ path, message: 'must not match schema in not' });
+  }
+}
+
+/**
+ * Whether a value is valid against a subschema
+ */
+function matches(schema: JsonSchema, value: unknown, context: SchemaContext): boolean {
+  const errors: SchemaError[] = [];
+  validateNode(schema, value, '', context, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Schema Registry
+ *
+ * Holds one compiled schema per name (signal type or directive name).
+ */
+export class SchemaRegistry {
+  private schemas: Map<string, CompiledSchema> = new Map();
+
+  /**
+   * Compile and register (or replace) the schema for a name
+   *
+   * @throws StreamIndError(INVALID_PARAMETER) if the schema does not compile; a previous schema stays registered
+   */
+  register(name: string, schema: JsonSchema): void {
+    this.schemas.set(name, CompiledSchema.compile(schema));
+  }
+
+  /**
+   * Remove the schema for a name
+   *
+   * @returns true if a schema was registered
+   */
+  unregister(name: string): boolean {
+    return this.schemas.delete(name);
+  }
+
+  /**
+   * Whether a schema is registered for a name
+   */
+  has(name: string): boolean {
+    return this.schemas.has(name);
+  }
+
+  /**
+   * Validate data against the schema registered for a name
+   *
+   * @returns Failures (empty if valid or no schema is registered)
+   */
+  validate(name: string, data: unknown): SchemaError[] {
+    const schema = this.schemas.get(name);
+    return schema === undefined ? [] : schema.validate(data);
+  }
+}
@@ -4,9 +4,37 @@
  * Multi-terminal management, high-performance async operations
  */
 
-import { Config, Signal, Directive, Statistics } from './models';
-import { ErrorCode } from './errors';
-import { WebSocketTransport, ConnectionCallback, DirectiveCallback, AudioDataCallback, ErrorCallback, CloseCallback } from './transport';
+import * as fs from 'fs';
+import { Config, Signal, Directive, DirectiveStatus, Statistics, SendOptions } from './models';
+import { ErrorCode, StreamIndError } from './errors';
+import { LargeBinaryOptions } from './fragment';
+import { AudioSessionCallback, AudioStreamSession } from './audio-session';
+import { DirectiveRouter, DirectivePattern, DirectiveHandler, DirectiveMiddleware } from './directive-router';
+import { TypedEventEmitter } from './events';
+import { Catalog, DefaultCatalog, SignalType, SignalPayload, DirectiveName, CatalogDirective, WildcardPattern } from './catalog';
+import { EventIterator, EventIteratorOptions } from './event-iterator';
+import { BinaryFrame } from './frame';
+import { SchemaRegistry, JsonSchema, SchemaError } from './schema';
+import { Logger } from './logger';
+import { DEFAULT_SENSITIVE_KEYS, Redactor } from './redact';
+import { Tracer, noopTracer } from './tracing';
+import { Clock, RandomSource, systemClock, sleep } from './clock';
+import { Recorder, FileRecorder, CaptureRecord, ReplayOptions, readCapture, replayCapture } from './capture';
+import { MetricsRegistry, MetricsSnapshot, withLabels, mergeSnapshots, formatPrometheus } from './metrics';
+import { demuxOggOpus } from './ogg-opus';
+import { AudioPacer, AudioPacerOptions } from './audio-pacer';
+import { AudioWriteStream, AudioWriteStreamOptions, BinaryReadStream, BinaryReadStreamOptions } from './streams';
+import {
+  WebSocketTransport,
+  TerminalEvents,
+  ConnectionStateChange,
+  ConnectionCallback,
+  DirectiveCallback,
+  AudioDataCallback,
+  BinaryDataCallback,
+  ErrorCallback,
+  CloseCallback
+} from './transport';
 
 /**
  * Terminal instance
@@ -14,31 +42,78 @@ import { WebSocketTransport, ConnectionCallback, DirectiveCallback, AudioDataCal
 interface Terminal {
   config: Config;
   transport: WebSocketTransport;
+  router: DirectiveRouter;
 }
 
+/**
+ * SDK options
+ */
+export interface SDKOptions {
+  /** Time and timer source of terminals without Config.clock (default: system clock) */
+  clock?: Clock;
+
+  /** Random source of terminals without Config.random (default: Math.random) */
+  random?: RandomSource;
+
+  /** Sensitive keys of the SDK logger and of terminals without Config.sensitiveKeys (default: DEFAULT_SENSITIVE_KEYS) */
+  sensitiveKeys?: string[];
+}
+
+/**
+ * Ogg Opus send options
+ */
+export interface OggOpusSendOptions {
+  /** Pace packets in real time on the terminal clock according to their timestamps (default: false) */
+  realtime?: boolean;
+
+  /** Stops sending when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * SDK events: terminal events prefixed with the terminal ID
+ */
+export type SDKEvents = {
+  [K in keyof TerminalEvents]: [terminalId: string, ...args: TerminalEvents[K]];
+};
+
 /**
  * Global callback types (with terminal_id parameter)
  */
 type GlobalConnectionCallback = (terminalId: string, connected: boolean, errorMessage: string) => void;
-type GlobalDirectiveCallback = (terminalId: string, directive: Directive) => void;
+type GlobalDirectiveCallback = (terminalId: string, directive: Directive) => void | Promise<unknown>;
 type GlobalErrorCallback = (terminalId: string, errorCode: ErrorCode, message: string) => void;
 type GlobalCloseCallback = (terminalId: string, code: number, reason: string) => void;
 
 /**
  * StreamInd SDK
  *
- * High-performance WebSocket SDK with multi-terminal support
+ * High-performance WebSocket SDK with multi-terminal support. Events of every
+ * terminal are re-emitted on the SDK with the terminal ID as first argument,
+ * after the terminal's own listeners have run.
+ *
+ * C is an optional catalog typing signal payloads and directive parameters.
  */
-export class SDK {
+export class SDK<C extends Catalog = DefaultCatalog> extends TypedEventEmitter<SDKEvents> {
   private static readonly VERSION = '1.0.0';
   private terminals: Map<string, Terminal> = new Map();
   private lastError: string = '';
+  private globalRouter: DirectiveRouter = new DirectiveRouter();
+  private signalSchemas: SchemaRegistry = new SchemaRegistry();
+  private directiveSchemas: SchemaRegistry = new SchemaRegistry();
+  private metrics: MetricsRegistry = new MetricsRegistry();
+  private tracer: Tracer = noopTracer;
+  private clock: Clock;
+  private random: RandomSource;
+  private sensitiveKeys: string[];
 
-  // Global callbacks
-  private globalConnectionCallback: GlobalConnectionCallback | null = null;
-  private globalDirectiveCallback: GlobalDirectiveCallback | null = null;
-  private globalErrorCallback: GlobalErrorCallback | null = null;
-  private globalCloseCallback: GlobalCloseCallback | null = null;
+  constructor(options: SDKOptions = {}) {
+    super();
+    this.clock = options.clock ?? systemClock;
+    this.random = options.random ?? Math.random;
+    this.sensitiveKeys = options.sensitiveKeys ?? [...DEFAULT_SENSITIVE_KEYS];
+    this.metrics.gauge('streamind_terminals', 'Registered terminals', () => this.terminals.size);
+  }
 
   /**
    * Get SDK version
@@ -49,6 +124,8 @@ export class SDK {
 
   /**
    * Register a terminal
+   *
+   * @returns ErrorCode.INVALID_CONFIG if the configuration is invalid (every invalid field is listed in the last error)
    */
   registerTerminal(terminalId: string, config: Config): ErrorCode {
     if (this.terminals.has(terminalId)) {
@@ -56,34 +133,32 @@ export class SDK {
       return ErrorCode.ALREADY_INITIALIZED;
     }
 
-    const transport = new WebSocketTransport(config);
-
-    // Apply global callbacks if set
-    if (this.globalConnectionCallback) {
-      transport.setConnectionCallback((connected, errorMessage) => {
-        this.globalConnectionCallback!(terminalId, connected, errorMessage);
-      });
-    }
-
-    if (this.globalDirectiveCallback) {
-      transport.setDirectiveCallback((directive) => {
-        this.globalDirectiveCallback!(terminalId, directive);
+    let transport: WebSocketTransport;
+    try {
+      transport = new WebSocketTransport({
+        ...config,
+        clock: config.clock ?? this.clock,
+        random: config.random ?? this.random,
+        sensitiveKeys: config.sensitiveKeys ?? this.sensitiveKeys
       });
+    } catch (error: any) {
+      this.lastError = error.message;
+      return error instanceof StreamIndError ? error.code : ErrorCode.INVALID_CONFIG;
     }
+    transport.setLogger(config.logger ?? this.logger, { terminalId });
+    transport.setTracer(config.tracer ?? this.tracer);
 
-    if (this.globalErrorCallback) {
-      transport.setErrorCallback((errorCode, message) => {
-        this.globalErrorCallback!(terminalId, errorCode, message);
-      });
-    }
+    // Re-emit terminal events on the SDK
+    transport.onAny((event, args) => {
+      this.emit(event, ...([terminalId, ...args] as SDKEvents[typeof event]));
+    });
 
-    if (this.globalCloseCallback) {
-      transport.setCloseCallback((code, reason) => {
-        this.globalCloseCallback!(terminalId, code, reason);
-      });
-    }
+    const router = new DirectiveRouter(this.globalRouter);
+    transport.setDirectiveRouter(router);
+    transport.setSignalSchemas(this.signalSchemas);
+    transport.setDirectiveSchemas(this.directiveSchemas);
 
-    this.terminals.set(terminalId, { config, transport });
+    this.terminals.set(terminalId, { config, transport, router });
     return ErrorCode.OK;
   }
 
@@ -101,6 +176,8 @@ export class SDK {
     if (terminal.transport.isConnected()) {
       await terminal.transport.disconnect();
     }
+    terminal.transport.endIterators();
+    await terminal.transport.setRecorder(null);
 
     this.terminals.delete(terminalId);
     return ErrorCode.OK;
@@ -212,8 +289,10 @@ export class SDK {
 
   /**
    * Send signal through a terminal
+   *
+   * @param options Per-message options (e.g. offline queue TTL)
    */
-  async sendSignal(terminalId: string, signal: Signal): Promise<ErrorCode> {
+  async sendSignal(terminalId: string, signal: Signal, options: SendOptions = {}): Promise<ErrorCode> {
     const terminal = this.terminals.get(terminalId);
     if (!terminal) {
       this.lastError = `Terminal ${terminalId} not found`;
@@ -221,7 +300,7 @@ export class SDK {
     }
 
     try {
-      await terminal.transport.sendSignal(signal);
+      await terminal.transport.sendSignal(signal, options);
       return ErrorCode.OK;
     } catch (error: any) {
       this.lastError = error.message;
@@ -249,6 +328,36 @@ export class SDK {
     return results;
   }
 
+  /**
+   * Reply to a directive received by a terminal
+   *
+   * Equivalent to directive.ack() / complete() / fail(); the reply is a
+   * DIRECTIVE_REPLY_SIGNAL signal carrying the directive ID and status.
+   *
+   * @param payload Extra payload fields (e.g. { result } or { error: { code, message } })
+   * @returns ErrorCode.INVALID_PARAMETER if the directive was already completed or failed
+   */
+  async replyToDirective(
+    terminalId: string,
+    directive: Directive,
+    status: DirectiveStatus,
+    payload: Record<string, any> = {}
+  ): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    try {
+      await terminal.transport.replyToDirective(directive, status, payload);
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = error.message;
+      return error.code || ErrorCode.SEND_FAILED;
+    }
+  }
+
   /**
    * Send typed binary data through a terminal
    *
@@ -257,9 +366,40 @@ export class SDK {
    * @param terminalId Terminal identifier
    * @param data Binary data buffer
    * @param dataType Data type identifier (currently only "opus" is verified by platform)
+   * @param options Per-message options (e.g. offline queue TTL)
    * @returns ErrorCode.OK on success, error code otherwise
    */
-  async sendBinaryData(terminalId: string, data: Buffer, dataType: string): Promise<ErrorCode> {
+  async sendBinaryData(terminalId: string, data: Buffer, dataType: string, options: SendOptions = {}): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    try {
+      await terminal.transport.sendBinaryData(data, dataType, options);
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = error.message;
+      return error.code || ErrorCode.SEND_FAILED;
+    }
+  }
+
+  /**
+   * Send binary data of any size through a terminal as a fragmented transfer
+   *
+   * @param terminalId Terminal identifier
+   * @param data Binary data buffer (up to maxTransferSize)
+   * @param dataType Data type identifier of the reassembled data
+   * @param options Chunk size, progress callback and AbortSignal for cancellation
+   * @returns ErrorCode.OK on success, ErrorCode.CANCELLED if aborted, error code otherwise
+   */
+  async sendLargeBinary(
+    terminalId: string,
+    data: Buffer,
+    dataType: string,
+    options: LargeBinaryOptions = {}
+  ): Promise<ErrorCode> {
     const terminal = this.terminals.get(terminalId);
     if (!terminal) {
       this.lastError = `Terminal ${terminalId} not found`;
@@ -267,7 +407,7 @@ export class SDK {
     }
 
     try {
-      await terminal.transport.sendBinaryData(data, dataType);
+      await terminal.transport.sendLargeBinary(data, dataType, options);
       return ErrorCode.OK;
     } catch (error: any) {
       this.lastError = error.message;
@@ -281,10 +421,183 @@ export class SDK {
    * @param terminalId Terminal identifier
    * @param data Audio data buffer
    * @param audioFormat Audio format (default: "opus" - currently the only verified format)
+   * @param options Per-message options (e.g. offline queue TTL)
    * @returns ErrorCode.OK on success, error code otherwise
    */
-  async sendAudioData(terminalId: string, data: Buffer, audioFormat: string = 'opus'): Promise<ErrorCode> {
-    return this.sendBinaryData(terminalId, data, audioFormat);
+  async sendAudioData(terminalId: string, data: Buffer, audioFormat: string = 'opus', options: SendOptions = {}): Promise<ErrorCode> {
+    return this.sendBinaryData(terminalId, data, audioFormat, options);
+  }
+
+  /**
+   * Send an Ogg Opus file or stream packet by packet
+   *
+   * The Ogg container is parsed and each raw Opus packet is sent as an "opus"
+   * frame. With options.realtime, packets are paced by their granule-based
+   * timestamps instead of being sent as fast as possible.
+   *
+   * @param source File path or byte stream (e.g. fs.createReadStream)
+   * @returns ErrorCode.OK on success, ErrorCode.CANCELLED if aborted, ErrorCode.INVALID_MEDIA if the
+   *          data holds no Opus audio, ErrorCode.IO_ERROR if the source cannot be read, error code otherwise
+   */
+  async sendOggOpus(
+    terminalId: string,
+    source: string | AsyncIterable<Buffer | Uint8Array>,
+    options: OggOpusSendOptions = {}
+  ): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    const input = typeof source === 'string' ? fs.createReadStream(source) : source;
+    const clock = terminal.transport.getClock();
+    const startTime = clock.now();
+    let sent = 0;
+
+    try {
+      for await (const packet of demuxOggOpus(input)) {
+        if (options.realtime) {
+          const wait = startTime + packet.timestampMs - clock.now();
+          if (wait > 0) {
+            await sleep(clock, wait, options.signal);
+          }
+        }
+
+        if (options.signal && options.signal.aborted) {
+          this.lastError = 'Ogg Opus transfer cancelled';
+          return ErrorCode.CANCELLED;
+        }
+
+        const code = await this.sendBinaryData(terminalId, packet.data, 'opus');
+        if (code !== ErrorCode.OK) {
+          return code;
+        }
+        sent++;
+      }
+      if (sent === 0) {
+        this.lastError = 'No Opus audio found (missing OpusHead stream or audio packets)';
+        return ErrorCode.INVALID_MEDIA;
+      }
+      return ErrorCode.OK;
+    } catch (error: any) {
+      // Demuxer errors are StreamIndErrors; anything else comes from reading the source
+      this.lastError = error.message;
+      return error instanceof StreamIndError ? error.code : ErrorCode.IO_ERROR;
+    } finally {
+      if (typeof source === 'string') {
+        (input as fs.ReadStream).destroy();
+      }
+    }
+  }
+
+  /**
+   * Create an audio pacer that sends frames through a terminal in real time
+   *
+   * @returns AudioPacer, or null if the terminal is not found
+   */
+  createAudioPacer(terminalId: string, options: AudioPacerOptions = {}): AudioPacer | null {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return null;
+    }
+
+    return new AudioPacer(terminal.transport, options);
+  }
+
+  /**
+   * Create a Writable that sends each chunk as a binary frame through a terminal
+   *
+   * Writes wait while the socket's buffered amount exceeds
+   * options.bufferedAmountHighWaterMark, so write() returns false and 'drain'
+   * is emitted when the socket catches up.
+   *
+   * @returns Writable stream, or null if the terminal is not found
+   */
+  createAudioWriteStream(
+    terminalId: string,
+    dataType: string = 'opus',
+    options: AudioWriteStreamOptions = {}
+  ): AudioWriteStream | null {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return null;
+    }
+
+    return new AudioWriteStream(terminal.transport, dataType, options);
+  }
+
+  /**
+   * Create a Readable emitting inbound binary payloads of a terminal (one Buffer per frame)
+   *
+   * The socket is paused while the consumer falls behind. The stream ends on disconnect().
+   *
+   * @returns Readable stream, or null if the terminal is not found
+   */
+  createBinaryReadStream(terminalId: string, options: BinaryReadStreamOptions = {}): BinaryReadStream | null {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return null;
+    }
+
+    return new BinaryReadStream(terminal.transport, options);
+  }
+
+  /**
+   * Register the payload schema for a signal type (applies to all terminals)
+   *
+   * Payloads are validated before sending according to Config.signalValidation:
+   * 'strict' rejects invalid signals with ErrorCode.INVALID_SIGNAL, 'warn' logs
+   * and sends them, 'off' skips validation.
+   *
+   * @returns ErrorCode.INVALID_CONFIG if the schema does not compile (e.g. an unresolvable $ref or invalid pattern)
+   */
+  registerSignalSchema(signalType: string, schema: JsonSchema): ErrorCode {
+    return this.registerSchema(this.signalSchemas, signalType, schema);
+  }
+
+  /**
+   * Remove the payload schema for a signal type
+   *
+   * @returns true if a schema was registered
+   */
+  unregisterSignalSchema(signalType: string): boolean {
+    return this.signalSchemas.unregister(signalType);
+  }
+
+  /**
+   * Validate a signal against its registered schema without sending it
+   *
+   * @returns Failures with JSON Pointer paths (empty if valid or no schema is registered)
+   */
+  validateSignal(signal: Signal): SchemaError[] {
+    return this.signalSchemas.validate(signal.type, signal.getPayload().getData());
+  }
+
+  /**
+   * Register the parameter schema for a directive name (applies to all terminals)
+   *
+   * Under Config.directiveValidation 'strict', directives with invalid
+   * parameters are not dispatched: they are reported to the error callback as
+   * ErrorCode.INVALID_DIRECTIVE and, with directiveRejectInvalid, answered
+   * with a 'failed' reply listing the offending fields.
+   *
+   * @returns ErrorCode.INVALID_CONFIG if the schema does not compile (e.g. an unresolvable $ref or invalid pattern)
+   */
+  registerDirectiveSchema(directiveName: string, schema: JsonSchema): ErrorCode {
+    return this.registerSchema(this.directiveSchemas, directiveName, schema);
+  }
+
+  /**
+   * Remove the parameter schema for a directive name
+   *
+   * @returns true if a schema was registered
+   */
+  unregisterDirectiveSchema(directiveName: string): boolean {
+    return this.directiveSchemas.unregister(directiveName);
   }
 
   /**
@@ -305,11 +618,11 @@ export class SDK {
   }
 
   /**
-   * Convenience method: Send JSON signal
+   * Convenience method: Send JSON signal (payload checked against the catalog)
    */
-  async sendJSON(terminalId: string, signalType: string, data: Record<string, any>): Promise<ErrorCode> {
+  async sendJSON<T extends SignalType<C>>(terminalId: string, signalType: T, data: SignalPayload<C, T>): Promise<ErrorCode> {
     const signal = new Signal(signalType);
-    signal.getPayload().setData(data);
+    signal.getPayload().setData(data as Record<string, any>);
     return this.sendSignal(terminalId, signal);
   }
 
@@ -342,7 +655,62 @@ export class SDK {
   }
 
   /**
-   * Set audio data callback for a terminal
+   * Add a directive handler
+   *
+   * Patterns are exact names ("motor.move"), wildcards ("audio.*", "*") or
+   * regular expressions. Matching handlers run in order: the terminal's
+   * first, then those registered for all terminals ('*'). Handler errors are
+   * reported to the error callback as ErrorCode.HANDLER_FAILED.
+   *
+   * With a typed catalog, exact names must be catalog directives and the
+   * handler receives their typed parameters.
+   *
+   * @param terminalId Terminal ID, or '*' for all terminals
+   * @returns Function removing the handler, or null if the terminal is not found
+   */
+  onDirective<N extends DirectiveName<C>>(
+    terminalId: string,
+    name: N,
+    handler: (directive: CatalogDirective<C, N>) => unknown
+  ): (() => void) | null;
+  onDirective(terminalId: string, pattern: WildcardPattern, handler: DirectiveHandler): (() => void) | null;
+  onDirective(terminalId: string, pattern: DirectivePattern, handler: DirectiveHandler): (() => void) | null {
+    const router = this.getDirectiveRouter(terminalId);
+    return router ? router.on(pattern, handler) : null;
+  }
+
+  /**
+   * Add directive middleware (e.g. logging, auth checks)
+   *
+   * Middleware for all terminals ('*') runs before the terminal's own.
+   *
+   * @param terminalId Terminal ID, or '*' for all terminals
+   * @returns Function removing the middleware, or null if the terminal is not found
+   */
+  useDirectiveMiddleware(terminalId: string, middleware: DirectiveMiddleware): (() => void) | null {
+    const router = this.getDirectiveRouter(terminalId);
+    return router ? router.use(middleware) : null;
+  }
+
+  /**
+   * Set the handler for directives no route matches (null to remove)
+   *
+   * A terminal's fallback takes precedence over the one for all terminals ('*').
+   *
+   * @param terminalId Terminal ID, or '*' for all terminals
+   */
+  setDirectiveFallback(terminalId: string, handler: DirectiveHandler | null): ErrorCode {
+    const router = this.getDirectiveRouter(terminalId);
+    if (!router) {
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    router.setFallback(handler);
+    return ErrorCode.OK;
+  }
+
+  /**
+   * Set audio data callback for a terminal (OPUS frames only)
    */
   setAudioDataCallback(terminalId: string, callback: AudioDataCallback): ErrorCode {
     const terminal = this.terminals.get(terminalId);
@@ -355,6 +723,46 @@ export class SDK {
     return ErrorCode.OK;
   }
 
+  /**
+   * Set binary data callback for a terminal (decoded payload with its data type)
+   */
+  setBinaryDataCallback(terminalId: string, callback: BinaryDataCallback): ErrorCode {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    terminal.transport.setBinaryDataCallback(callback);
+    return ErrorCode.OK;
+  }
+
+  /**
+   * Set audio session callback for a terminal
+   *
+   * A session is created for every audio.opus_data_start directive and
+   * yields the following Opus packets until audio.opus_data_end, the idle
+   * timeout or cancellation.
+   */
+  setAudioSessionCallback(terminalId: string, callback: AudioSessionCallback): ErrorCode {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    terminal.transport.setAudioSessionCallback(callback);
+    return ErrorCode.OK;
+  }
+
+  /**
+   * Get active audio sessions of a terminal
+   */
+  getAudioSessions(terminalId: string): AudioStreamSession[] {
+    const terminal = this.terminals.get(terminalId);
+    return terminal ? terminal.transport.getAudioSessions() : [];
+  }
+
   /**
    * Set error callback for a terminal
    */
@@ -385,57 +793,184 @@ export class SDK {
 
   /**
    * Set global connection callback (applies to all terminals)
+   *
+   * Runs alongside per-terminal callbacks; replaces the previous global callback.
    */
   setGlobalConnectionCallback(callback: GlobalConnectionCallback): void {
-    this.globalConnectionCallback = callback;
-
-    // Apply to existing terminals
-    for (const [terminalId, terminal] of this.terminals) {
-      terminal.transport.setConnectionCallback((connected, errorMessage) => {
-        callback(terminalId, connected, errorMessage);
-      });
-    }
+    this.replaceCallback('connection', {
+      connected: (terminalId) => callback(terminalId, true, ''),
+      disconnected: (terminalId, reason) => callback(terminalId, false, reason)
+    });
   }
 
   /**
    * Set global directive callback (applies to all terminals)
+   *
+   * Runs before per-terminal callbacks as a 'directive' listener; replaces the previous
+   * global callback. Its failures are reported as HANDLER_FAILED, but neither its result
+   * nor its failure settles directives under directiveAutoComplete.
    */
   setGlobalDirectiveCallback(callback: GlobalDirectiveCallback): void {
-    this.globalDirectiveCallback = callback;
-
-    // Apply to existing terminals
-    for (const [terminalId, terminal] of this.terminals) {
-      terminal.transport.setDirectiveCallback((directive) => {
-        callback(terminalId, directive);
-      });
-    }
+    this.replaceCallback('directive', {
+      directive: async (terminalId, directive) => {
+        await callback(terminalId, directive);
+      }
+    });
   }
 
   /**
    * Set global error callback (applies to all terminals)
+   *
+   * Runs alongside per-terminal callbacks; replaces the previous global callback.
    */
   setGlobalErrorCallback(callback: GlobalErrorCallback): void {
-    this.globalErrorCallback = callback;
-
-    // Apply to existing terminals
-    for (const [terminalId, terminal] of this.terminals) {
-      terminal.transport.setErrorCallback((errorCode, message) => {
-        callback(terminalId, errorCode, message);
-      });
-    }
+    this.replaceCallback('error', { error: callback });
   }
 
   /**
    * Set global close callback (applies to all terminals)
+   *
+   * Runs alongside per-terminal callbacks; replaces the previous global callback.
    */
   setGlobalCloseCallback(callback: GlobalCloseCallback): void {
-    this.globalCloseCallback = callback;
+    this.replaceCallback('close', { close: callback });
+  }
 
-    // Apply to existing terminals
+  /**
+   * Iterate over directives received by a terminal
+   *
+   *   for await (const directive of sdk.directives('terminal-1')) { ... }
+   *
+   * Iteration completes on disconnect() or unregisterTerminal(), and fails
+   * with TERMINAL_NOT_FOUND if the terminal is not registered.
+   */
+  directives(terminalId: string, options: EventIteratorOptions = {}): EventIterator<Directive> {
+    const terminal = this.terminals.get(terminalId);
+    return terminal ? terminal.transport.directives(options) : this.missingTerminalIterator(terminalId);
+  }
+
+  /**
+   * Iterate over binary data received by a terminal
+   *
+   * Iteration completes on disconnect() or unregisterTerminal().
+   */
+  binaryData(terminalId: string, options: EventIteratorOptions = {}): EventIterator<BinaryFrame> {
+    const terminal = this.terminals.get(terminalId);
+    return terminal ? terminal.transport.binaryData(options) : this.missingTerminalIterator(terminalId);
+  }
+
+  /**
+   * Iterate over connection state changes of a terminal
+   *
+   * Iteration completes on disconnect() or unregisterTerminal().
+   */
+  connectionStates(terminalId: string, options: EventIteratorOptions = {}): EventIterator<ConnectionStateChange> {
+    const terminal = this.terminals.get(terminalId);
+    return terminal ? terminal.transport.connectionStates(options) : this.missingTerminalIterator(terminalId);
+  }
+
+  /**
+   * Set the logger of the SDK and of terminals without Config.logger
+   *
+   * Records carry terminalId, deviceId and (once connected with one) traceId.
+   */
+  setLogger(logger: Logger): void {
+    this.logger = new Redactor(this.sensitiveKeys).logger(logger);
     for (const [terminalId, terminal] of this.terminals) {
-      terminal.transport.setCloseCallback((code, reason) => {
-        callback(terminalId, code, reason);
-      });
+      if (!terminal.config.logger) {
+        terminal.transport.setLogger(logger, { terminalId });
+      }
+    }
+  }
+
+  /**
+   * Set the tracer of terminals without Config.tracer
+   */
+  setTracer(tracer: Tracer): void {
+    this.tracer = tracer;
+    for (const terminal of this.terminals.values()) {
+      if (!terminal.config.tracer) {
+        terminal.transport.setTracer(tracer);
+      }
+    }
+  }
+
+  /**
+   * Get the event emitter of a terminal
+   *
+   * @returns null if the terminal is not found
+   */
+  getTerminalEvents(terminalId: string): TypedEventEmitter<TerminalEvents> | null {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return null;
+    }
+    return terminal.transport;
+  }
+
+  /**
+   * Record a terminal's traffic to a capture file (or a custom recorder)
+   *
+   * Replaces and closes a running recording. Credentials are scrubbed.
+   */
+  async startRecording(terminalId: string, destination: string | Recorder): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    try {
+      await terminal.transport.setRecorder(typeof destination === 'string' ? new FileRecorder(destination) : destination);
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = error.message;
+      return ErrorCode.INTERNAL_ERROR;
+    }
+  }
+
+  /**
+   * Stop recording a terminal's traffic
+   */
+  async stopRecording(terminalId: string): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    try {
+      await terminal.transport.setRecorder(null);
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = error.message;
+      return ErrorCode.INTERNAL_ERROR;
+    }
+  }
+
+  /**
+   * Feed the inbound messages of a capture into a terminal's directive and binary callbacks
+   *
+   * Replies to replayed directives are only sent while the terminal is connected.
+   *
+   * @param source Capture file path or parsed records
+   * @returns ErrorCode.OK on success, ErrorCode.CANCELLED if aborted, error code otherwise
+   */
+  async replayCapture(terminalId: string, source: string | CaptureRecord[], options: ReplayOptions = {}): Promise<ErrorCode> {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return ErrorCode.TERMINAL_NOT_FOUND;
+    }
+
+    try {
+      const records = typeof source === 'string' ? readCapture(source) : source;
+      await replayCapture(records, terminal.transport, { clock: terminal.transport.getClock(), ...options });
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = error.message;
+      return error instanceof StreamIndError ? error.code : ErrorCode.INVALID_PARAMETER;
     }
   }
 
@@ -458,6 +993,34 @@ export class SDK {
     return stats;
   }
 
+  /**
+   * Get a metrics snapshot for a terminal
+   *
+   * @returns null if the terminal is not found
+   */
+  getTerminalMetrics(terminalId: string): MetricsSnapshot | null {
+    const terminal = this.terminals.get(terminalId);
+    return terminal ? terminal.transport.getMetrics() : null;
+  }
+
+  /**
+   * Get a metrics snapshot for the SDK, with terminal series labelled { terminal }
+   */
+  getAllMetrics(): MetricsSnapshot {
+    const snapshots = [this.metrics.snapshot()];
+    for (const [terminalId, terminal] of this.terminals) {
+      snapshots.push(withLabels(terminal.transport.getMetrics(), { terminal: terminalId }));
+    }
+    return mergeSnapshots(snapshots);
+  }
+
+  /**
+   * Get all metrics in the Prometheus text exposition format (serve as text/plain; version=0.0.4)
+   */
+  getMetricsText(): string {
+    return formatPrometheus(this.getAllMetrics());
+  }
+
   /**
    * Get last error message
    */
@@ -471,4 +1034,55 @@ export class SDK {
   clearError(): void {
     this.lastError = '';
   }
+
+  /**
+   * Compile a schema into a registry, keeping the previous schema if it does not compile
+   */
+  private registerSchema(registry: SchemaRegistry, name: string, schema: JsonSchema): ErrorCode {
+    try {
+      registry.register(name, schema);
+      return ErrorCode.OK;
+    } catch (error: any) {
+      this.lastError = `Schema for ${name}: ${error.message}`;
+      return ErrorCode.INVALID_CONFIG;
+    }
+  }
+
+  /**
+   * Report 'directive' listener failures as handler failures of the terminal
+   */
+  protected listenerFailed<K extends keyof SDKEvents>(event: K, args: SDKEvents[K], error: unknown): void {
+    const terminal = event === 'directive' ? this.terminals.get(args[0] as string) : undefined;
+    if (terminal) {
+      terminal.transport.reportHandlerError(args[1] as Directive, error);
+    } else {
+      super.listenerFailed(event, args, error);
+    }
+  }
+
+  /**
+   * Directive router of a terminal, or the global router for '*'
+   */
+  private getDirectiveRouter(terminalId: string): DirectiveRouter | null {
+    if (terminalId === '*') {
+      return this.globalRouter;
+    }
+
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      this.lastError = `Terminal ${terminalId} not found`;
+      return null;
+    }
+    return terminal.router;
+  }
+
+  /**
+   * Iterator failing with TERMINAL_NOT_FOUND
+   */
+  private missingTerminalIterator<T>(terminalId: string): EventIterator<T> {
+    this.lastError = `Terminal ${terminalId} not found`;
+    const iterator = new EventIterator<T>();
+    iterator.fail(new StreamIndError(ErrorCode.TERMINAL_NOT_FOUND, this.lastError));
+    return iterator;
+  }
 }
@@ -0,0 +1,115 @@
+/**
+ * StreamInd SDK Node.js Stream Adapters
+ *
+ * Writable/Readable wrappers over a terminal's binary channel with backpressure
+ */
+
+import { Writable, Readable } from 'stream';
+import { WebSocketTransport } from './transport';
+
+/**
+ * Audio write stream options
+ */
+export interface AudioWriteStreamOptions {
+  /** Pause writing while the socket has more than this many bytes buffered (default: 64KB) */
+  bufferedAmountHighWaterMark?: number;
+
+  /** Number of chunks the stream itself buffers before write() returns false (default: 16) */
+  highWaterMark?: number;
+}
+
+/**
+ * Binary read stream options
+ */
+export interface BinaryReadStreamOptions {
+  /** Only emit data of this type (e.g. "opus"); all types if omitted */
+  dataType?: string;
+
+  /** Number of packets buffered before the socket is paused (default: 16) */
+  highWaterMark?: number;
+}
+
+/**
+ * Audio Write Stream
+ *
+ * Each written Buffer is sent as one 0x82 frame (max 65535 bytes). Writes are
+ * held back while the socket's buffered amount exceeds the high-water mark,
+ * so write() returns false and 'drain' is emitted as with any Node stream.
+ */
+export class AudioWriteStream extends Writable {
+  private readonly bufferedAmountHighWaterMark: number;
+
+  constructor(
+    private readonly transport: WebSocketTransport,
+    private readonly dataType: string,
+    options: AudioWriteStreamOptions = {}
+  ) {
+    super({ objectMode: true, highWaterMark: options.highWaterMark ?? 16 });
+    this.bufferedAmountHighWaterMark = options.bufferedAmountHighWaterMark ?? 64 * 1024;
+  }
+
+  _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+
+    this.transport.waitForBufferedAmount(this.bufferedAmountHighWaterMark)
+      .then(() => this.transport.sendBinaryData(data, this.dataType))
+      .then(() => callback(), (error) => callback(error));
+  }
+}
+
+/**
+ * Binary Read Stream
+ *
+ * Emits decoded inbound payloads, one Buffer per frame. When the consumer
+ * falls behind, the WebSocket is paused until the stream is read again.
+ * The stream ends when the terminal is disconnected.
+ */
+export class BinaryReadStream extends Readable {
+  private readonly dataType: string;
+  private unsubscribe: (() => void) | null;
+  private socketPaused: boolean = false;
+
+  constructor(private readonly transport: WebSocketTransport, options: BinaryReadStreamOptions = {}) {
+    super({ objectMode: true, highWaterMark: options.highWaterMark ?? 16 });
+    this.dataType = (options.dataType || '').toUpperCase();
+
+    this.unsubscribe = transport.addBinaryListener(
+      (data, dataType) => {
+        if (this.dataType && dataType !== this.dataType) {
+          return;
+        }
+        if (!this.push(data) && !this.socketPaused) {
+          this.socketPaused = true;
+          this.transport.pauseReceiving();
+        }
+      },
+      () => this.push(null)
+    );
+  }
+
+  _read(): void {
+    if (this.socketPaused) {
+      this.socketPaused = false;
+      this.transport.resumeReceiving();
+    }
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.detach();
+    callback(error);
+  }
+
+  /**
+   * Stop receiving and release the socket
+   */
+  private detach(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.socketPaused) {
+      this.socketPaused = false;
+      this.transport.resumeReceiving();
+    }
+  }
+}
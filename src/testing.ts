@@ -0,0 +1,18 @@
+/**
+ * StreamInd SDK Testing Utilities
+ *
+ * Entry point "@streamind/sdk/testing", kept out of the production entry so
+ * applications do not load the mock server.
+ */
+
+// Export mock platform for integration tests
+export {
+  MockPlatform,
+  MockPlatformOptions,
+  MockPlatformEvents,
+  MockConnection,
+  MockAuthMethod,
+  ReceivedSignal,
+  ReceivedBinary,
+  PushDirectiveOptions
+} from './mock-platform';
@@ -0,0 +1,131 @@
+/**
+ * StreamInd SDK Tracing
+ *
+ * W3C trace context (traceparent) propagation and a pluggable span hook
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * W3C trace context of a span
+ */
+export interface TraceContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+
+  /** 16 lowercase hex characters */
+  spanId: string;
+
+  /** Whether the trace is sampled (trace-flags bit 0) */
+  sampled: boolean;
+
+  /** Vendor-specific tracestate header value */
+  traceState?: string;
+}
+
+/**
+ * Span kind, as in OpenTelemetry
+ */
+export type SpanKind = 'client' | 'producer' | 'consumer';
+
+/**
+ * Span attribute values
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Options of a started span
+ */
+export interface SpanOptions {
+  kind: SpanKind;
+
+  /** Context continued by the span (null starts a new trace) */
+  parent: TraceContext | null;
+
+  attributes: SpanAttributes;
+}
+
+/**
+ * Span started by a tracer
+ */
+export interface TraceSpan {
+  /** Context propagated to the platform (signals) or to replies (directives) */
+  readonly context: TraceContext;
+
+  /** End the span, optionally recording a failure */
+  end(error?: Error): void;
+}
+
+/**
+ * Tracer hook
+ *
+ * Spans: "connect" (client), "send <signal type>" (producer) and
+ * "process <directive name>" (consumer). An OpenTelemetry adapter starts a
+ * span with the parent as remote context and returns its span context.
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): TraceSpan;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * Whether a string is a valid W3C trace ID (32 hex characters, not all zero)
+ */
+export function isTraceId(value: string): boolean {
+  return TRACE_ID_PATTERN.test(value) && !/^0+$/.test(value);
+}
+
+/**
+ * Parse a traceparent header value
+ *
+ * @returns null if the value is malformed or uses version ff
+ */
+export function parseTraceparent(traceparent: string, traceState?: string): TraceContext | null {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) {
+    return null;
+  }
+  const [, version, traceId, spanId, flags] = match;
+  if (version === 'ff' || !isTraceId(traceId) || /^0+$/.test(spanId)) {
+    return null;
+  }
+  const context: TraceContext = { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+  if (traceState) {
+    context.traceState = traceState;
+  }
+  return context;
+}
+
+/**
+ * Format a context as a traceparent header value (version 00)
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Context of a new span: a child of the parent, or the root of a new sampled trace
+ */
+export function createTraceContext(parent: TraceContext | null = null): TraceContext {
+  const context: TraceContext = {
+    traceId: parent ? parent.traceId : crypto.randomBytes(16).toString('hex'),
+    spanId: crypto.randomBytes(8).toString('hex'),
+    sampled: parent ? parent.sampled : true
+  };
+  if (parent && parent.traceState) {
+    context.traceState = parent.traceState;
+  }
+  return context;
+}
+
+/**
+ * Tracer that records nothing but still propagates trace context (default)
+ */
+export const noopTracer: Tracer = {
+  startSpan: (_name, options) => ({
+    context: createTraceContext(options.parent),
+    end: () => {}
+  })
+};
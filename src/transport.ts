@@ -5,38 +5,172 @@
  */
 
 import WebSocket from 'ws';
-import { Config, Signal, Directive, Statistics, getWebSocketUrl, getConfigWithDefaults } from './models';
+import {
+  Config,
+  Signal,
+  Directive,
+  DirectiveStatus,
+  Statistics,
+  SendOptions,
+  DIRECTIVE_REPLY_SIGNAL,
+  getWebSocketUrl,
+  getConfigWithDefaults
+} from './models';
 import { ErrorCode, StreamIndError } from './errors';
+import { Outbox } from './outbox';
+import { SignalJournal } from './journal';
+import { BinaryFrame, encodeBinaryFrame, decodeBinaryFrame } from './frame';
+import {
+  FragmentAssembler,
+  LargeBinaryOptions,
+  ReassembledData,
+  FRAGMENT_DATA_TYPE,
+  MAX_FRAGMENT_CHUNK,
+  createTransferId,
+  encodeFragments,
+  encodeCancelFragment
+} from './fragment';
+import { AudioSessionManager, AudioSessionCallback, AudioStreamSession } from './audio-session';
+import { DirectiveRouter, DispatchResult } from './directive-router';
+import { TypedEventEmitter } from './events';
+import { EventIterator, EventIteratorOptions } from './event-iterator';
+import { SchemaRegistry, formatSchemaErrors } from './schema';
+import { Logger, LogFields, withFields, errorFields } from './logger';
+import { Redactor } from './redact';
+import { Tracer, TraceSpan, TraceContext, isTraceId, createTraceContext } from './tracing';
+import { Clock, TimerHandle } from './clock';
+import { AuthCredentials } from './auth';
+import { Recorder, CaptureRecord } from './capture';
+import { MetricsRegistry, MetricsSnapshot, LATENCY_BUCKETS, RECONNECT_BUCKETS } from './metrics';
 
 /**
  * Callback types
  */
 export type ConnectionCallback = (connected: boolean, errorMessage: string) => void;
-export type DirectiveCallback = (directive: Directive) => void;
+export type DirectiveCallback = (directive: Directive) => void | Promise<unknown>;
 export type AudioDataCallback = (data: Buffer) => void;
+export type BinaryDataCallback = (data: Buffer, dataType: string) => void;
 export type ErrorCallback = (errorCode: ErrorCode, message: string) => void;
 export type CloseCallback = (code: number, reason: string) => void;
 
+/**
+ * Terminal events
+ */
+export interface TerminalEvents {
+  /** Connection established (also after a reconnect) */
+  connected: [];
+
+  /** Connection attempt failed, or the connection was lost or closed */
+  disconnected: [reason: string];
+
+  /** Reconnect scheduled */
+  reconnecting: [attempt: number, delayMs: number];
+
+  /** Directive received */
+  directive: [directive: Directive];
+
+  /** Binary data received (decoded payload with its data type) */
+  binary: [data: Buffer, dataType: string];
+
+  /** Error occurred */
+  error: [errorCode: ErrorCode, message: string];
+
+  /** WebSocket closed */
+  close: [code: number, reason: string];
+}
+
+/**
+ * Connection state change yielded by connectionStates()
+ */
+export interface ConnectionStateChange {
+  state: 'connected' | 'disconnected' | 'reconnecting';
+
+  /** Disconnect reason, empty otherwise */
+  reason: string;
+
+  /** Reconnect attempt number, 0 otherwise */
+  attempt: number;
+}
+
+/**
+ * Normalize ws message data to a single Buffer
+ */
+function toBuffer(data: WebSocket.RawData): Buffer {
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return Buffer.from(data);
+}
+
+/**
+ * Size of a received message in bytes
+ */
+function rawDataLength(data: WebSocket.RawData): number {
+  if (Array.isArray(data)) {
+    return data.reduce((total, chunk) => total + chunk.length, 0);
+  }
+  return Buffer.isBuffer(data) ? data.length : data.byteLength;
+}
+
+/**
+ * Signal type of a serialized signal (for messages sent from the queue or journal)
+ */
+function signalTypeOf(json: string): string {
+  try {
+    return String(JSON.parse(json).type ?? '');
+  } catch (e) {
+    return '';
+  }
+}
+
 /**
  * WebSocket Transport Layer
+ *
+ * Emits TerminalEvents; the set*Callback methods each manage a single listener.
  */
-export class WebSocketTransport {
+export class WebSocketTransport extends TypedEventEmitter<TerminalEvents> {
   private config: Required<Config>;
   private ws: WebSocket | null = null;
   private connected: boolean = false;
   private reconnectAttempts: number = 0;
   private lastActivity: number = 0;
   private shouldReconnect: boolean = true;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
-  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+  private reconnectTimer: TimerHandle | null = null;
   private connectTime: number = 0;
+  private reconnecting: boolean = false;
+  private reconnectGaveUp: boolean = false;
+  private flushing: boolean = false;
+  private flushRunning: boolean = false;
+  private outbox: Outbox | null = null;
+  private journal: SignalJournal | null = null;
+  private replaying: boolean = false;
+  private replayRunning: boolean = false;
+  private assembler: FragmentAssembler;
+  private audioSessions: AudioSessionManager;
+  private binaryListeners: Set<{ onData: BinaryDataCallback; onEnd: () => void }> = new Set();
+  private receivePauseCount: number = 0;
+  private iterators: Set<EventIterator<unknown>> = new Set();
+  private settledDirectives: WeakSet<Directive> = new WeakSet();
+  private directiveTimers: Map<Directive, TimerHandle> = new Map();
 
   // Callbacks
-  private onConnected: ConnectionCallback | null = null;
   private onDirective: DirectiveCallback | null = null;
+  private router: DirectiveRouter | null = null;
+  private signalSchemas: SchemaRegistry | null = null;
+  private directiveSchemas: SchemaRegistry | null = null;
+  private baseLogger: Logger;
+  private logContext: LogFields;
+  private redactor: Redactor;
+  private tracer: Tracer;
+  private connectionTrace: TraceContext | null = null;
+  private directiveTraces: WeakMap<Directive, TraceContext> = new WeakMap();
+  private recorder: Recorder | null = null;
+  private clock: Clock;
   private onAudioData: AudioDataCallback | null = null;
-  private onError: ErrorCallback | null = null;
-  private onClose: CloseCallback | null = null;
 
   // Statistics
   private stats = {
@@ -44,18 +178,133 @@ export class WebSocketTransport {
     audioSent: 0,
     directivesReceived: 0,
     audioReceived: 0,
+    malformedFrames: 0,
+    invalidSignals: 0,
+    invalidDirectives: 0,
     errors: 0
   };
 
+  // Metrics (monotonic, not affected by resetStatistics())
+  private metrics = new MetricsRegistry();
+  private bytesSent = this.metrics.counter('streamind_bytes_sent_total', 'Bytes sent, by message kind', ['kind']);
+  private bytesReceived = this.metrics.counter('streamind_bytes_received_total', 'Bytes received, by message kind', ['kind']);
+  private signalsSentByType = this.metrics.counter('streamind_signals_sent_total', 'Signals sent, by signal type', ['signal_type']);
+  private directivesByName = this.metrics.counter('streamind_directives_received_total', 'Directives received, by directive name', ['directive']);
+  private sendLatency = this.metrics.histogram(
+    'streamind_send_latency_seconds',
+    'Time from ws.send() to its completion callback, by message kind',
+    LATENCY_BUCKETS,
+    ['kind']
+  );
+  private heartbeatRtt = this.metrics.histogram('streamind_heartbeat_rtt_seconds', 'Heartbeat ping/pong round-trip time', LATENCY_BUCKETS);
+  private reconnects = this.metrics.counter('streamind_reconnects_total', 'Successful reconnects');
+  private reconnectDuration = this.metrics.histogram(
+    'streamind_reconnect_duration_seconds',
+    'Time from losing the connection to reconnecting',
+    RECONNECT_BUCKETS
+  );
+  private pingSentAt: number = 0;
+  private pingId: number = 0;
+  private confirming: number[] = [];
+  private disconnectedAt: number = 0;
+
   constructor(config: Config) {
+    super();
     this.config = getConfigWithDefaults(config);
+    this.clock = this.config.clock;
+    this.assembler = new FragmentAssembler(this.config.maxTransferSize, { clock: this.clock });
+    this.audioSessions = new AudioSessionManager(this.config.audioSessionIdleTimeoutMs, this.clock);
+    if (this.config.offlineQueueEnabled) {
+      this.outbox = new Outbox(
+        this.config.offlineQueueMaxSize,
+        this.config.offlineQueueOverflowPolicy,
+        this.config.offlineQueueTtlMs,
+        this.clock
+      );
+    }
+    if (this.config.journalDir) {
+      this.journal = new SignalJournal(
+        this.config.journalDir,
+        this.config.journalSegmentMaxBytes,
+        this.config.journalFsync
+      );
+    }
+    this.redactor = new Redactor(this.config.sensitiveKeys, [this.config.productKey]);
+    this.tracer = this.config.tracer;
+    this.baseLogger = this.config.logger;
+    this.logContext = { deviceId: this.config.deviceId };
+    this.updateLogger();
+
+    this.metrics.gauge('streamind_connected', 'Whether the terminal is connected (1) or not (0)', () => (this.connected ? 1 : 0));
+    this.metrics.gauge('streamind_offline_queue_depth', 'Messages in the offline queue', () => (this.outbox ? this.outbox.size() : 0));
+    this.metrics.gauge('streamind_journal_pending', 'Unacknowledged signals in the journal', () => (this.journal ? this.journal.size() : 0));
+    this.metrics.gauge('streamind_send_buffer_bytes', 'Bytes queued in the WebSocket send buffer', () => (this.ws ? this.ws.bufferedAmount : 0));
+  }
+
+  /**
+   * Set logger; context fields are added to every record (e.g. { terminalId })
+   */
+  setLogger(logger: Logger, context: LogFields = {}): void {
+    this.baseLogger = logger;
+    this.logContext = { ...this.logContext, ...context };
+    this.updateLogger();
+  }
+
+  /**
+   * Set tracer
+   */
+  setTracer(tracer: Tracer): void {
+    this.tracer = tracer;
+  }
+
+  /**
+   * Get the time and timer source of this terminal
+   */
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Record traffic with a recorder (null stops recording); the previous recorder is closed
+   */
+  async setRecorder(recorder: Recorder | null): Promise<void> {
+    const previous = this.recorder;
+    this.recorder = recorder;
+    if (recorder) {
+      recorder.write({
+        capture: 'streamind',
+        version: 1,
+        startedAt: new Date(this.clock.now()).toISOString(),
+        deviceId: this.config.deviceId,
+        endpoint: this.redactor.url(this.config.endpoint)
+      });
+    }
+    if (previous) {
+      await previous.close();
+    }
+  }
+
+  /**
+   * Feed a recorded inbound message to the directive and binary callbacks (not recorded again)
+   */
+  replayInbound(record: CaptureRecord): void {
+    if (record.kind === 'text') {
+      this.handleTextMessage(record.data);
+    } else if (record.dataType !== undefined) {
+      this.handleFrame({ dataType: record.dataType, data: Buffer.from(record.data, 'base64') });
+    } else {
+      this.handleBinaryMessage(Buffer.from(record.data, 'base64'), false);
+    }
   }
 
   /**
    * Set connection callback
    */
   setConnectionCallback(callback: ConnectionCallback): void {
-    this.onConnected = callback;
+    this.replaceCallback('connection', {
+      connected: () => callback(true, ''),
+      disconnected: (reason) => callback(false, reason)
+    });
   }
 
   /**
@@ -66,24 +315,66 @@ export class WebSocketTransport {
   }
 
   /**
-   * Set audio data callback
+   * Set directive router (runs after the directive callback has settled)
+   */
+  setDirectiveRouter(router: DirectiveRouter | null): void {
+    this.router = router;
+  }
+
+  /**
+   * Set schema registry used to validate outbound signal payloads
+   */
+  setSignalSchemas(registry: SchemaRegistry | null): void {
+    this.signalSchemas = registry;
+  }
+
+  /**
+   * Set schema registry used to validate inbound directive parameters
+   */
+  setDirectiveSchemas(registry: SchemaRegistry | null): void {
+    this.directiveSchemas = registry;
+  }
+
+  /**
+   * Set audio data callback (OPUS frames only; other data types go to binary listeners)
    */
   setAudioDataCallback(callback: AudioDataCallback): void {
     this.onAudioData = callback;
   }
 
+  /**
+   * Set binary data callback (decoded payload with its data type)
+   */
+  setBinaryDataCallback(callback: BinaryDataCallback): void {
+    this.replaceCallback('binary', { binary: callback });
+  }
+
+  /**
+   * Set audio session callback (invoked for each audio.opus_data_start directive)
+   */
+  setAudioSessionCallback(callback: AudioSessionCallback): void {
+    this.audioSessions.setSessionCallback(callback);
+  }
+
+  /**
+   * Get audio sessions that have not ended
+   */
+  getAudioSessions(): AudioStreamSession[] {
+    return this.audioSessions.getSessions();
+  }
+
   /**
    * Set error callback
    */
   setErrorCallback(callback: ErrorCallback): void {
-    this.onError = callback;
+    this.replaceCallback('error', { error: callback });
   }
 
   /**
    * Set close callback
    */
   setCloseCallback(callback: CloseCallback): void {
-    this.onClose = callback;
+    this.replaceCallback('close', { close: callback });
   }
 
   /**
@@ -95,101 +386,187 @@ export class WebSocketTransport {
     }
 
     this.shouldReconnect = true;
-    const url = getWebSocketUrl(this.config, traceId);
+    this.reconnectGaveUp = false;
+    if (traceId) {
+      this.logContext = { ...this.logContext, traceId };
+      this.updateLogger();
+    }
+
+    // A W3C trace ID joins that trace; later signals (and reconnects) continue the connect span
+    let parent = this.connectionTrace;
+    if (traceId) {
+      parent = isTraceId(traceId) ? { ...createTraceContext(), traceId } : null;
+    }
+    let connectSpan: TraceSpan | null = this.tracer.startSpan('connect', {
+      kind: 'client',
+      parent,
+      attributes: { 'streamind.device_id': this.config.deviceId, 'streamind.trace_id': traceId }
+    });
+    if (traceId) {
+      this.connectionTrace = connectSpan.context;
+    }
+    const endConnectSpan = (error?: Error) => {
+      if (connectSpan) {
+        connectSpan.end(error);
+        connectSpan = null;
+      }
+    };
+
+    // Fresh credentials on every connect, so signed tokens never go stale across reconnects
+    let credentials: AuthCredentials;
+    try {
+      credentials = await this.config.auth.credentials({
+        tenantId: this.config.tenantId,
+        productId: this.config.productId,
+        productKey: this.config.productKey,
+        deviceId: this.config.deviceId,
+        now: this.clock.now()
+      });
+    } catch (error: any) {
+      this.stats.errors++;
+      const message = `Authentication failed: ${this.errorMessage(error)}`;
+      this.logger.error('Authentication failed', errorFields(error));
+      this.emit('error', ErrorCode.AUTH_FAILED, message);
+      this.emit('disconnected', message);
+      const failure = new StreamIndError(ErrorCode.AUTH_FAILED, message);
+      endConnectSpan(failure);
+      throw failure;
+    }
+    const url = getWebSocketUrl(this.config, traceId, credentials.query ?? {});
+    this.logger.debug('Connecting', { url: this.redactor.url(url) });
+
+    // Load journal before connecting so unsent signals can be replayed
+    if (this.journal) {
+      this.journal.open();
+    }
 
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
+      const timeout = this.clock.setTimeout(() => {
         this.stats.errors++;
-        if (this.onError) {
-          this.onError(ErrorCode.CONNECTION_TIMEOUT, 'Connection timeout');
-        }
-        if (this.onConnected) {
-          this.onConnected(false, 'Connection timeout');
-        }
-        reject(new StreamIndError(ErrorCode.CONNECTION_TIMEOUT));
+        this.emit('error', ErrorCode.CONNECTION_TIMEOUT, 'Connection timeout');
+        this.emit('disconnected', 'Connection timeout');
+        const error = new StreamIndError(ErrorCode.CONNECTION_TIMEOUT);
+        endConnectSpan(error);
+        reject(error);
       }, this.config.connectionTimeoutMs);
 
       try {
         this.ws = new WebSocket(url, {
           perMessageDeflate: false,  // Disable compression for lower latency
-          maxPayload: this.config.maxMessageSize
+          maxPayload: this.config.maxMessageSize,
+          headers: credentials.headers
         });
 
         this.ws.on('open', () => {
-          clearTimeout(timeout);
+          this.clock.clearTimeout(timeout);
 
           // Enable TCP_NODELAY for real-time performance
           if (this.ws && (this.ws as any)._socket) {
             try {
               (this.ws as any)._socket.setNoDelay(true);
             } catch (e) {
-              console.warn('Failed to set TCP_NODELAY:', e);
+              this.logger.warn('Failed to set TCP_NODELAY', errorFields(e));
             }
           }
 
+          // Keep stream backpressure across reconnects
+          if (this.ws && this.receivePauseCount > 0) {
+            this.ws.pause();
+          }
+
+          if (this.disconnectedAt > 0) {
+            this.reconnects.inc();
+            this.reconnectDuration.observe((this.clock.now() - this.disconnectedAt) / 1000);
+            this.disconnectedAt = 0;
+          }
+
           this.connected = true;
+          // Hold new messages behind journaled and queued ones until those are delivered
+          this.replaying = this.journal !== null;
+          this.flushing = this.outbox !== null;
+          this.reconnecting = false;
           this.reconnectAttempts = 0;
-          this.lastActivity = Date.now();
-          this.connectTime = Date.now();
+          this.lastActivity = this.clock.now();
+          this.connectTime = this.clock.now();
 
-          console.log('Connected to platform');
-          if (this.onConnected) {
-            this.onConnected(true, '');
-          }
+          this.logger.info('Connected to platform');
+          endConnectSpan();
+          this.emit('connected');
 
           // Start heartbeat
           this.startHeartbeat();
 
           resolve();
+
+          // Deliver journaled signals and messages queued while reconnecting
+          this.replayJournal().then(() => this.flushOutbox());
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
-          this.lastActivity = Date.now();
+        this.ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+          this.lastActivity = this.clock.now();
+          this.bytesReceived.inc({ kind: isBinary ? 'binary' : 'text' }, rawDataLength(data));
 
-          if (Buffer.isBuffer(data)) {
-            // Binary data (audio)
-            this.stats.audioReceived++;
-            if (this.onAudioData) {
-              this.onAudioData(data);
-            }
+          // ws delivers text messages as Buffers too, so rely on the frame opcode
+          if (isBinary) {
+            // Binary data (14-byte application-layer frame)
+            this.handleBinaryMessage(toBuffer(data), true);
           } else {
             // Text message (directive or other)
-            this.handleTextMessage(data.toString());
+            const text = data.toString();
+            this.recordText('in', text);
+            this.handleTextMessage(text);
+          }
+        });
+
+        this.ws.on('pong', (data: Buffer) => {
+          // Pongs of expired pings are ignored
+          if (this.pingSentAt === 0 || data.toString() !== String(this.pingId)) {
+            return;
+          }
+          this.heartbeatRtt.observe((this.clock.now() - this.pingSentAt) / 1000);
+          this.pingSentAt = 0;
+
+          if (this.journal) {
+            for (const seq of this.confirming) {
+              this.journal.ack(seq);
+            }
+            this.confirming = [];
+            if (this.journal.sentSeqs().length > 0) {
+              this.sendPing();
+            }
           }
         });
 
         this.ws.on('error', (error: Error) => {
-          clearTimeout(timeout);
+          this.clock.clearTimeout(timeout);
           this.stats.errors++;
-          console.error('WebSocket error:', error);
-          if (this.onError) {
-            this.onError(ErrorCode.CONNECTION_FAILED, error.message);
-          }
-          if (!this.connected && this.onConnected) {
-            this.onConnected(false, error.message);
+          const message = this.errorMessage(error);
+          this.logger.error('WebSocket error', errorFields(error));
+          this.emit('error', ErrorCode.CONNECTION_FAILED, message);
+          if (!this.connected) {
+            this.emit('disconnected', message);
           }
-          reject(new StreamIndError(ErrorCode.CONNECTION_FAILED, error.message));
+          const failure = new StreamIndError(ErrorCode.CONNECTION_FAILED, message);
+          endConnectSpan(failure);
+          reject(failure);
         });
 
         this.ws.on('close', (code: number, reason: Buffer) => {
           const reasonStr = reason.toString();
-          console.warn(`Connection closed: ${code} - ${reasonStr}`);
-          if (this.onClose) {
-            this.onClose(code, reasonStr || 'Abnormal closure');
-          }
+          this.logger.warn('Connection closed', { code, reason: reasonStr });
+          this.emit('close', code, reasonStr || 'Abnormal closure');
           this.handleDisconnect();
         });
 
       } catch (error: any) {
-        clearTimeout(timeout);
+        this.clock.clearTimeout(timeout);
         this.stats.errors++;
-        if (this.onError) {
-          this.onError(ErrorCode.CONNECTION_FAILED, error.message);
-        }
-        if (this.onConnected) {
-          this.onConnected(false, error.message);
-        }
-        reject(new StreamIndError(ErrorCode.CONNECTION_FAILED, error.message));
+        const message = this.errorMessage(error);
+        this.emit('error', ErrorCode.CONNECTION_FAILED, message);
+        this.emit('disconnected', message);
+        const failure = new StreamIndError(ErrorCode.CONNECTION_FAILED, message);
+        endConnectSpan(failure);
+        reject(failure);
       }
     });
   }
@@ -198,16 +575,17 @@ export class WebSocketTransport {
    * Disconnect from WebSocket server
    */
   async disconnect(): Promise<void> {
-    console.log('Disconnecting...');
+    this.logger.info('Disconnecting');
     this.shouldReconnect = false;
+    this.reconnecting = false;
 
     // Stop timers
     if (this.heartbeatTimer) {
-      clearTimeout(this.heartbeatTimer);
+      this.clock.clearTimeout(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
     if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
+      this.clock.clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
 
@@ -218,14 +596,30 @@ export class WebSocketTransport {
     }
 
     this.connected = false;
-    console.log('Disconnected');
-
-    if (this.onClose) {
-      this.onClose(1000, 'Normal disconnection');
+    this.flushing = false;
+    this.disconnectedAt = 0;
+    this.pingSentAt = 0;
+    this.confirming = [];
+    this.assembler.clear();
+    this.audioSessions.endAll('disconnected');
+    for (const listener of Array.from(this.binaryListeners)) {
+      listener.onEnd();
+    }
+    this.binaryListeners.clear();
+    for (const timer of this.directiveTimers.values()) {
+      this.clock.clearTimeout(timer);
     }
-    if (this.onConnected) {
-      this.onConnected(false, 'User disconnected');
+    this.directiveTimers.clear();
+    if (this.journal) {
+      this.journal.close();
     }
+    this.logger.info('Disconnected');
+
+    this.emit('close', 1000, 'Normal disconnection');
+    this.emit('disconnected', 'User disconnected');
+
+    // End iterators after they have seen the final state change
+    this.endIterators();
   }
 
   /**
@@ -237,9 +631,19 @@ export class WebSocketTransport {
 
   /**
    * Send signal to platform
+   *
+   * While reconnecting with the offline queue enabled, the signal is queued
+   * and delivered once the connection is re-established, after the messages
+   * queued before it. A full queue fails it with QUEUE_FULL under the
+   * 'drop-newest' and 'reject' policies.
+   *
+   * With the journal enabled, the signal is written to disk first and is
+   * replayed on the next connection if it cannot be sent now.
    */
-  async sendSignal(signal: Signal): Promise<void> {
-    if (!this.connected) {
+  async sendSignal(signal: Signal, options: SendOptions = {}): Promise<void> {
+    // The journal keeps signals for a later connection, unless reconnecting gave up
+    const deferrable = this.journal ? !this.reconnectGaveUp : this.shouldQueue(false);
+    if (!this.connected && !deferrable) {
       throw new StreamIndError(ErrorCode.NOT_CONNECTED);
     }
 
@@ -253,6 +657,40 @@ export class WebSocketTransport {
     if (!signal.source.generatedTime) {
       signal.source.generatedTime = signal.timestamp;
     }
+    signal.setRedactor(this.redactor);
+
+    // Continue the signal's trace context, or the connection's
+    const span = this.tracer.startSpan(`send ${signal.type}`, {
+      kind: 'producer',
+      parent: signal.getTraceContext() ?? this.connectionTrace,
+      attributes: { 'streamind.device_id': this.config.deviceId, 'streamind.signal.type': signal.type, 'streamind.signal.uuid': signal.uuid }
+    });
+    signal.setTraceContext(span.context);
+    try {
+      await this.deliverSignal(signal, options);
+      span.end();
+    } catch (error: any) {
+      span.end(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate, then send, journal or queue a signal
+   */
+  private async deliverSignal(signal: Signal, options: SendOptions): Promise<void> {
+    // Validate payload against the schema registered for its type
+    if (this.signalSchemas && this.config.signalValidation !== 'off') {
+      const errors = this.signalSchemas.validate(signal.type, signal.getPayload().getData());
+      if (errors.length > 0) {
+        const message = `Invalid ${signal.type} payload: ${formatSchemaErrors(errors)}`;
+        this.stats.invalidSignals++;
+        if (this.config.signalValidation === 'strict') {
+          throw new StreamIndError(ErrorCode.INVALID_SIGNAL, message);
+        }
+        this.logger.warn('Invalid signal payload', { signalType: signal.type, errors });
+      }
+    }
 
     const jsonStr = signal.toJSON();
 
@@ -261,18 +699,60 @@ export class WebSocketTransport {
       throw new StreamIndError(ErrorCode.SIGNAL_TOO_LARGE);
     }
 
+    if (this.journal) {
+      await this.sendJournaled(jsonStr);
+      return;
+    }
+
+    if (this.shouldQueue(false)) {
+      if (!this.outbox!.push('signal', jsonStr, options.ttlMs)) {
+        throw new StreamIndError(ErrorCode.QUEUE_FULL, 'Offline queue is full, signal dropped');
+      }
+      return;
+    }
+
     try {
       await this.sendMessage(jsonStr);
-      this.lastActivity = Date.now();
-      this.stats.signalsSent++;
+      this.lastActivity = this.clock.now();
+      this.countSignalSent(signal.type);
     } catch (error: any) {
-      console.error('Failed to send signal:', error);
+      this.logger.error('Failed to send signal', { signalType: signal.type, ...errorFields(error) });
       this.stats.errors++;
-      if (this.onError) {
-        this.onError(ErrorCode.SEND_FAILED, error.message);
+      const message = this.errorMessage(error);
+      this.emit('error', ErrorCode.SEND_FAILED, message);
+      throw new StreamIndError(ErrorCode.SEND_FAILED, message);
+    }
+  }
+
+  /**
+   * Reply to a directive with a DIRECTIVE_REPLY_SIGNAL signal
+   *
+   * 'received' may be sent any time before the directive is settled;
+   * 'completed' or 'failed' settle it and can be sent only once.
+   */
+  async replyToDirective(directive: Directive, status: DirectiveStatus, payload: Record<string, any> = {}): Promise<void> {
+    if (this.settledDirectives.has(directive)) {
+      throw new StreamIndError(ErrorCode.INVALID_PARAMETER, `Directive ${directive.id} already settled`);
+    }
+
+    if (status !== 'received') {
+      this.settledDirectives.add(directive);
+      const timer = this.directiveTimers.get(directive);
+      if (timer) {
+        this.clock.clearTimeout(timer);
+        this.directiveTimers.delete(directive);
       }
-      throw new StreamIndError(ErrorCode.SEND_FAILED, error.message);
     }
+
+    const signal = new Signal(DIRECTIVE_REPLY_SIGNAL);
+    signal.getPayload().setData({
+      ...payload,
+      directiveId: directive.id,
+      directiveName: directive.name,
+      status
+    });
+    signal.setTraceContext(this.directiveTraces.get(directive) ?? directive.traceContext);
+    await this.sendSignal(signal);
   }
 
   /**
@@ -290,62 +770,82 @@ export class WebSocketTransport {
    *
    * Note: WebSocket library will add standard WebSocket framing/masking automatically.
    *       This 14-byte header is the application-layer protocol, NOT WebSocket framing.
+   *
+   * Frames are queued while reconnecting if offlineQueueBinary is enabled.
    */
-  async sendBinaryData(data: Buffer, dataType: string): Promise<void> {
-    if (!this.connected) {
+  async sendBinaryData(data: Buffer, dataType: string, options: SendOptions = {}): Promise<void> {
+    if (!this.connected && !this.shouldQueue(true)) {
       throw new StreamIndError(ErrorCode.NOT_CONNECTED);
     }
 
+    let frame: Buffer;
     try {
-      // Build application-layer protocol data (same as hardware SDK)
-      const protocolData: number[] = [];
+      frame = encodeBinaryFrame(data, dataType);
 
-      // Byte 0: 0x82 (application layer protocol identifier)
-      protocolData.push(0x82);
+      if (!this.shouldQueue(true)) {
+        // Send through WebSocket (library will add WebSocket framing/masking automatically)
+        await this.sendBinary(frame);
 
-      // Byte 1-2: Data length (big-endian, 2 bytes)
-      const dataLen = data.length;
-      if (dataLen > 65535) {
-        throw new StreamIndError(ErrorCode.SIGNAL_TOO_LARGE, 'Binary data exceeds 65535 bytes');
+        this.lastActivity = this.clock.now();
+        this.stats.audioSent++;  // Keep using audioSent for backward compatibility
+        return;
       }
+    } catch (error: any) {
+      this.logger.error('Failed to send binary data', { dataType, ...errorFields(error) });
+      this.stats.errors++;
+      const message = this.errorMessage(error);
+      this.emit('error', ErrorCode.SEND_FAILED, message);
+      throw new StreamIndError(ErrorCode.SEND_FAILED, message);
+    }
 
-      protocolData.push((dataLen >> 8) & 0xFF);  // High byte
-      protocolData.push(dataLen & 0xFF);         // Low byte
+    if (!this.outbox!.push('binary', frame, options.ttlMs)) {
+      throw new StreamIndError(ErrorCode.QUEUE_FULL, 'Offline queue is full, frame dropped');
+    }
+  }
 
-      // Byte 3-9: Data type (7-byte ASCII, uppercase, padded with 0x00)
-      const dataTypeStr = dataType.toUpperCase().substring(0, 7);  // e.g., "opus" -> "OPUS", max 7 chars
-      const dataTypeBytes = Buffer.alloc(7);
-      dataTypeBytes.write(dataTypeStr, 0, 'ascii');
-      for (let i = 0; i < 7; i++) {
-        protocolData.push(dataTypeBytes[i]);
-      }
+  /**
+   * Send binary data of any size as a fragmented transfer
+   *
+   * The data is split into sequenced "FRAG" frames carrying a transfer ID,
+   * start/end markers and a CRC-32 of the complete data. Aborting
+   * options.signal stops the transfer and notifies the receiver.
+   */
+  async sendLargeBinary(data: Buffer, dataType: string, options: LargeBinaryOptions = {}): Promise<void> {
+    if (!this.connected) {
+      throw new StreamIndError(ErrorCode.NOT_CONNECTED);
+    }
+    if (data.length > this.config.maxTransferSize) {
+      throw new StreamIndError(ErrorCode.SIGNAL_TOO_LARGE, `Transfer exceeds maxTransferSize (${this.config.maxTransferSize} bytes)`);
+    }
 
-      // Byte 10-13: Mask key (4 random bytes) - application layer masking
-      const maskKey = Buffer.allocUnsafe(4);
-      for (let i = 0; i < 4; i++) {
-        maskKey[i] = Math.floor(Math.random() * 256);
-        protocolData.push(maskKey[i]);
-      }
+    const transferId = createTransferId();
+    const chunkSize = options.chunkSize ?? MAX_FRAGMENT_CHUNK;
+    const fragments = encodeFragments(data, dataType, transferId, chunkSize);
 
-      // Byte 14+: XOR-masked actual data (application layer masking)
-      // This is part of the application protocol, NOT WebSocket masking
-      for (let i = 0; i < data.length; i++) {
-        protocolData.push(data[i] ^ maskKey[i % 4]);
+    for (let i = 0; i < fragments.length; i++) {
+      if (options.signal && options.signal.aborted) {
+        if (i > 0) {
+          // Best effort: let the receiver drop the partial transfer
+          this.sendBinary(encodeBinaryFrame(encodeCancelFragment(transferId), FRAGMENT_DATA_TYPE)).catch(() => {});
+        }
+        throw new StreamIndError(ErrorCode.CANCELLED, `Transfer ${transferId} cancelled`);
       }
 
-      // Send through WebSocket (library will add WebSocket framing/masking automatically)
-      await this.sendBinary(Buffer.from(protocolData));
-
-      this.lastActivity = Date.now();
-      this.stats.audioSent++;  // Keep using audioSent for backward compatibility
+      try {
+        await this.sendBinary(encodeBinaryFrame(fragments[i], FRAGMENT_DATA_TYPE));
+      } catch (error: any) {
+        this.logger.error('Failed to send binary fragment', { dataType, transferId, ...errorFields(error) });
+        this.stats.errors++;
+        const message = this.errorMessage(error);
+        this.emit('error', ErrorCode.SEND_FAILED, message);
+        throw new StreamIndError(ErrorCode.SEND_FAILED, message);
+      }
 
-    } catch (error: any) {
-      console.error('Failed to send binary data:', error);
-      this.stats.errors++;
-      if (this.onError) {
-        this.onError(ErrorCode.SEND_FAILED, error.message);
+      this.lastActivity = this.clock.now();
+      this.stats.audioSent++;
+      if (options.onProgress) {
+        options.onProgress(Math.min(data.length, (i + 1) * chunkSize), data.length);
       }
-      throw new StreamIndError(ErrorCode.SEND_FAILED, error.message);
     }
   }
 
@@ -355,8 +855,118 @@ export class WebSocketTransport {
    * @param data Audio data buffer
    * @param audioFormat Audio format (default: "opus" - currently the only verified format)
    */
-  async sendAudioData(data: Buffer, audioFormat: string = 'opus'): Promise<void> {
-    await this.sendBinaryData(data, audioFormat);
+  async sendAudioData(data: Buffer, audioFormat: string = 'opus', options: SendOptions = {}): Promise<void> {
+    await this.sendBinaryData(data, audioFormat, options);
+  }
+
+  /**
+   * Bytes queued on the socket but not yet transmitted
+   */
+  getBufferedAmount(): number {
+    return this.ws ? this.ws.bufferedAmount : 0;
+  }
+
+  /**
+   * Resolve once the socket's buffered amount is at or below the limit
+   *
+   * Resolves immediately when not connected. Rechecks on socket 'drain' and
+   * every 10ms of the terminal clock.
+   */
+  async waitForBufferedAmount(limit: number): Promise<void> {
+    while (this.ws && this.connected && this.ws.bufferedAmount > limit) {
+      const socket = (this.ws as any)._socket;
+      await new Promise<void>((resolve) => {
+        // Socket 'drain' is the fast path; the timer covers ws-internal buffering
+        const done = () => {
+          this.clock.clearTimeout(timer);
+          if (socket) {
+            socket.removeListener('drain', done);
+          }
+          resolve();
+        };
+        const timer = this.clock.setTimeout(done, 10);
+        if (socket) {
+          socket.once('drain', done);
+        }
+      });
+    }
+  }
+
+  /**
+   * Add a listener for decoded inbound binary data
+   *
+   * @param onEnd Invoked when the transport is disconnected by the user
+   * @returns Function removing the listener
+   */
+  addBinaryListener(onData: BinaryDataCallback, onEnd: () => void = () => {}): () => void {
+    const listener = { onData, onEnd };
+    this.binaryListeners.add(listener);
+    return () => {
+      this.binaryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over received directives until disconnect()
+   */
+  directives(options: EventIteratorOptions = {}): EventIterator<Directive> {
+    return this.createIterator<Directive>(options, (iterator) => {
+      this.on('directive', (directive) => iterator.push(directive), { signal: iterator.signal });
+    });
+  }
+
+  /**
+   * Iterate over received binary data until disconnect()
+   */
+  binaryData(options: EventIteratorOptions = {}): EventIterator<BinaryFrame> {
+    return this.createIterator<BinaryFrame>(options, (iterator) => {
+      this.on('binary', (data, dataType) => iterator.push({ dataType, data }), { signal: iterator.signal });
+    });
+  }
+
+  /**
+   * Iterate over connection state changes until disconnect()
+   */
+  connectionStates(options: EventIteratorOptions = {}): EventIterator<ConnectionStateChange> {
+    return this.createIterator<ConnectionStateChange>(options, (iterator) => {
+      const { signal } = iterator;
+      this.on('connected', () => iterator.push({ state: 'connected', reason: '', attempt: 0 }), { signal });
+      this.on('disconnected', (reason) => iterator.push({ state: 'disconnected', reason, attempt: 0 }), { signal });
+      this.on('reconnecting', (attempt) => iterator.push({ state: 'reconnecting', reason: '', attempt }), { signal });
+    });
+  }
+
+  /**
+   * End all iterators; buffered items remain readable
+   */
+  endIterators(): void {
+    for (const iterator of Array.from(this.iterators)) {
+      iterator.end();
+    }
+    this.iterators.clear();
+  }
+
+  /**
+   * Pause reading from the socket (reference counted)
+   */
+  pauseReceiving(): void {
+    this.receivePauseCount++;
+    if (this.ws && this.receivePauseCount === 1) {
+      this.ws.pause();
+    }
+  }
+
+  /**
+   * Resume reading from the socket once every pause has been released
+   */
+  resumeReceiving(): void {
+    if (this.receivePauseCount === 0) {
+      return;
+    }
+    this.receivePauseCount--;
+    if (this.ws && this.receivePauseCount === 0) {
+      this.ws.resume();
+    }
   }
 
   /**
@@ -364,7 +974,7 @@ export class WebSocketTransport {
    */
   getStatistics(): Statistics {
     const uptime = this.connected && this.connectTime > 0
-      ? (Date.now() - this.connectTime) / 1000
+      ? (this.clock.now() - this.connectTime) / 1000
       : 0;
 
     return {
@@ -372,10 +982,17 @@ export class WebSocketTransport {
       audioSent: this.stats.audioSent,
       directivesReceived: this.stats.directivesReceived,
       audioReceived: this.stats.audioReceived,
+      malformedFrames: this.stats.malformedFrames,
+      invalidSignals: this.stats.invalidSignals,
+      invalidDirectives: this.stats.invalidDirectives,
       errors: this.stats.errors,
       connected: this.connected,
       uptimeSeconds: uptime,
-      reconnectAttempts: this.reconnectAttempts
+      reconnectAttempts: this.reconnectAttempts,
+      queueDepth: this.outbox ? this.outbox.size() : 0,
+      queueDropped: this.outbox ? this.outbox.dropped() : 0,
+      queueExpired: this.outbox ? this.outbox.expired() : 0,
+      journalPending: this.journal ? this.journal.size() : 0
     };
   }
 
@@ -388,75 +1005,493 @@ export class WebSocketTransport {
       audioSent: 0,
       directivesReceived: 0,
       audioReceived: 0,
+      malformedFrames: 0,
+      invalidSignals: 0,
+      invalidDirectives: 0,
       errors: 0
     };
+    if (this.outbox) {
+      this.outbox.resetCounters();
+    }
   }
 
   /**
-   * Send text message
+   * Get a snapshot of the terminal's metrics
    */
-  private async sendMessage(message: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.ws || !this.connected) {
-        reject(new Error('Not connected'));
-        return;
+  getMetrics(): MetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Whether outbound messages should currently go to the offline queue
+   *
+   * Messages are queued while reconnecting, and also while a flush is in
+   * progress so that new messages stay behind the queued ones.
+   */
+  private shouldQueue(binary: boolean): boolean {
+    if (!this.outbox) {
+      return false;
+    }
+    // Signals go to the journal instead when it is enabled
+    if (binary ? !this.config.offlineQueueBinary : this.journal !== null) {
+      return false;
+    }
+    return this.reconnecting || this.flushing;
+  }
+
+  /**
+   * Journal a signal and have the replay loop send it behind any older unsent signal
+   */
+  private async sendJournaled(jsonStr: string): Promise<void> {
+    this.journal!.append(jsonStr);
+    await this.journal!.sync();
+    if (this.connected && !this.replaying) {
+      await this.replayJournal();
+    }
+  }
+
+  /**
+   * Send unsent journal entries in order
+   *
+   * `replaying` is set when the connection opens and cleared here once no
+   * entry is left to send, so signals sent meanwhile are appended behind
+   * it. Sent entries are acknowledged when a following ping is answered.
+   */
+  private async replayJournal(): Promise<void> {
+    if (!this.journal || this.replayRunning) {
+      return;
+    }
+
+    this.replaying = true;
+    this.replayRunning = true;
+    try {
+      // Signals journaled during the replay are picked up by this loop
+      let entry = this.journal.peek();
+      while (entry && this.connected) {
+        await this.journal.sync();
+        await this.sendMessage(entry.data);
+        this.journal.markSent(entry.seq);
+        this.lastActivity = this.clock.now();
+        this.countSignalSent(signalTypeOf(entry.data));
+        this.sendPing();
+        entry = this.journal.peek();
       }
+    } catch (error) {
+      // Remaining entries are sent by the next signal or after the next connect
+      this.logger.error('Failed to send journaled signal', errorFields(error));
+      this.stats.errors++;
+      this.emit('error', ErrorCode.SEND_FAILED, this.errorMessage(error));
+    } finally {
+      this.replaying = false;
+      this.replayRunning = false;
+    }
+  }
 
-      this.ws.send(message, (error) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
+  /**
+   * Flush offline queue in order
+   *
+   * `flushing` is set when the connection opens and cleared here once the
+   * queue is empty, so messages sent meanwhile are queued behind it. A failed
+   * send stops the flush and keeps `flushing` set until the connection closes,
+   * so the next connection delivers the rest in order.
+   */
+  private async flushOutbox(): Promise<void> {
+    if (!this.outbox || this.flushRunning) {
+      return;
+    }
+
+    this.flushing = true;
+    this.flushRunning = true;
+    let failed = false;
+    try {
+      while (this.connected) {
+        const entry = this.outbox.shift();
+        if (!entry) {
+          break;
         }
-      });
-    });
+
+        try {
+          if (entry.kind === 'signal') {
+            await this.sendMessage(entry.data as string);
+            this.countSignalSent(signalTypeOf(entry.data as string));
+          } else {
+            await this.sendBinary(entry.data as Buffer);
+            this.stats.audioSent++;
+          }
+          this.lastActivity = this.clock.now();
+        } catch (error) {
+          // Keep the message for the next connection
+          this.logger.error('Failed to flush offline queue', errorFields(error));
+          this.outbox.unshift(entry);
+          failed = true;
+          break;
+        }
+      }
+    } finally {
+      this.flushing = failed && this.connected;
+      this.flushRunning = false;
+    }
+  }
+
+  /**
+   * Send text message
+   */
+  private async sendMessage(message: string): Promise<void> {
+    return this.sendRaw(message, 'text');
   }
 
   /**
    * Send binary message
    */
   private async sendBinary(data: Buffer): Promise<void> {
+    return this.sendRaw(data, 'binary');
+  }
+
+  /**
+   * Send a WebSocket message, recording its size and send latency
+   */
+  private async sendRaw(data: string | Buffer, kind: 'text' | 'binary'): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.ws || !this.connected) {
         reject(new Error('Not connected'));
         return;
       }
 
+      const started = process.hrtime.bigint();
       this.ws.send(data, (error) => {
         if (error) {
           reject(error);
         } else {
+          this.bytesSent.inc({ kind }, typeof data === 'string' ? Buffer.byteLength(data) : data.length);
+          if (typeof data === 'string') {
+            this.recordText('out', data);
+          } else {
+            this.recordBinary('out', data);
+          }
+          this.sendLatency.observe(Number(process.hrtime.bigint() - started) / 1e9, { kind });
           resolve();
         }
       });
     });
   }
 
+  /**
+   * Record a text message with credentials and sensitive fields scrubbed
+   */
+  private recordText(direction: 'in' | 'out', text: string): void {
+    if (!this.recorder) {
+      return;
+    }
+    let scrubbed: string;
+    try {
+      scrubbed = JSON.stringify(this.redactor.value(JSON.parse(text)));
+    } catch (e) {
+      scrubbed = this.redactor.text(text);
+    }
+    this.writeRecord(direction, 'text', scrubbed);
+  }
+
+  /**
+   * Record a binary message, decoded if it is a valid frame
+   */
+  private recordBinary(direction: 'in' | 'out', message: Buffer): void {
+    if (!this.recorder) {
+      return;
+    }
+    try {
+      const frame = decodeBinaryFrame(message);
+      this.writeRecord(direction, 'binary', frame.data.toString('base64'), frame.dataType);
+    } catch (e) {
+      this.writeRecord(direction, 'binary', message.toString('base64'));
+    }
+  }
+
+  /**
+   * Pass a record to the recorder, logging recorder failures
+   */
+  private writeRecord(direction: 'in' | 'out', kind: 'text' | 'binary', data: string, dataType?: string): void {
+    const record: CaptureRecord = { timestamp: this.clock.now(), direction, kind, data };
+    if (dataType !== undefined) {
+      record.dataType = dataType;
+    }
+    try {
+      this.recorder!.write(record);
+    } catch (error) {
+      this.logger.error('Failed to record message', errorFields(error));
+    }
+  }
+
+  /**
+   * Count a signal delivered to the WebSocket
+   */
+  private countSignalSent(signalType: string): void {
+    this.stats.signalsSent++;
+    this.signalsSentByType.inc({ signal_type: signalType });
+  }
+
+  /**
+   * Rebuild the contextual logger
+   */
+  private updateLogger(): void {
+    this.logger = this.redactor.logger(withFields(this.baseLogger, this.logContext));
+    if (this.journal) {
+      this.journal.setLogger(this.logger);
+    }
+  }
+
+  /**
+   * Create an iterator tracked until it ends
+   */
+  private createIterator<T>(options: EventIteratorOptions, subscribe: (iterator: EventIterator<T>) => void): EventIterator<T> {
+    const iterator = new EventIterator<T>(options);
+    if (iterator.signal.aborted) {
+      return iterator;
+    }
+
+    this.iterators.add(iterator);
+    iterator.signal.addEventListener('abort', () => this.iterators.delete(iterator), { once: true });
+    subscribe(iterator);
+    return iterator;
+  }
+
+  /**
+   * Handle binary message
+   */
+  private handleBinaryMessage(message: Buffer, record: boolean): void {
+    let frame: BinaryFrame;
+    try {
+      frame = decodeBinaryFrame(message);
+    } catch (error: any) {
+      if (record) {
+        this.recordBinary('in', message);
+      }
+      this.logger.warn('Malformed binary frame', errorFields(error));
+      this.stats.malformedFrames++;
+      this.stats.errors++;
+      this.emit('error', ErrorCode.INVALID_FRAME, this.errorMessage(error));
+      return;
+    }
+
+    if (record && this.recorder) {
+      this.writeRecord('in', 'binary', frame.data.toString('base64'), frame.dataType);
+    }
+    this.handleFrame(frame);
+  }
+
+  /**
+   * Handle a decoded binary frame
+   */
+  private handleFrame(frame: BinaryFrame): void {
+    if (frame.dataType === FRAGMENT_DATA_TYPE) {
+      let reassembled: ReassembledData | null;
+      try {
+        reassembled = this.assembler.push(frame.data);
+      } catch (error: any) {
+        this.logger.warn('Malformed binary fragment', errorFields(error));
+        this.stats.malformedFrames++;
+        this.stats.errors++;
+        this.emit('error', ErrorCode.INVALID_FRAME, this.errorMessage(error));
+        return;
+      }
+      if (reassembled) {
+        this.deliverBinary(reassembled.data, reassembled.dataType);
+      }
+      return;
+    }
+
+    this.deliverBinary(frame.data, frame.dataType);
+  }
+
+  /**
+   * Deliver decoded binary data to callbacks
+   */
+  private deliverBinary(data: Buffer, dataType: string): void {
+    this.stats.audioReceived++;
+    if (dataType === 'OPUS') {
+      this.audioSessions.handlePacket(data);
+    }
+    for (const listener of this.binaryListeners) {
+      listener.onData(data, dataType);
+    }
+    this.emit('binary', data, dataType);
+    if (dataType === 'OPUS' && this.onAudioData) {
+      this.onAudioData(data);
+    }
+  }
+
   /**
    * Handle text message
    */
   private handleTextMessage(message: string): void {
+    let data: any;
     try {
-      const data = JSON.parse(message);
-
-      // Check if it's a directive
-      if (data.name && data.id) {
-        const directive = Directive.fromJSON(message);
-        this.stats.directivesReceived++;
-        if (this.onDirective && this.config.enableDirectiveReceiving) {
-          this.onDirective(directive);
+      data = JSON.parse(message);
+    } catch (error) {
+      this.logger.warn('Invalid JSON message', { data: message });
+      this.stats.errors++;
+      this.emit('error', ErrorCode.INTERNAL_ERROR, 'Invalid JSON message');
+      return;
+    }
+
+    // Check if it's a directive
+    if (!data || !data.name || !data.id) {
+      this.logger.debug('Received unknown message', { data });
+      return;
+    }
+
+    const directive = Directive.fromJSON(message);
+    this.stats.directivesReceived++;
+    this.directivesByName.inc({ directive: directive.name });
+    if (!this.config.enableDirectiveReceiving) {
+      return;
+    }
+
+    // Invalid parameters and handler failures are reported by validateDirective() and dispatchDirective()
+    try {
+      if (this.validateDirective(directive)) {
+        this.audioSessions.handleDirective(directive);
+        this.dispatchDirective(directive);
+      }
+    } catch (error: any) {
+      this.logger.error('Failed to process directive', { directiveId: directive.id, directiveName: directive.name, ...errorFields(error) });
+      this.stats.errors++;
+      this.emit('error', ErrorCode.INTERNAL_ERROR, `Directive ${directive.name} (${directive.id}): ${this.errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Check directive parameters against the schema registered for its name
+   *
+   * @returns false if the directive must not be dispatched
+   */
+  private validateDirective(directive: Directive): boolean {
+    if (!this.directiveSchemas || this.config.directiveValidation === 'off') {
+      return true;
+    }
+
+    const errors = this.directiveSchemas.validate(directive.name, directive.getParameters());
+    if (errors.length === 0) {
+      return true;
+    }
+
+    const message = `Invalid ${directive.name} parameters: ${formatSchemaErrors(errors)}`;
+    this.stats.invalidDirectives++;
+    if (this.config.directiveValidation === 'warn') {
+      this.logger.warn('Invalid directive parameters', { directiveId: directive.id, directiveName: directive.name, errors });
+      return true;
+    }
+
+    this.emit('error', ErrorCode.INVALID_DIRECTIVE, `Directive ${directive.id}: ${message}`);
+    if (this.config.directiveRejectInvalid) {
+      this.replyToDirective(directive, 'failed', {
+        error: { code: 'INVALID_PARAMETERS', message, fields: errors }
+      }).catch((error) => this.logger.error('Failed to reject directive', { directiveId: directive.id, ...errorFields(error) }));
+    }
+    return false;
+  }
+
+  /**
+   * Bind replies, apply auto-ack/timeout and invoke the directive callback and router
+   */
+  private dispatchDirective(directive: Directive): void {
+    // Replies continue the processing span
+    const span = this.tracer.startSpan(`process ${directive.name}`, {
+      kind: 'consumer',
+      parent: directive.traceContext,
+      attributes: { 'streamind.device_id': this.config.deviceId, 'streamind.directive.id': directive.id, 'streamind.directive.name': directive.name }
+    });
+    this.directiveTraces.set(directive, span.context);
+
+    directive.setReplier((status, payload) =>
+      this.replyToDirective(directive, status, payload).then(
+        () => ErrorCode.OK,
+        (error: any) => error.code || ErrorCode.SEND_FAILED
+      )
+    );
+
+    if (this.config.directiveAutoAck) {
+      directive.ack();
+    }
+
+    if (this.config.directiveTimeoutMs > 0) {
+      this.directiveTimers.set(directive, this.clock.setTimeout(() => {
+        this.directiveTimers.delete(directive);
+        directive.fail(`Directive not completed within ${this.config.directiveTimeoutMs}ms`, 'TIMEOUT');
+      }, this.config.directiveTimeoutMs));
+    }
+
+    // Observers first; their failures are reported but do not fail the directive
+    this.emit('directive', directive);
+
+    this.runDirectiveHandlers(directive).then(
+      ({ handled, result }) => {
+        span.end();
+        if (handled) {
+          this.autoComplete(directive, () => directive.complete(result && typeof result === 'object' ? result as Record<string, any> : {}));
         }
-      } else {
-        console.debug('Received message:', data);
+      },
+      (error: unknown) => {
+        this.reportHandlerError(directive, error);
+        span.end(error instanceof Error ? error : new Error(String(error)));
+        this.autoComplete(directive, () => directive.fail(error instanceof Error ? error : String(error)));
       }
+    );
+  }
 
-    } catch (error) {
-      console.warn('Invalid JSON message:', message);
-      this.stats.errors++;
-      if (this.onError) {
-        this.onError(ErrorCode.INTERNAL_ERROR, 'Invalid JSON message');
+  /**
+   * Run the directive callback, then the router (middleware and handlers)
+   *
+   * The first failure stops the chain. Resolves to whether a handler ran and the
+   * last handler's result.
+   */
+  private async runDirectiveHandlers(directive: Directive): Promise<DispatchResult> {
+    let outcome: DispatchResult = { handled: false, result: undefined };
+    if (this.onDirective) {
+      outcome = { handled: true, result: await this.onDirective(directive) };
+    }
+    if (this.router) {
+      const routed = await this.router.dispatch(directive);
+      if (routed.handled) {
+        outcome = routed;
       }
     }
+    return outcome;
+  }
+
+  /**
+   * Settle a directive under directiveAutoComplete, unless a handler replied itself
+   */
+  private autoComplete(directive: Directive, settle: () => void): void {
+    if (this.config.directiveAutoComplete && !this.settledDirectives.has(directive)) {
+      settle();
+    }
+  }
+
+  /**
+   * Redacted message of a caught error
+   */
+  private errorMessage(error: unknown): string {
+    return this.redactor.text(error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Report 'directive' listener failures like handler failures
+   */
+  protected listenerFailed<K extends keyof TerminalEvents>(event: K, args: TerminalEvents[K], error: unknown): void {
+    if (event === 'directive') {
+      this.reportHandlerError(args[0] as Directive, error);
+    } else {
+      super.listenerFailed(event, args, error);
+    }
+  }
+
+  /**
+   * Route a directive handler error to the error callback (also used by the SDK for its directive listeners)
+   */
+  reportHandlerError(directive: Directive, error: unknown): void {
+    const message = this.errorMessage(error);
+    this.logger.error('Directive handler failed', { directiveId: directive.id, directiveName: directive.name, ...errorFields(error) });
+    this.emit('error', ErrorCode.HANDLER_FAILED, `Directive ${directive.name} (${directive.id}): ${message}`);
   }
 
   /**
@@ -464,7 +1499,7 @@ export class WebSocketTransport {
    */
   private startHeartbeat(): void {
     if (this.heartbeatTimer) {
-      clearTimeout(this.heartbeatTimer);
+      this.clock.clearTimeout(this.heartbeatTimer);
     }
 
     const sendHeartbeat = () => {
@@ -473,19 +1508,38 @@ export class WebSocketTransport {
       }
 
       // Only send heartbeat if no recent activity
-      const now = Date.now();
+      const now = this.clock.now();
       if (now - this.lastActivity >= this.config.heartbeatIntervalMs) {
         const heartbeat = JSON.stringify({ type: 'ping' });
         this.sendMessage(heartbeat).catch((error) => {
-          console.error('Heartbeat failed:', error);
+          this.logger.error('Heartbeat failed', errorFields(error));
           this.handleDisconnect();
         });
+
+        this.sendPing();
       }
 
-      this.heartbeatTimer = setTimeout(sendHeartbeat, this.config.heartbeatIntervalMs);
+      this.heartbeatTimer = this.clock.setTimeout(sendHeartbeat, this.config.heartbeatIntervalMs);
     };
 
-    this.heartbeatTimer = setTimeout(sendHeartbeat, this.config.heartbeatIntervalMs);
+    this.heartbeatTimer = this.clock.setTimeout(sendHeartbeat, this.config.heartbeatIntervalMs);
+  }
+
+  /**
+   * Send a WebSocket ping unless one is outstanding (unanswered pings expire)
+   *
+   * The pong measures the round-trip time and confirms that the platform
+   * received every journaled signal sent before the ping: it answers pings
+   * in order with the messages before them.
+   */
+  private sendPing(): void {
+    const now = this.clock.now();
+    if (!this.ws || !this.connected || (this.pingSentAt > 0 && now - this.pingSentAt < this.config.connectionTimeoutMs)) {
+      return;
+    }
+    this.pingSentAt = now;
+    this.confirming = this.journal ? this.journal.sentSeqs() : [];
+    this.ws.ping(String(++this.pingId));
   }
 
   /**
@@ -497,21 +1551,32 @@ export class WebSocketTransport {
     }
 
     this.connected = false;
+    this.flushing = false;
     this.ws = null;
+    this.pingSentAt = 0;
+    this.confirming = [];
+    if (this.journal) {
+      // Unconfirmed signals are sent again after reconnecting
+      this.journal.resetSent();
+    }
+    if (this.disconnectedAt === 0) {
+      this.disconnectedAt = this.clock.now();
+    }
+    this.assembler.clear();
+    this.audioSessions.endAll('disconnected');
 
     // Stop heartbeat
     if (this.heartbeatTimer) {
-      clearTimeout(this.heartbeatTimer);
+      this.clock.clearTimeout(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
 
-    console.warn('Disconnected from platform');
-    if (this.onConnected) {
-      this.onConnected(false, 'Connection lost');
-    }
+    this.logger.warn('Disconnected from platform');
+    this.emit('disconnected', 'Connection lost');
 
     // Trigger auto-reconnect
     if (this.shouldReconnect) {
+      this.reconnecting = true;
       this.startReconnect();
     }
   }
@@ -523,15 +1588,18 @@ export class WebSocketTransport {
     // Check max attempts
     if (this.config.maxReconnectAttempts > 0 &&
         this.reconnectAttempts >= this.config.maxReconnectAttempts) {
-      console.error('Max reconnect attempts reached');
+      this.logger.error('Max reconnect attempts reached', { attempts: this.reconnectAttempts });
+      this.reconnecting = false;
+      this.reconnectGaveUp = true;
       return;
     }
 
     // Calculate backoff delay
     const delay = this.calculateBackoffDelay();
-    console.log(`Reconnecting in ${(delay / 1000).toFixed(2)} seconds (attempt ${this.reconnectAttempts + 1})...`);
+    this.logger.info('Reconnecting', { attempt: this.reconnectAttempts + 1, delayMs: Math.round(delay) });
+    this.emit('reconnecting', this.reconnectAttempts + 1, delay);
 
-    this.reconnectTimer = setTimeout(async () => {
+    this.reconnectTimer = this.clock.setTimeout(async () => {
       if (!this.shouldReconnect || this.connected) {
         return;
       }
@@ -540,7 +1608,7 @@ export class WebSocketTransport {
       try {
         await this.connect();
       } catch (error) {
-        console.error('Reconnect failed:', error);
+        this.logger.error('Reconnect failed', { attempt: this.reconnectAttempts, ...errorFields(error) });
         this.startReconnect();  // Try again
       }
     }, delay);
@@ -560,7 +1628,7 @@ export class WebSocketTransport {
     delay = Math.min(delay, maxDelay);
 
     // Add jitter
-    const jitterAmount = delay * jitter * (Math.random() * 2 - 1);
+    const jitterAmount = delay * jitter * (this.config.random() * 2 - 1);
     delay += jitterAmount;
 
     return Math.max(0, delay);
@@ -0,0 +1,142 @@
+import { AudioPacer, AudioPacerOptions } from '../src/audio-pacer';
+import { VirtualClock } from '../src/clock';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { WebSocketTransport } from '../src/transport';
+
+/**
+ * Records the clock time of each sent frame
+ */
+class FakeTransport {
+  readonly clock = new VirtualClock(0);
+  sent: Array<[number, string]> = [];
+  sendError: Error | null = null;
+
+  getClock(): VirtualClock {
+    return this.clock;
+  }
+
+  async sendBinaryData(data: Buffer): Promise<void> {
+    if (this.sendError) {
+      throw this.sendError;
+    }
+    this.sent.push([this.clock.now(), data.toString()]);
+  }
+}
+
+describe('AudioPacer', () => {
+  let transport: FakeTransport;
+
+  function pacer(options: AudioPacerOptions = {}): AudioPacer {
+    return new AudioPacer(transport as unknown as WebSocketTransport, options);
+  }
+
+  beforeEach(() => {
+    transport = new FakeTransport();
+  });
+
+  it('sends each frame once the audio before it has played out', async () => {
+    const audio = pacer();
+    audio.enqueue(Buffer.from('a'));
+    audio.enqueue(Buffer.from('b'), 30);
+    audio.enqueue(Buffer.from('c'));
+    expect(audio.getStatistics()).toMatchObject({ queuedFrames: 3, queuedMs: 70 });
+
+    await transport.clock.advanceAsync(100);
+    expect(transport.sent).toEqual([[0, 'a'], [20, 'b'], [50, 'c']]);
+    expect(audio.getStatistics()).toMatchObject({ framesSent: 3, queuedFrames: 0 });
+  });
+
+  it('keeps the schedule of frames queued while playing', async () => {
+    const audio = pacer();
+    audio.enqueue(Buffer.from('a'));
+    await transport.clock.advanceAsync(10);
+    audio.enqueue(Buffer.from('b'));
+    await transport.clock.advanceAsync(5);
+    audio.enqueue(Buffer.from('c'));
+
+    await transport.clock.advanceAsync(100);
+    expect(transport.sent.map(([time]) => time)).toEqual([0, 20, 40]);
+    expect(audio.getStatistics().underruns).toBe(0);
+  });
+
+  it('reports an underrun when frames arrive after the audio ran out', async () => {
+    const gaps: number[] = [];
+    const audio = pacer({ onUnderrun: (gapMs) => gaps.push(gapMs) });
+    audio.enqueue(Buffer.from('a'));
+    await transport.clock.advanceAsync(50);
+    audio.enqueue(Buffer.from('b'));
+    await transport.clock.advanceAsync(0);
+
+    expect(gaps).toEqual([30]);
+    expect(transport.sent).toEqual([[0, 'a'], [50, 'b']]);
+
+    audio.reset();
+    await transport.clock.advanceAsync(100);
+    audio.enqueue(Buffer.from('c'));
+    expect(audio.getStatistics().underruns).toBe(1);
+  });
+
+  it('drops frames beyond maxQueuedFrames', () => {
+    const audio = pacer({ maxQueuedFrames: 2 });
+
+    expect([1, 2, 3].map((frame) => audio.enqueue(Buffer.from(String(frame))))).toEqual([true, true, false]);
+    expect(audio.getStatistics()).toMatchObject({ queuedFrames: 2, framesDropped: 1 });
+  });
+
+  it('holds frames while paused and restarts the clock on resume', async () => {
+    const audio = pacer();
+    audio.enqueue(Buffer.from('a'));
+    audio.enqueue(Buffer.from('b'));
+    await transport.clock.advanceAsync(0);
+    audio.pause();
+    await transport.clock.advanceAsync(100);
+    expect(audio.getStatistics()).toMatchObject({ paused: true, queuedFrames: 1 });
+
+    audio.resume();
+    await transport.clock.advanceAsync(0);
+    expect(transport.sent).toEqual([[0, 'a'], [100, 'b']]);
+  });
+
+  it('discards queued frames on flush and resolves drain()', async () => {
+    const audio = pacer();
+    audio.enqueue(Buffer.from('a'));
+    audio.enqueue(Buffer.from('b'));
+    audio.enqueue(Buffer.from('c'));
+    await transport.clock.advanceAsync(0);
+    const drained = audio.drain();
+
+    expect(audio.flush()).toBe(2);
+    await drained;
+    await transport.clock.advanceAsync(100);
+    expect(transport.sent).toEqual([[0, 'a']]);
+  });
+
+  it('resolves drain() once every frame has been sent', async () => {
+    const audio = pacer();
+    audio.enqueue(Buffer.from('a'));
+    audio.enqueue(Buffer.from('b'));
+    let drained = false;
+    audio.drain().then(() => {
+      drained = true;
+    });
+
+    await transport.clock.advanceAsync(10);
+    expect(drained).toBe(false);
+    await transport.clock.advanceAsync(10);
+    expect(drained).toBe(true);
+  });
+
+  it('drops a frame that fails to send and reports it', async () => {
+    const errors: Array<[ErrorCode, string]> = [];
+    const audio = pacer({ onError: (code, message) => errors.push([code, message]) });
+    transport.sendError = new StreamIndError(ErrorCode.NOT_CONNECTED, 'Not connected');
+    audio.enqueue(Buffer.from('a'));
+    await transport.clock.advanceAsync(0);
+    transport.sendError = new Error('socket closed');
+    audio.enqueue(Buffer.from('b'));
+    await transport.clock.advanceAsync(20);
+
+    expect(errors).toEqual([[ErrorCode.NOT_CONNECTED, 'Not connected'], [ErrorCode.SEND_FAILED, 'socket closed']]);
+    expect(audio.getStatistics()).toMatchObject({ framesSent: 0, framesDropped: 2 });
+  });
+});
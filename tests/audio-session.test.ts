@@ -0,0 +1,159 @@
+import { AudioSessionManager, AudioStreamSession } from '../src/audio-session';
+import { VirtualClock } from '../src/clock';
+import { Directive, SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+
+function start(id: string, parameters: Record<string, any> = {}): Directive {
+  return new Directive(id, 'audio.opus_data_start', parameters);
+}
+
+function end(id: string, parameters: Record<string, any> = {}): Directive {
+  return new Directive(id, 'audio.opus_data_end', parameters);
+}
+
+async function drain(session: AudioStreamSession): Promise<string[]> {
+  const packets: string[] = [];
+  for await (const packet of session) {
+    packets.push(packet.toString());
+  }
+  return packets;
+}
+
+describe('AudioSessionManager', () => {
+  let clock: VirtualClock;
+  let manager: AudioSessionManager;
+  let sessions: AudioStreamSession[];
+
+  beforeEach(() => {
+    clock = new VirtualClock(1000);
+    manager = new AudioSessionManager(500, clock);
+    sessions = [];
+    manager.setSessionCallback((session) => {
+      sessions.push(session);
+    });
+  });
+
+  it('reads stream parameters from the start directive', () => {
+    manager.handleDirective(start('dir_1', { stream_id: 's1', sample_rate: 48000, channels: 2, duration: 1.5 }));
+    manager.handleDirective(start('dir_2'));
+
+    expect(sessions[0]).toMatchObject({ streamId: 's1', sampleRate: 48000, channels: 2, duration: 1.5, startedAt: 1000 });
+    expect(sessions[1]).toMatchObject({ streamId: 'dir_2', sampleRate: 16000, channels: 1, duration: 0 });
+  });
+
+  it('ignores start directives while no callback is set', () => {
+    manager.setSessionCallback(null);
+    expect(manager.handleDirective(start('dir_1'))).toBe(false);
+    expect(manager.getSessions()).toEqual([]);
+  });
+
+  it('yields packets until the end directive, then drops them', async () => {
+    manager.handleDirective(start('dir_1', { stream_id: 's1' }));
+    manager.handlePacket(Buffer.from('a'));
+    manager.handlePacket(Buffer.from('b'));
+    expect(manager.handleDirective(end('dir_2', { stream_id: 's1' }))).toBe(true);
+    manager.handlePacket(Buffer.from('c'));
+
+    const [session] = sessions;
+    expect(await drain(session)).toEqual(['a', 'b']);
+    expect(session.getEndReason()).toBe('end');
+    expect(session.packetsReceived).toBe(2);
+    expect(session.bytesReceived).toBe(2);
+    expect(manager.getSessions()).toEqual([]);
+  });
+
+  it('routes packets to the latest session and ends the latest one without a stream_id', async () => {
+    manager.handleDirective(start('dir_1', { stream_id: 's1' }));
+    manager.handleDirective(start('dir_2', { stream_id: 's2' }));
+    manager.handlePacket(Buffer.from('a'));
+    manager.handleDirective(end('dir_3'));
+
+    expect(sessions[0].isActive()).toBe(true);
+    expect(sessions[0].packetsReceived).toBe(0);
+    expect(await drain(sessions[1])).toEqual(['a']);
+    expect(manager.getSessions()).toEqual([sessions[0]]);
+  });
+
+  it('cancels a session restarted with the same stream_id', async () => {
+    manager.handleDirective(start('dir_1', { stream_id: 's1' }));
+    manager.handleDirective(start('dir_2', { stream_id: 's1' }));
+
+    expect(await sessions[0].waitForEnd()).toBe('cancelled');
+    expect(manager.getSessions()).toEqual([sessions[1]]);
+  });
+
+  it('ends a session after the idle timeout, restarted by each packet', async () => {
+    manager.handleDirective(start('dir_1'));
+    const [session] = sessions;
+    clock.advance(400);
+    manager.handlePacket(Buffer.from('a'));
+    clock.advance(400);
+    expect(session.isActive()).toBe(true);
+
+    clock.advance(100);
+    expect(await session.waitForEnd()).toBe('timeout');
+    expect(await drain(session)).toEqual(['a']);
+  });
+
+  it('discards buffered packets when the loop breaks', async () => {
+    manager.handleDirective(start('dir_1'));
+    manager.handlePacket(Buffer.from('a'));
+    manager.handlePacket(Buffer.from('b'));
+    const [session] = sessions;
+
+    for await (const packet of session) {
+      expect(packet.toString()).toBe('a');
+      break;
+    }
+    expect(session.getEndReason()).toBe('cancelled');
+    expect(await drain(session)).toEqual([]);
+  });
+
+  it('ends every session with endAll()', async () => {
+    manager.handleDirective(start('dir_1', { stream_id: 's1' }));
+    manager.handleDirective(start('dir_2', { stream_id: 's2' }));
+    manager.endAll('disconnected');
+
+    expect(await Promise.all(sessions.map((session) => session.waitForEnd()))).toEqual(['disconnected', 'disconnected']);
+  });
+});
+
+describe('terminal audio sessions', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('streams pushed audio and ends the session on disconnect', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    const started = new Promise<AudioStreamSession>((resolve) => {
+      sdk.setAudioSessionCallback('t', resolve);
+    });
+    await sdk.connect('t');
+
+    platform.pushDirective('audio.opus_data_start', { stream_id: 's1' });
+    const session = await started;
+    platform.pushAudio(Buffer.from('a'));
+    platform.pushAudio(Buffer.from('b'));
+    const packets: string[] = [];
+    for await (const packet of session) {
+      packets.push(packet.toString());
+      if (packets.length === 2) {
+        await sdk.disconnect('t');
+      }
+    }
+
+    expect(packets).toEqual(['a', 'b']);
+    expect(session.getEndReason()).toBe('disconnected');
+    expect(sdk.getAudioSessions('t')).toEqual([]);
+  });
+});
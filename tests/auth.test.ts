@@ -0,0 +1,172 @@
+import {
+  AuthContext,
+  AuthStrategy,
+  HeaderAuth,
+  SignedTokenAuth,
+  SignedTokenClaims,
+  createSignedToken,
+  queryAuth,
+  verifySignedToken
+} from '../src/auth';
+import { ErrorCode } from '../src/errors';
+import { SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+
+const context: AuthContext = {
+  tenantId: 'tenant',
+  productId: 'product',
+  productKey: 'product-key',
+  deviceId: 'device-1',
+  now: 1700000000000
+};
+
+const claims: SignedTokenClaims = {
+  tenantId: 'tenant',
+  productId: 'product',
+  deviceId: 'device-1',
+  timestamp: 1700000000000,
+  expiresAt: 1700000060000,
+  nonce: '00112233'
+};
+
+describe('signed tokens', () => {
+  it('verifies a token signed with the same key', () => {
+    const token = createSignedToken(claims, 'product-key');
+    expect(verifySignedToken(token, 'product-key', claims.timestamp)).toEqual(claims);
+  });
+
+  it('rejects a token signed with another key', () => {
+    const token = createSignedToken(claims, 'other-key');
+    expect(verifySignedToken(token, 'product-key', claims.timestamp)).toBeNull();
+  });
+
+  it('rejects a token whose payload was modified', () => {
+    const [, signature] = createSignedToken(claims, 'product-key').split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, deviceId: 'device-2' })).toString('base64url');
+    expect(verifySignedToken(`${forged}.${signature}`, 'product-key', claims.timestamp)).toBeNull();
+  });
+
+  it('rejects a token whose signature was modified', () => {
+    const [payload, signature] = createSignedToken(claims, 'product-key').split('.');
+    const tampered = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+    expect(verifySignedToken(`${payload}.${tampered}`, 'product-key', claims.timestamp)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    const token = createSignedToken(claims, 'product-key');
+    expect(verifySignedToken(token, 'product-key', claims.expiresAt)).toEqual(claims);
+    expect(verifySignedToken(token, 'product-key', claims.expiresAt + 1)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const token = createSignedToken(claims, 'product-key');
+    expect(verifySignedToken('', 'product-key')).toBeNull();
+    expect(verifySignedToken('payload', 'product-key')).toBeNull();
+    expect(verifySignedToken(`${token}.extra`, 'product-key')).toBeNull();
+
+    const notJson = Buffer.from('not json').toString('base64url');
+    const [, signature] = createSignedToken(claims, 'product-key').split('.');
+    expect(verifySignedToken(`${notJson}.${signature}`, 'product-key')).toBeNull();
+  });
+});
+
+describe('auth strategies', () => {
+  it('sends the product key as a query parameter or header', () => {
+    expect(queryAuth.credentials(context)).toEqual({ query: { productKey: 'product-key' } });
+    expect(new HeaderAuth().credentials(context)).toEqual({ headers: { Authorization: 'Bearer product-key' } });
+    expect(new HeaderAuth({ scheme: 'Key' }).credentials(context)).toEqual({ headers: { Authorization: 'Key product-key' } });
+  });
+
+  it('signs a fresh token that expires after expiresInMs', () => {
+    const auth = new SignedTokenAuth({ expiresInMs: 1000 });
+    const first = auth.credentials(context).headers!.Authorization.replace('Bearer ', '');
+    const second = auth.credentials(context).headers!.Authorization.replace('Bearer ', '');
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('product-key');
+    expect(verifySignedToken(first, 'product-key', context.now)).toMatchObject({
+      tenantId: 'tenant',
+      deviceId: 'device-1',
+      timestamp: context.now,
+      expiresAt: context.now + 1000
+    });
+    expect(verifySignedToken(first, 'product-key', context.now + 1001)).toBeNull();
+  });
+
+  it('places the token in the query when asked', () => {
+    const { query, headers } = new SignedTokenAuth({ placement: 'query' }).credentials(context);
+    expect(headers).toBeUndefined();
+    expect(verifySignedToken(query!.token, 'product-key', context.now)).not.toBeNull();
+  });
+});
+
+describe('authentication on connect', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('authenticates with each strategy', async () => {
+    const strategies: Array<[AuthStrategy, string]> = [
+      [queryAuth, 'query'],
+      [new HeaderAuth(), 'header'],
+      [new SignedTokenAuth(), 'token'],
+      [new SignedTokenAuth({ placement: 'query' }), 'token']
+    ];
+    for (const [auth, method] of strategies) {
+      sdk.registerTerminal('t', platform.terminalConfig({ auth }));
+      expect(await sdk.connect('t')).toBe(ErrorCode.OK);
+      expect(platform.getConnections().map((connection) => connection.auth)).toEqual([method]);
+      await sdk.unregisterTerminal('t');
+      while (platform.getConnections().length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    }
+  });
+
+  it('fetches credentials again on every reconnect', async () => {
+    const signer = new SignedTokenAuth();
+    const tokens: string[] = [];
+    const auth: AuthStrategy = {
+      credentials: (authContext) => {
+        const credentials = signer.credentials(authContext);
+        tokens.push(credentials.headers!.Authorization);
+        return credentials;
+      }
+    };
+    sdk.registerTerminal('t', platform.terminalConfig({
+      auth,
+      baseReconnectIntervalMs: 10,
+      maxReconnectIntervalMs: 10,
+      jitterFactor: 0
+    }));
+    await sdk.connect('t');
+
+    const reconnected = new Promise<void>((resolve) => sdk.once('connected', () => resolve()));
+    platform.dropConnections();
+    await reconnected;
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).not.toBe(tokens[1]);
+  });
+
+  it('returns AUTH_FAILED when the strategy throws', async () => {
+    const auth: AuthStrategy = {
+      credentials: async () => {
+        throw new Error('key store locked');
+      }
+    };
+    sdk.registerTerminal('t', platform.terminalConfig({ auth }));
+    expect(await sdk.connect('t')).toBe(ErrorCode.AUTH_FAILED);
+    expect(platform.getConnections()).toEqual([]);
+  });
+});
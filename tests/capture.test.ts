@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CaptureHeader, CaptureRecord, FileRecorder, ReplayTarget, parseCapture, readCapture, replayCapture } from '../src/capture';
+import { VirtualClock } from '../src/clock';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { Directive, SDK, Signal } from '../src';
+import { MockPlatform } from '../src/testing';
+
+function record(timestamp: number, direction: 'in' | 'out', data: string): CaptureRecord {
+  return { timestamp, direction, kind: 'text', data };
+}
+
+function errorCode(fn: () => unknown): ErrorCode | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error instanceof StreamIndError ? error.code : null;
+  }
+}
+
+/**
+ * Replay target keeping the replay time of each record
+ */
+class TimedTarget implements ReplayTarget {
+  replayed: Array<[number, string]> = [];
+
+  constructor(private readonly clock: VirtualClock) {}
+
+  replayInbound(replayedRecord: CaptureRecord): void {
+    this.replayed.push([this.clock.now(), replayedRecord.data]);
+  }
+}
+
+describe('parseCapture', () => {
+  it('returns the message records, skipping the header and blank lines', () => {
+    const header: CaptureHeader = { capture: 'streamind', version: 1, startedAt: '2024-01-01T00:00:00.000Z', deviceId: 'd', endpoint: 'ws://x' };
+    const text = [header, record(1, 'in', 'a'), record(2, 'out', 'b')].map((entry) => JSON.stringify(entry)).join('\n') + '\n\n';
+
+    expect(parseCapture(text)).toEqual([record(1, 'in', 'a'), record(2, 'out', 'b')]);
+  });
+
+  it('rejects lines that are not JSON or not records', () => {
+    expect(errorCode(() => parseCapture('{"timestamp":1,'))).toBe(ErrorCode.INVALID_PARAMETER);
+    expect(() => parseCapture(`${JSON.stringify(record(1, 'in', 'a'))}\n{"timestamp":2,"direction":"up","kind":"text","data":""}`))
+      .toThrow('Capture line 2 is not a capture record');
+  });
+});
+
+describe('FileRecorder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-capture-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per entry', async () => {
+    const file = path.join(dir, 'session.jsonl');
+    const recorder = new FileRecorder(file);
+    recorder.write(record(1, 'in', 'a'));
+    recorder.write(record(2, 'out', 'b'));
+    await recorder.close();
+
+    expect(readCapture(file)).toEqual([record(1, 'in', 'a'), record(2, 'out', 'b')]);
+  });
+
+  it('fails close() when the file cannot be written', async () => {
+    const recorder = new FileRecorder(path.join(dir, 'missing', 'session.jsonl'));
+    recorder.write(record(1, 'in', 'a'));
+
+    await expect(recorder.close()).rejects.toThrow('ENOENT');
+  });
+});
+
+describe('replayCapture', () => {
+  const records = [record(1000, 'in', 'a'), record(1100, 'out', 'skipped'), record(1200, 'in', 'b'), record(1500, 'in', 'c')];
+  let clock: VirtualClock;
+  let target: TimedTarget;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+    target = new TimedTarget(clock);
+  });
+
+  it('replays inbound records with their original spacing', async () => {
+    const replay = replayCapture(records, target, { clock });
+    await clock.advanceAsync(1000);
+
+    expect(await replay).toBe(3);
+    expect(target.replayed).toEqual([[0, 'a'], [200, 'b'], [500, 'c']]);
+  });
+
+  it('scales the spacing by speed, or drops it with speed 0', async () => {
+    const replay = replayCapture(records, target, { clock, speed: 2 });
+    await clock.advanceAsync(1000);
+    await replay;
+    expect(target.replayed.map(([time]) => time)).toEqual([0, 100, 250]);
+
+    target.replayed = [];
+    expect(await replayCapture(records, target, { clock, speed: 0 })).toBe(3);
+    expect(target.replayed.map(([time]) => time)).toEqual([1000, 1000, 1000]);
+  });
+
+  it('stops with CANCELLED when aborted', async () => {
+    const controller = new AbortController();
+    const replay = replayCapture(records, target, { clock, signal: controller.signal });
+    await clock.advanceAsync(250);
+    controller.abort();
+
+    await expect(replay).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    expect(target.replayed.map(([, data]) => data)).toEqual(['a', 'b']);
+  });
+
+  it('rejects a negative speed', async () => {
+    await expect(replayCapture(records, target, { clock, speed: -1 })).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMETER });
+  });
+});
+
+describe('terminal recording and replay', () => {
+  let dir: string;
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-capture-'));
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records traffic without credentials and replays it into another terminal', async () => {
+    const file = path.join(dir, 'session.jsonl');
+    sdk.registerTerminal('live', platform.terminalConfig());
+    expect(await sdk.startRecording('live', file)).toBe(ErrorCode.OK);
+    await sdk.connect('live');
+
+    await sdk.sendSignal('live', new Signal('sensor.data'));
+    const received = new Promise<void>((resolve) => {
+      sdk.setBinaryDataCallback('live', () => resolve());
+    });
+    platform.pushDirective('light.on', { brightness: 80 }, { id: 'dir_1' });
+    platform.pushBinary(Buffer.from('audio'), 'OPUS');
+    await received;
+    expect(await sdk.stopRecording('live')).toBe(ErrorCode.OK);
+
+    const text = fs.readFileSync(file, 'utf8');
+    expect(JSON.parse(text.split('\n')[0])).toMatchObject({ capture: 'streamind', version: 1, deviceId: 'mock-device' });
+    expect(text).not.toContain(platform.terminalConfig().productKey);
+    const records = readCapture(file);
+    expect(records.some((entry) => entry.direction === 'out' && entry.data.includes('"sensor.data"'))).toBe(true);
+    expect(records.filter((entry) => entry.direction === 'in').map((entry) => entry.dataType ?? JSON.parse(entry.data).name))
+      .toEqual(expect.arrayContaining(['light.on', 'OPUS']));
+
+    const directives: Directive[] = [];
+    const binary: Array<[string, string]> = [];
+    sdk.registerTerminal('replay', platform.terminalConfig({ deviceId: 'replay-device' }));
+    sdk.setDirectiveCallback('replay', (directive) => {
+      directives.push(directive);
+    });
+    sdk.setBinaryDataCallback('replay', (data, dataType) => {
+      binary.push([dataType, data.toString()]);
+    });
+
+    expect(await sdk.replayCapture('replay', file, { speed: 0 })).toBe(ErrorCode.OK);
+    expect(directives.map((directive) => [directive.id, directive.name, directive.getParameters()]))
+      .toEqual([['dir_1', 'light.on', { brightness: 80 }]]);
+    expect(binary).toEqual([['OPUS', 'audio']]);
+  });
+
+  it('reports a missing capture file', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    expect(await sdk.replayCapture('t', path.join(dir, 'missing.jsonl'))).toBe(ErrorCode.INVALID_PARAMETER);
+    expect(await sdk.replayCapture('missing', [])).toBe(ErrorCode.TERMINAL_NOT_FOUND);
+  });
+});
@@ -0,0 +1,94 @@
+import { Directive, SDK } from '../src';
+import { ErrorCode } from '../src/errors';
+import { MockPlatform } from '../src/testing';
+
+interface TestCatalog {
+  signals: {
+    'sensor.data': { temperature: number; humidity: number };
+  };
+  directives: {
+    'audio.play': { url: string; volume: number };
+  };
+}
+
+describe('typed catalog', () => {
+  let platform: MockPlatform;
+  let sdk: SDK<TestCatalog>;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK<TestCatalog>();
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('sends catalog signals with their payloads', async () => {
+    expect(await sdk.sendJSON('t', 'sensor.data', { temperature: 25.5, humidity: 60 })).toBe(ErrorCode.OK);
+
+    const { signal } = await platform.waitForSignal('sensor.data');
+    expect(signal.getPayload().getData()).toEqual({ temperature: 25.5, humidity: 60 });
+  });
+
+  it('passes typed parameters to handlers of catalog directives', async () => {
+    const played = new Promise<[string, number]>((resolve) => {
+      sdk.onDirective('t', 'audio.play', (directive) => {
+        const url: string = directive.parameters.url;
+        const volume: number = directive.parameters.volume;
+        resolve([url, volume]);
+      });
+    });
+
+    platform.pushDirective('audio.play', { url: 'https://example.com/a.opus', volume: 80 });
+    expect(await played).toEqual(['https://example.com/a.opus', 80]);
+  });
+
+  it('passes plain directives to wildcard and RegExp handlers', async () => {
+    const names: string[] = [];
+    const received = new Promise<void>((resolve) => {
+      sdk.onDirective('t', 'audio.*', (directive: Directive) => {
+        names.push(directive.name);
+      });
+      sdk.onDirective('t', /^audio\./, (directive: Directive) => {
+        names.push(directive.getStringParameter('url'));
+        resolve();
+      });
+    });
+
+    platform.pushDirective('audio.stop', { url: 'u' });
+    await received;
+    expect(names).toEqual(['audio.stop', 'u']);
+  });
+
+  it('rejects unknown names and mistyped fields at compile time', () => {
+    const checks = () => {
+      // @ts-expect-error unknown signal type
+      sdk.sendJSON('t', 'sensor.unknown', { temperature: 1, humidity: 2 });
+      // @ts-expect-error wrong payload field type
+      sdk.sendJSON('t', 'sensor.data', { temperature: 'hot', humidity: 2 });
+      // @ts-expect-error missing payload field
+      sdk.sendJSON('t', 'sensor.data', { temperature: 1 });
+      // @ts-expect-error unknown directive name
+      sdk.onDirective('t', 'audio.pause', () => undefined);
+      sdk.onDirective('t', 'audio.play', (directive) => {
+        // @ts-expect-error undeclared parameter
+        return directive.parameters.speed;
+      });
+    };
+    expect(typeof checks).toBe('function');
+  });
+
+  it('accepts any signal type and directive name without a catalog', () => {
+    const untyped = new SDK();
+    const checks = () => {
+      untyped.sendJSON('t', 'anything', { any: 'field' });
+      untyped.onDirective('t', 'any.directive', (directive) => directive.parameters.whatever);
+    };
+    expect(typeof checks).toBe('function');
+  });
+});
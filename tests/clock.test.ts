@@ -0,0 +1,153 @@
+import { VirtualClock, seededRandom, sleep } from '../src/clock';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { CaptureHeader, CaptureRecord, Recorder } from '../src/capture';
+import { SDK } from '../src';
+
+describe('VirtualClock', () => {
+  it('runs due timers in order of due time, then creation', () => {
+    const clock = new VirtualClock(1000);
+    const calls: string[] = [];
+    clock.setTimeout(() => calls.push(`b@${clock.now()}`), 20);
+    clock.setTimeout(() => calls.push(`a@${clock.now()}`), 10);
+    clock.setTimeout(() => calls.push(`c@${clock.now()}`), 20);
+    clock.setTimeout(() => calls.push('late'), 50);
+
+    expect(clock.advance(30)).toBe(3);
+    expect(calls).toEqual(['a@1010', 'b@1020', 'c@1020']);
+    expect(clock.now()).toBe(1030);
+    expect(clock.pendingTimers()).toBe(1);
+    expect(clock.nextTimerDelay()).toBe(20);
+  });
+
+  it('runs timers scheduled by a callback within the same advance', () => {
+    const clock = new VirtualClock();
+    const calls: number[] = [];
+    clock.setTimeout(() => {
+      calls.push(clock.now());
+      clock.setTimeout(() => calls.push(clock.now()), 5);
+    }, 10);
+
+    expect(clock.advance(15)).toBe(2);
+    expect(calls).toEqual([10, 15]);
+  });
+
+  it('does not run cleared timers', () => {
+    const clock = new VirtualClock();
+    const callback = jest.fn();
+    const handle = clock.setTimeout(callback, 10);
+    clock.clearTimeout(handle);
+
+    expect(clock.advance(100)).toBe(0);
+    expect(callback).not.toHaveBeenCalled();
+    expect(clock.nextTimerDelay()).toBeNull();
+  });
+
+  it('jumps to the next timer with runNext', () => {
+    const clock = new VirtualClock();
+    clock.setTimeout(() => {}, 250);
+
+    expect(clock.runNext()).toBe(true);
+    expect(clock.now()).toBe(250);
+    expect(clock.runNext()).toBe(false);
+  });
+
+  it('runs every timer with runAll, up to the limit', () => {
+    const clock = new VirtualClock();
+    clock.setTimeout(() => {}, 1);
+    clock.setTimeout(() => {}, 2);
+    expect(clock.runAll(2)).toBe(2);
+
+    const heartbeat = () => {
+      clock.setTimeout(heartbeat, 10);
+    };
+    heartbeat();
+    let error: unknown;
+    try {
+      clock.runAll(5);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StreamIndError);
+    expect((error as StreamIndError).code).toBe(ErrorCode.INTERNAL_ERROR);
+    expect(clock.now()).toBe(52);
+  });
+
+  it('lets promise callbacks settle between timers with advanceAsync', async () => {
+    const clock = new VirtualClock();
+    const calls: number[] = [];
+    clock.setTimeout(async () => {
+      await Promise.resolve();
+      calls.push(clock.now());
+      clock.setTimeout(() => calls.push(clock.now()), 10);
+    }, 10);
+
+    expect(await clock.advanceAsync(20)).toBe(2);
+    expect(calls).toEqual([10, 20]);
+  });
+});
+
+describe('sleep', () => {
+  it('resolves when the clock reaches the delay', async () => {
+    const clock = new VirtualClock();
+    let done = false;
+    const sleeping = sleep(clock, 100).then(() => {
+      done = true;
+    });
+
+    await clock.advanceAsync(99);
+    expect(done).toBe(false);
+    await clock.advanceAsync(1);
+    await sleeping;
+    expect(done).toBe(true);
+  });
+
+  it('resolves early and clears its timer on abort', async () => {
+    const clock = new VirtualClock();
+    const controller = new AbortController();
+    const sleeping = sleep(clock, 1000, controller.signal);
+
+    controller.abort();
+    await sleeping;
+    expect(clock.pendingTimers()).toBe(0);
+    await expect(sleep(clock, 1000, controller.signal)).resolves.toBeUndefined();
+  });
+});
+
+describe('seededRandom', () => {
+  it('repeats the sequence for a seed', () => {
+    const first = seededRandom(42);
+    const second = seededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(seededRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('terminal clock', () => {
+  it('stamps the capture header with the terminal clock', async () => {
+    const clock = new VirtualClock(Date.UTC(2024, 0, 1));
+    const entries: Array<CaptureHeader | CaptureRecord> = [];
+    const recorder: Recorder = {
+      write: (entry) => {
+        entries.push(entry);
+      },
+      close: async () => undefined
+    };
+    const sdk = new SDK();
+    sdk.registerTerminal('t', {
+      deviceId: 'device-1',
+      deviceType: 'speaker',
+      endpoint: 'wss://example.com/ws',
+      tenantId: 'tenant',
+      productId: 'product',
+      productKey: 'secret-key',
+      clock
+    });
+
+    expect(await sdk.startRecording('t', recorder)).toBe(ErrorCode.OK);
+    expect((entries[0] as CaptureHeader).startedAt).toBe('2024-01-01T00:00:00.000Z');
+    await sdk.unregisterTerminal('t');
+  });
+});
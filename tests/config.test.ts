@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../src/config-loader';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { Config, formatConfigErrors, getConfigWithDefaults, redactConfig, validateConfig } from '../src/models';
+
+const baseConfig: Config = {
+  deviceId: 'device-1',
+  deviceType: 'speaker',
+  endpoint: 'wss://example.com/ws',
+  tenantId: 'tenant',
+  productId: 'product',
+  productKey: 'secret-key'
+};
+
+const baseEnv = {
+  STREAMIND_DEVICE_ID: 'device-1',
+  STREAMIND_DEVICE_TYPE: 'speaker',
+  STREAMIND_ENDPOINT: 'wss://example.com/ws',
+  STREAMIND_TENANT_ID: 'tenant',
+  STREAMIND_PRODUCT_ID: 'product',
+  STREAMIND_PRODUCT_KEY: 'secret-key'
+};
+
+function configError(fn: () => unknown): StreamIndError {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(StreamIndError);
+    expect((e as StreamIndError).code).toBe(ErrorCode.INVALID_CONFIG);
+    return e as StreamIndError;
+  }
+  throw new Error('Configuration accepted');
+}
+
+describe('validateConfig', () => {
+  it('accepts a complete configuration', () => {
+    expect(validateConfig(baseConfig)).toEqual([]);
+  });
+
+  it('reports every invalid field', () => {
+    const errors = validateConfig({
+      ...baseConfig,
+      deviceId: ' ',
+      endpoint: 'http://example.com',
+      heartbeatIntervalMs: 0,
+      maxTransferSize: 1.5,
+      baseReconnectIntervalMs: 5000,
+      maxReconnectIntervalMs: 1000,
+      jitterFactor: 2,
+      offlineQueueOverflowPolicy: 'drop-all' as Config['offlineQueueOverflowPolicy']
+    });
+
+    expect(errors).toEqual([
+      { field: 'deviceId', message: 'must be a non-empty string' },
+      { field: 'endpoint', message: 'must use the ws: or wss: scheme (got http:)' },
+      { field: 'heartbeatIntervalMs', message: 'must be a positive number' },
+      { field: 'maxTransferSize', message: 'must be a positive integer' },
+      { field: 'maxReconnectIntervalMs', message: 'must not be less than baseReconnectIntervalMs' },
+      { field: 'jitterFactor', message: 'must be a number between 0 and 1' },
+      { field: 'offlineQueueOverflowPolicy', message: "must be 'drop-oldest', 'drop-newest' or 'reject'" }
+    ]);
+  });
+
+  it('formats errors as "field: message"', () => {
+    expect(formatConfigErrors([
+      { field: 'a', message: 'must be a boolean' },
+      { field: 'b', message: 'must be a string' }
+    ])).toBe('a: must be a boolean; b: must be a string');
+  });
+});
+
+describe('getConfigWithDefaults', () => {
+  it('applies defaults', () => {
+    const config = getConfigWithDefaults(baseConfig);
+    expect(config.heartbeatIntervalMs).toBe(5000);
+    expect(config.maxTransferSize).toBe(64 * 1024 * 1024);
+    expect(config.offlineQueueOverflowPolicy).toBe('drop-oldest');
+  });
+
+  it('throws INVALID_CONFIG listing the invalid fields', () => {
+    const error = configError(() => getConfigWithDefaults({ ...baseConfig, backoffFactor: 0.5, journalDir: 1 as unknown as string }));
+    expect(error.message).toBe('Invalid configuration: backoffFactor: must be a number >= 1; journalDir: must be a string');
+  });
+
+  it('masks secrets when printed', () => {
+    const config = getConfigWithDefaults(baseConfig);
+    expect(String(config)).not.toContain('secret-key');
+    expect(redactConfig(config).productKey).not.toBe('secret-key');
+    expect(redactConfig(config).deviceId).toBe('device-1');
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads fields from the environment', () => {
+    const config = loadConfig({
+      env: { ...baseEnv, STREAMIND_HEARTBEAT_INTERVAL_MS: '2500', STREAMIND_OFFLINE_QUEUE_ENABLED: 'yes' }
+    });
+
+    expect(config.deviceId).toBe('device-1');
+    expect(config.heartbeatIntervalMs).toBe(2500);
+    expect(config.offlineQueueEnabled).toBe(true);
+  });
+
+  it('reads a flat YAML file, with the environment and overrides taking precedence', () => {
+    const file = path.join(dir, 'streamind.yaml');
+    fs.writeFileSync(file, [
+      '# device settings',
+      'deviceId: from-file',
+      'deviceType: "speaker"',
+      "endpoint: 'wss://example.com/ws'",
+      'tenantId: tenant  # inline comment',
+      'productId: product',
+      'productKey: key#not-a-comment',
+      'heartbeatIntervalMs: 3000',
+      'offlineQueueEnabled: true',
+      'journalDir: ~'
+    ].join('\n'));
+
+    const config = loadConfig({
+      file,
+      env: { STREAMIND_DEVICE_ID: 'from-env' },
+      overrides: { heartbeatIntervalMs: 1000 }
+    });
+
+    expect(config.deviceId).toBe('from-env');
+    expect(config.deviceType).toBe('speaker');
+    expect(config.tenantId).toBe('tenant');
+    expect(config.productKey).toBe('key#not-a-comment');
+    expect(config.heartbeatIntervalMs).toBe(1000);
+    expect(config.offlineQueueEnabled).toBe(true);
+    expect(config.journalDir).toBe('');
+  });
+
+  it('reads a JSON file named by STREAMIND_CONFIG_FILE', () => {
+    const file = path.join(dir, 'streamind.json');
+    fs.writeFileSync(file, JSON.stringify({ ...baseConfig, jitterFactor: 0 }));
+
+    const config = loadConfig({ env: { STREAMIND_CONFIG_FILE: file } });
+    expect(config.productKey).toBe('secret-key');
+    expect(config.jitterFactor).toBe(0);
+  });
+
+  it('reports parse and validation problems together, each field once', () => {
+    const file = path.join(dir, 'streamind.json');
+    fs.writeFileSync(file, JSON.stringify({ ...baseConfig, heartbeatIntervalMs: 'fast', colour: 'blue' }));
+
+    const error = configError(() => loadConfig({
+      file,
+      env: { STREAMIND_JITTER_FACTOR: 'none', STREAMIND_BACKOFF_FACTOR: '0.5' }
+    }));
+    expect(error.message).toBe(
+      'Invalid configuration: ' +
+      `heartbeatIntervalMs: must be a number (in ${file}); ` +
+      `colour: is not a known field (in ${file}); ` +
+      'jitterFactor: must be a number (STREAMIND_JITTER_FACTOR); ' +
+      'backoffFactor: must be a number >= 1'
+    );
+  });
+
+  it('rejects unreadable and malformed files', () => {
+    expect(configError(() => loadConfig({ file: path.join(dir, 'missing.yaml'), env: {} })).message)
+      .toContain('Cannot read config file');
+
+    const nested = path.join(dir, 'nested.yaml');
+    fs.writeFileSync(nested, 'deviceId: a\n  nested: b\n');
+    expect(configError(() => loadConfig({ file: nested, env: {} })).message).toContain('line 2: expected "key: value"');
+
+    const json = path.join(dir, 'broken.json');
+    fs.writeFileSync(json, '{"deviceId": ');
+    expect(configError(() => loadConfig({ file: json, env: {} })).message).toContain('is not valid JSON');
+  });
+});
@@ -0,0 +1,144 @@
+import { DirectiveRouter } from '../src/directive-router';
+import { Directive } from '../src/models';
+
+function directive(name: string): Directive {
+  return new Directive('dir_1', name, {});
+}
+
+describe('DirectiveRouter', () => {
+  it('matches exact names, wildcards and regular expressions', async () => {
+    const router = new DirectiveRouter();
+    const calls: string[] = [];
+    router.on('audio.play', () => { calls.push('exact'); });
+    router.on('audio.*', () => { calls.push('wildcard'); });
+    router.on(/^audio\.(play|stop)$/, () => { calls.push('regexp'); });
+    router.on('*', () => { calls.push('all'); });
+    router.on('audio', () => { calls.push('prefix only'); });
+
+    await router.dispatch(directive('audio.play'));
+    expect(calls).toEqual(['exact', 'wildcard', 'regexp', 'all']);
+    expect(router.matches(directive('video.play'))).toBe(true);
+    expect(router.matches(directive('audioXplay'))).toBe(true);
+  });
+
+  it('escapes pattern characters other than *', () => {
+    const router = new DirectiveRouter();
+    router.on('a.b', () => undefined);
+    router.on('x+*', () => undefined);
+
+    expect(router.matches(directive('aXb'))).toBe(false);
+    expect(router.matches(directive('x+1'))).toBe(true);
+    expect(router.matches(directive('xx1'))).toBe(false);
+  });
+
+  it('awaits each handler and resolves to the last result', async () => {
+    const router = new DirectiveRouter();
+    const calls: string[] = [];
+    router.on('light.*', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      calls.push('slow');
+      return { step: 1 };
+    });
+    router.on('light.on', () => {
+      calls.push('fast');
+      return { step: 2 };
+    });
+
+    expect(await router.dispatch(directive('light.on'))).toEqual({ handled: true, result: { step: 2 } });
+    expect(calls).toEqual(['slow', 'fast']);
+  });
+
+  it('runs parent middleware before its own and own routes before the parent\'s', async () => {
+    const parent = new DirectiveRouter();
+    const router = new DirectiveRouter(parent);
+    const calls: string[] = [];
+    router.use(async (_directive, next) => {
+      calls.push('child middleware');
+      return next();
+    });
+    parent.use(async (_directive, next) => {
+      calls.push('parent middleware');
+      return next();
+    });
+    parent.on('light.on', () => { calls.push('parent route'); });
+    router.on('light.on', () => { calls.push('child route'); });
+
+    await router.dispatch(directive('light.on'));
+    expect(calls).toEqual(['parent middleware', 'child middleware', 'child route', 'parent route']);
+  });
+
+  it('passes the handlers\' result back through next()', async () => {
+    const router = new DirectiveRouter();
+    let seen: unknown;
+    router.use(async (_directive, next) => {
+      seen = await next();
+    });
+    router.on('x', () => 'done');
+
+    expect(await router.dispatch(directive('x'))).toEqual({ handled: true, result: 'done' });
+    expect(seen).toBe('done');
+  });
+
+  it('stops when a middleware does not call next()', async () => {
+    const router = new DirectiveRouter();
+    const handler = jest.fn();
+    router.use(() => undefined);
+    router.on('x', handler);
+
+    expect(await router.dispatch(directive('x'))).toEqual({ handled: false, result: undefined });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects when next() is called twice', async () => {
+    const router = new DirectiveRouter();
+    router.use(async (_directive, next) => {
+      await next();
+      await next();
+    });
+    router.on('x', () => undefined);
+
+    await expect(router.dispatch(directive('x'))).rejects.toThrow('next() called multiple times');
+  });
+
+  it('uses its own fallback, else the parent\'s, only when no route matches', async () => {
+    const parent = new DirectiveRouter();
+    const router = new DirectiveRouter(parent);
+    parent.setFallback(() => 'parent fallback');
+    router.on('known', () => 'route');
+
+    expect((await router.dispatch(directive('unknown'))).result).toBe('parent fallback');
+    router.setFallback(() => 'own fallback');
+    expect((await router.dispatch(directive('unknown'))).result).toBe('own fallback');
+    expect((await router.dispatch(directive('known'))).result).toBe('route');
+
+    router.setFallback(null);
+    parent.setFallback(null);
+    expect(await router.dispatch(directive('unknown'))).toEqual({ handled: false, result: undefined });
+  });
+
+  it('rejects with the first handler error and skips later handlers', async () => {
+    const router = new DirectiveRouter();
+    const later = jest.fn();
+    router.on('x', () => {
+      throw new Error('broken');
+    });
+    router.on('x', later);
+
+    await expect(router.dispatch(directive('x'))).rejects.toThrow('broken');
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('removes handlers and middleware', async () => {
+    const router = new DirectiveRouter();
+    const handler = jest.fn();
+    const middleware = jest.fn((_directive: Directive, next: () => Promise<unknown>) => next());
+    const removeHandler = router.on('x', handler);
+    const removeMiddleware = router.use(middleware);
+
+    removeHandler();
+    removeMiddleware();
+    expect(await router.dispatch(directive('x'))).toEqual({ handled: false, result: undefined });
+    expect(handler).not.toHaveBeenCalled();
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
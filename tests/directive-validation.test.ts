@@ -0,0 +1,121 @@
+import { Config, Directive, SDK } from '../src';
+import { ErrorCode } from '../src/errors';
+import { JsonSchema } from '../src/schema';
+import { MockPlatform } from '../src/testing';
+
+const volumeSchema: JsonSchema = {
+  type: 'object',
+  required: ['level'],
+  properties: {
+    level: { type: 'integer', minimum: 0, maximum: 10 }
+  }
+};
+
+describe('directive parameter validation', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+  let dispatched: string[];
+  let errors: Array<[ErrorCode, string]>;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+    dispatched = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  async function connect(overrides: Partial<Config> = {}): Promise<void> {
+    sdk.registerTerminal('t', platform.terminalConfig(overrides));
+    expect(sdk.registerDirectiveSchema('volume.set', volumeSchema)).toBe(ErrorCode.OK);
+    sdk.setErrorCallback('t', (code, message) => {
+      errors.push([code, message]);
+    });
+    sdk.onDirective('t', '*', (directive: Directive) => {
+      dispatched.push(directive.id);
+    });
+    await sdk.connect('t');
+  }
+
+  /**
+   * Push a directive without a schema and wait until it is dispatched, so earlier directives were handled
+   */
+  async function settle(): Promise<void> {
+    const marker = platform.pushDirective('marker');
+    while (!dispatched.includes(marker)) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  it('does not dispatch invalid directives in strict mode and reports INVALID_DIRECTIVE', async () => {
+    await connect();
+
+    const valid = platform.pushDirective('volume.set', { level: 5 });
+    const invalid = platform.pushDirective('volume.set', { level: 11 });
+    await settle();
+
+    expect(dispatched).toContain(valid);
+    expect(dispatched).not.toContain(invalid);
+    expect(errors).toEqual([[ErrorCode.INVALID_DIRECTIVE, `Directive ${invalid}: Invalid volume.set parameters: /level: must be <= 10, got 11`]]);
+    expect(sdk.getTerminalStatistics('t')!.invalidDirectives).toBe(1);
+    expect(platform.getSignals()).toEqual([]);
+  });
+
+  it('replies failed with the offending fields with directiveRejectInvalid', async () => {
+    await connect({ directiveRejectInvalid: true });
+
+    const invalid = platform.pushDirective('volume.set', {});
+    const { signal } = await platform.waitForSignal('directive.reply');
+    expect(signal.getPayload().getData()).toEqual({
+      directiveId: invalid,
+      directiveName: 'volume.set',
+      status: 'failed',
+      error: {
+        code: 'INVALID_PARAMETERS',
+        message: 'Invalid volume.set parameters: /level: is required',
+        fields: [{ path: '/level', message: 'is required' }]
+      }
+    });
+  });
+
+  it('dispatches invalid directives in warn mode and counts them', async () => {
+    await connect({ directiveValidation: 'warn', directiveRejectInvalid: true });
+
+    const invalid = platform.pushDirective('volume.set', { level: 'loud' });
+    await settle();
+
+    expect(dispatched).toContain(invalid);
+    expect(errors).toEqual([]);
+    expect(sdk.getTerminalStatistics('t')!.invalidDirectives).toBe(1);
+    expect(platform.getSignals()).toEqual([]);
+  });
+
+  it('skips validation when off', async () => {
+    await connect({ directiveValidation: 'off' });
+
+    const invalid = platform.pushDirective('volume.set', { level: 'loud' });
+    await settle();
+
+    expect(dispatched).toContain(invalid);
+    expect(sdk.getTerminalStatistics('t')!.invalidDirectives).toBe(0);
+  });
+
+  it('dispatches again once the schema is unregistered', async () => {
+    await connect();
+    expect(sdk.unregisterDirectiveSchema('volume.set')).toBe(true);
+
+    const invalid = platform.pushDirective('volume.set', { level: 11 });
+    await settle();
+    expect(dispatched).toContain(invalid);
+  });
+
+  it('refuses schemas that do not compile', () => {
+    expect(sdk.registerDirectiveSchema('volume.set', { $ref: '#/$defs/missing' })).toBe(ErrorCode.INVALID_CONFIG);
+    expect(sdk.getLastError()).toContain('$ref');
+  });
+});
@@ -0,0 +1,170 @@
+import { Directive, DirectiveStatus, SDK } from '../src';
+import { ErrorCode } from '../src/errors';
+import { MockPlatform } from '../src/testing';
+
+describe('Directive replies', () => {
+  it('returns NOT_INITIALIZED when not received from a terminal', async () => {
+    const directive = new Directive('dir_1', 'light.on', {});
+    expect(await directive.ack()).toBe(ErrorCode.NOT_INITIALIZED);
+    expect(await directive.complete()).toBe(ErrorCode.NOT_INITIALIZED);
+    expect(await directive.fail('broken')).toBe(ErrorCode.NOT_INITIALIZED);
+  });
+});
+
+describe('directive handling', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  async function reply(directiveId: string, status: DirectiveStatus): Promise<Record<string, any>> {
+    const { signal } = await platform.waitForSignal((received) =>
+      received.signal.type === 'directive.reply' &&
+      received.signal.getPayload().getData().directiveId === directiveId &&
+      received.signal.getPayload().getData().status === status
+    );
+    return signal.getPayload().getData();
+  }
+
+  function replies(directiveId: string): string[] {
+    return platform.getSignals()
+      .filter((received) => received.signal.type === 'directive.reply' && received.signal.getPayload().getData().directiveId === directiveId)
+      .map((received) => received.signal.getPayload().getData().status);
+  }
+
+  it('sends replies correlated by directive id and settles only once', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    const settled = new Promise<ErrorCode[]>((resolve) => {
+      sdk.setDirectiveCallback('t', async (directive) => {
+        resolve([
+          await directive.ack(),
+          await directive.complete({ brightness: 80 }),
+          await directive.fail('late'),
+          await directive.ack()
+        ]);
+      });
+    });
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on', { brightness: 80 });
+    expect(await settled).toEqual([ErrorCode.OK, ErrorCode.OK, ErrorCode.INVALID_PARAMETER, ErrorCode.INVALID_PARAMETER]);
+    expect(await reply(id, 'completed')).toEqual({
+      directiveId: id,
+      directiveName: 'light.on',
+      status: 'completed',
+      result: { brightness: 80 }
+    });
+    expect(replies(id)).toEqual(['received', 'completed']);
+  });
+
+  it('acknowledges on receipt with directiveAutoAck', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveAutoAck: true }));
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    expect(await reply(id, 'received')).toEqual({ directiveId: id, directiveName: 'light.on', status: 'received' });
+  });
+
+  it('completes with the handler result with directiveAutoComplete', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveAutoComplete: true }));
+    sdk.onDirective('t', 'light.on', () => ({ brightness: 50 }));
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    expect((await reply(id, 'completed')).result).toEqual({ brightness: 50 });
+
+    const unhandled = platform.pushDirective('light.off');
+    const marker = platform.pushDirective('light.on');
+    await reply(marker, 'completed');
+    expect(replies(unhandled)).toEqual([]);
+  });
+
+  it('does not complete again when the handler replied itself', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveAutoComplete: true }));
+    sdk.onDirective('t', 'light.on', async (directive) => {
+      await directive.fail('bulb missing', 'NO_BULB');
+    });
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    expect((await reply(id, 'failed')).error).toEqual({ code: 'NO_BULB', message: 'bulb missing' });
+    const marker = platform.pushDirective('light.on');
+    await reply(marker, 'failed');
+    expect(replies(id)).toEqual(['failed']);
+  });
+
+  it('fails with an empty error code and reports HANDLER_FAILED when a handler throws', async () => {
+    const errors: Array<[ErrorCode, string]> = [];
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveAutoComplete: true }));
+    sdk.setErrorCallback('t', (code, message) => {
+      errors.push([code, message]);
+    });
+    sdk.onDirective('t', 'light.on', () => {
+      throw new Error('bulb missing');
+    });
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    expect((await reply(id, 'failed')).error).toEqual({ code: '', message: 'bulb missing' });
+    expect(errors).toEqual([[ErrorCode.HANDLER_FAILED, `Directive light.on (${id}): bulb missing`]]);
+  });
+
+  it('fails with TIMEOUT when not completed within directiveTimeoutMs', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveTimeoutMs: 30 }));
+    let completeLater: (() => Promise<ErrorCode>) | null = null;
+    sdk.onDirective('t', 'light.on', (directive) => {
+      completeLater = () => directive.complete();
+    });
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    expect((await reply(id, 'failed')).error).toEqual({ code: 'TIMEOUT', message: 'Directive not completed within 30ms' });
+    expect(await completeLater!()).toBe(ErrorCode.INVALID_PARAMETER);
+  });
+
+  it('clears the timeout once the directive is completed', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveTimeoutMs: 30, directiveAutoComplete: true }));
+    sdk.onDirective('t', 'light.on', () => undefined);
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on');
+    await reply(id, 'completed');
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(replies(id)).toEqual(['completed']);
+  });
+
+  it('runs terminal routes before global routes and prefers the terminal fallback', async () => {
+    const calls: string[] = [];
+    sdk.registerTerminal('t', platform.terminalConfig({ directiveAutoComplete: true }));
+    sdk.onDirective('*', 'light.*', () => {
+      calls.push('global route');
+      return { from: 'global' };
+    });
+    sdk.onDirective('t', 'light.on', () => {
+      calls.push('terminal route');
+      return { from: 'terminal' };
+    });
+    sdk.setDirectiveFallback('*', () => ({ from: 'global fallback' }));
+    await sdk.connect('t');
+
+    const routed = platform.pushDirective('light.on');
+    expect((await reply(routed, 'completed')).result).toEqual({ from: 'global' });
+    expect(calls).toEqual(['terminal route', 'global route']);
+
+    const unknown = platform.pushDirective('fan.on');
+    expect((await reply(unknown, 'completed')).result).toEqual({ from: 'global fallback' });
+
+    sdk.setDirectiveFallback('t', () => ({ from: 'terminal fallback' }));
+    const unknownAgain = platform.pushDirective('fan.on');
+    expect((await reply(unknownAgain, 'completed')).result).toEqual({ from: 'terminal fallback' });
+  });
+});
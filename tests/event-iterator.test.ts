@@ -0,0 +1,166 @@
+import { EventIterator } from '../src/event-iterator';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { Directive, SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+
+async function drain<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<ErrorCode | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error instanceof StreamIndError ? error.code : null;
+  }
+}
+
+describe('EventIterator', () => {
+  it('buffers items pushed before next() and yields them after end()', async () => {
+    const iterator = new EventIterator<number>();
+    iterator.push(1);
+    iterator.push(2);
+    iterator.end();
+    iterator.push(3);
+
+    expect(await drain(iterator)).toEqual([1, 2]);
+  });
+
+  it('resolves a pending next() on push and completes it on end()', async () => {
+    const iterator = new EventIterator<number>();
+    const first = iterator.next();
+    const second = iterator.next();
+    iterator.push(1);
+    iterator.end();
+
+    expect(await first).toEqual({ value: 1, done: false });
+    expect(await second).toEqual({ value: undefined, done: true });
+  });
+
+  it('drops the oldest item when full by default', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2 });
+    [1, 2, 3].forEach((item) => iterator.push(item));
+    iterator.end();
+
+    expect(iterator.getDropped()).toBe(1);
+    expect(await drain(iterator)).toEqual([2, 3]);
+  });
+
+  it('drops the newest item with drop-newest', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2, overflowPolicy: 'drop-newest' });
+    [1, 2, 3].forEach((item) => iterator.push(item));
+    iterator.end();
+
+    expect(iterator.getDropped()).toBe(1);
+    expect(await drain(iterator)).toEqual([1, 2]);
+  });
+
+  it('fails with QUEUE_FULL after the buffered items with reject', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2, overflowPolicy: 'reject' });
+    [1, 2, 3].forEach((item) => iterator.push(item));
+
+    expect(await iterator.next()).toEqual({ value: 1, done: false });
+    expect(await iterator.next()).toEqual({ value: 2, done: false });
+    expect(await errorCode(iterator.next())).toBe(ErrorCode.QUEUE_FULL);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('rejects pending next() calls on fail()', async () => {
+    const iterator = new EventIterator<number>();
+    const pending = iterator.next();
+    iterator.fail(new StreamIndError(ErrorCode.TERMINAL_NOT_FOUND, 'gone'));
+
+    expect(await errorCode(pending)).toBe(ErrorCode.TERMINAL_NOT_FOUND);
+  });
+
+  it('discards buffered items when the loop breaks', async () => {
+    const iterator = new EventIterator<number>();
+    [1, 2, 3].forEach((item) => iterator.push(item));
+    for await (const item of iterator) {
+      expect(item).toBe(1);
+      break;
+    }
+
+    expect(iterator.signal.aborted).toBe(true);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('ends and discards buffered items when its signal is aborted', async () => {
+    const controller = new AbortController();
+    const iterator = new EventIterator<number>({ signal: controller.signal });
+    iterator.push(1);
+    const aborted = new EventIterator<number>({ signal: AbortSignal.abort() });
+
+    controller.abort();
+    iterator.push(2);
+    expect(await drain(iterator)).toEqual([]);
+    expect(aborted.signal.aborted).toBe(true);
+    expect(await drain(aborted)).toEqual([]);
+  });
+});
+
+describe('terminal iterators', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('yields directives and completes on disconnect', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+    const directives = sdk.directives('t');
+    const received = drain(directives);
+
+    const first = platform.pushDirective('light.on');
+    const second = platform.pushDirective('light.off');
+    await new Promise<void>((resolve) => {
+      sdk.on('directive', (_terminalId, directive) => {
+        if (directive.id === second) {
+          resolve();
+        }
+      });
+    });
+    await sdk.disconnect('t');
+
+    expect((await received).map((directive: Directive) => directive.id)).toEqual([first, second]);
+  });
+
+  it('stops listening once aborted', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+    const controller = new AbortController();
+    const binary = sdk.binaryData('t', { signal: controller.signal });
+
+    controller.abort();
+    platform.pushBinary(Buffer.from('data'), 'RAW');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await binary.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('reports connection state changes', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    const states = sdk.connectionStates('t');
+    await sdk.connect('t');
+    await sdk.disconnect('t');
+
+    expect((await drain(states)).map((change) => change.state)).toEqual(['connected', 'disconnected']);
+  });
+
+  it('fails with TERMINAL_NOT_FOUND for an unknown terminal', async () => {
+    expect(await errorCode(sdk.directives('missing').next())).toBe(ErrorCode.TERMINAL_NOT_FOUND);
+  });
+});
@@ -0,0 +1,101 @@
+import { CallbackListeners, TypedEventEmitter } from '../src/events';
+import { Logger } from '../src/logger';
+
+interface TestEvents {
+  ping: [number];
+  pong: [string];
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  failures: unknown[] = [];
+
+  fire<K extends keyof TestEvents>(event: K, ...args: TestEvents[K]): boolean {
+    return this.emit(event, ...args);
+  }
+
+  setCallback(listeners: CallbackListeners<TestEvents>): void {
+    this.replaceCallback('test', listeners);
+  }
+
+  useLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  protected listenerFailed<K extends keyof TestEvents>(event: K, args: TestEvents[K], error: unknown): void {
+    this.failures.push(error);
+    super.listenerFailed(event, args, error);
+  }
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls listeners in registration order, then onAny listeners', () => {
+    const emitter = new TestEmitter();
+    const calls: string[] = [];
+    emitter.onAny((event, args) => { calls.push(`any:${String(event)}:${args[0]}`); });
+    emitter.on('ping', (value) => { calls.push(`first:${value}`); });
+    emitter.on('ping', (value) => { calls.push(`second:${value}`); });
+
+    expect(emitter.fire('ping', 1)).toBe(true);
+    expect(emitter.fire('pong', 'x')).toBe(false);
+    expect(calls).toEqual(['first:1', 'second:1', 'any:ping:1', 'any:pong:x']);
+  });
+
+  it('removes once listeners after the first call and off() listeners immediately', () => {
+    const emitter = new TestEmitter();
+    const once = jest.fn();
+    const removed = jest.fn();
+    emitter.once('ping', once);
+    emitter.on('ping', removed);
+    emitter.off('ping', removed);
+
+    emitter.fire('ping', 1);
+    emitter.fire('ping', 2);
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it('removes a listener when its signal aborts', () => {
+    const emitter = new TestEmitter();
+    const controller = new AbortController();
+    const listener = jest.fn();
+    emitter.on('ping', listener, { signal: controller.signal });
+
+    controller.abort();
+    emitter.fire('ping', 1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reports throwing and rejecting listeners without stopping the others', async () => {
+    const emitter = new TestEmitter();
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const after = jest.fn();
+    emitter.useLogger(logger);
+    emitter.on('ping', () => {
+      throw new Error('sync');
+    });
+    emitter.on('ping', async () => {
+      throw new Error('async');
+    });
+    emitter.on('ping', after);
+
+    emitter.fire('ping', 1);
+    await Promise.resolve();
+    expect(after).toHaveBeenCalled();
+    expect(emitter.failures.map((error) => (error as Error).message)).toEqual(['sync', 'async']);
+    expect(logger.error).toHaveBeenCalledWith('Event listener failed', expect.objectContaining({ event: 'ping' }));
+  });
+
+  it('replaces the listeners of a legacy callback and keeps other listeners', () => {
+    const emitter = new TestEmitter();
+    const calls: string[] = [];
+    emitter.on('ping', () => { calls.push('listener'); });
+    emitter.setCallback({ ping: () => { calls.push('old ping'); }, pong: () => { calls.push('old pong'); } });
+    emitter.setCallback({ ping: () => { calls.push('new ping'); } });
+
+    emitter.fire('ping', 1);
+    emitter.fire('pong', 'x');
+    expect(calls).toEqual(['listener', 'new ping']);
+    expect(emitter.listenerCount('pong')).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import { VirtualClock } from '../src/clock';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import {
+  FRAGMENT_FLAG_END,
+  FRAGMENT_FLAG_START,
+  FragmentAssembler,
+  MAX_FRAGMENT_CHUNK,
+  encodeCancelFragment,
+  encodeFragments
+} from '../src/fragment';
+
+function errorCode(fn: () => unknown): ErrorCode | undefined {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(StreamIndError);
+    return (e as StreamIndError).code;
+  }
+  return undefined;
+}
+
+function payload(length: number): Buffer {
+  const data = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    data[i] = (i * 31) & 0xff;
+  }
+  return data;
+}
+
+describe('encodeFragments', () => {
+  it('marks the first and last fragments', () => {
+    const fragments = encodeFragments(payload(25), 'jpeg', 7, 10);
+
+    expect(fragments).toHaveLength(3);
+    expect(fragments.map((fragment) => fragment[0])).toEqual([FRAGMENT_FLAG_START, 0, FRAGMENT_FLAG_END]);
+    expect(fragments.map((fragment) => fragment.readUInt32BE(5))).toEqual([0, 1, 2]);
+  });
+
+  it('sends empty data as a single start and end fragment', () => {
+    const fragments = encodeFragments(Buffer.alloc(0), 'RAW', 1);
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0][0]).toBe(FRAGMENT_FLAG_START | FRAGMENT_FLAG_END);
+  });
+
+  it('rejects chunk sizes that are not integers from 1 to MAX_FRAGMENT_CHUNK', () => {
+    for (const chunkSize of [0, -1, 1.5, NaN, MAX_FRAGMENT_CHUNK + 1]) {
+      expect(errorCode(() => encodeFragments(payload(4), 'RAW', 1, chunkSize))).toBe(ErrorCode.INVALID_PARAMETER);
+    }
+  });
+});
+
+describe('FragmentAssembler', () => {
+  it('reassembles a transfer', () => {
+    const data = payload(1000);
+    const assembler = new FragmentAssembler(1024);
+    const fragments = encodeFragments(data, 'jpeg', 42, 300);
+
+    for (const fragment of fragments.slice(0, -1)) {
+      expect(assembler.push(fragment)).toBeNull();
+    }
+    expect(assembler.push(fragments[fragments.length - 1])).toEqual({ transferId: 42, dataType: 'JPEG', data });
+  });
+
+  it('reassembles interleaved transfers', () => {
+    const assembler = new FragmentAssembler(1024);
+    const first = encodeFragments(payload(20), 'A', 1, 10);
+    const second = encodeFragments(payload(15), 'B', 2, 10);
+
+    assembler.push(first[0]);
+    assembler.push(second[0]);
+    expect(assembler.push(second[1])!.data).toEqual(payload(15));
+    expect(assembler.push(first[1])!.data).toEqual(payload(20));
+  });
+
+  it('rejects transfers larger than the limit', () => {
+    const assembler = new FragmentAssembler(10);
+    const [start] = encodeFragments(payload(11), 'RAW', 1, 5);
+    expect(errorCode(() => assembler.push(start))).toBe(ErrorCode.INVALID_FRAME);
+  });
+
+  it('rejects out-of-order fragments and drops the transfer', () => {
+    const assembler = new FragmentAssembler(1024);
+    const fragments = encodeFragments(payload(30), 'RAW', 1, 10);
+
+    assembler.push(fragments[0]);
+    expect(errorCode(() => assembler.push(fragments[2]))).toBe(ErrorCode.INVALID_FRAME);
+    expect(errorCode(() => assembler.push(fragments[1]))).toBe(ErrorCode.INVALID_FRAME);
+  });
+
+  it('rejects a transfer whose checksum does not match', () => {
+    const assembler = new FragmentAssembler(1024);
+    const fragments = encodeFragments(payload(20), 'RAW', 1, 10);
+    fragments[1][fragments[1].length - 1] ^= 0xff;
+
+    assembler.push(fragments[0]);
+    expect(errorCode(() => assembler.push(fragments[1]))).toBe(ErrorCode.INVALID_FRAME);
+  });
+
+  it('drops a transfer on cancel', () => {
+    const assembler = new FragmentAssembler(1024);
+    const fragments = encodeFragments(payload(20), 'RAW', 9, 10);
+
+    assembler.push(fragments[0]);
+    expect(assembler.push(encodeCancelFragment(9))).toBeNull();
+    expect(errorCode(() => assembler.push(fragments[1]))).toBe(ErrorCode.INVALID_FRAME);
+  });
+
+  it('drops a transfer idle for longer than the timeout', () => {
+    const clock = new VirtualClock();
+    const assembler = new FragmentAssembler(1024, { timeoutMs: 100, clock });
+    const fragments = encodeFragments(payload(20), 'RAW', 1, 10);
+
+    assembler.push(fragments[0]);
+    clock.advance(101);
+    expect(errorCode(() => assembler.push(fragments[1]))).toBe(ErrorCode.INVALID_FRAME);
+  });
+
+  it('rejects new transfers beyond maxPendingTransfers', () => {
+    const assembler = new FragmentAssembler(1024, { maxPendingTransfers: 2 });
+    assembler.push(encodeFragments(payload(20), 'RAW', 1, 10)[0]);
+    assembler.push(encodeFragments(payload(20), 'RAW', 2, 10)[0]);
+
+    expect(errorCode(() => assembler.push(encodeFragments(payload(20), 'RAW', 3, 10)[0]))).toBe(ErrorCode.INVALID_FRAME);
+    expect(assembler.pendingTransfers()).toBe(2);
+
+    assembler.push(encodeCancelFragment(1));
+    expect(assembler.push(encodeFragments(payload(5), 'RAW', 3, 10)[0])).toEqual({
+      transferId: 3,
+      dataType: 'RAW',
+      data: payload(5)
+    });
+  });
+
+  it('drops a transfer that would exceed maxBufferedBytes', () => {
+    const assembler = new FragmentAssembler(100, { maxBufferedBytes: 25 });
+    const first = encodeFragments(payload(20), 'RAW', 1, 10);
+    const second = encodeFragments(payload(20), 'RAW', 2, 10);
+
+    assembler.push(first[0]);
+    assembler.push(second[0]);
+    expect(assembler.getBufferedBytes()).toBe(20);
+    expect(errorCode(() => assembler.push(first[1]))).toBe(ErrorCode.INVALID_FRAME);
+    expect(assembler.getBufferedBytes()).toBe(10);
+    expect(assembler.push(second[1])!.data).toEqual(payload(20));
+    expect(assembler.getBufferedBytes()).toBe(0);
+  });
+
+  it('releases the buffer of idle transfers', () => {
+    const clock = new VirtualClock();
+    const assembler = new FragmentAssembler(1024, { timeoutMs: 100, clock, maxPendingTransfers: 1 });
+    assembler.push(encodeFragments(payload(20), 'RAW', 1, 10)[0]);
+    expect(assembler.getBufferedBytes()).toBe(10);
+
+    clock.advance(101);
+    expect(assembler.push(encodeFragments(payload(20), 'RAW', 2, 10)[0])).toBeNull();
+    expect(assembler.pendingTransfers()).toBe(1);
+    expect(assembler.getBufferedBytes()).toBe(10);
+  });
+});
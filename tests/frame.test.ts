@@ -0,0 +1,69 @@
+import { crc32, oggCrc32 } from '../src/checksum';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import {
+  FRAME_HEADER_SIZE,
+  FRAME_MARKER,
+  MAX_FRAME_PAYLOAD,
+  decodeBinaryFrame,
+  encodeBinaryFrame
+} from '../src/frame';
+
+function errorCode(fn: () => unknown): ErrorCode | undefined {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(StreamIndError);
+    return (e as StreamIndError).code;
+  }
+  return undefined;
+}
+
+describe('binary frame codec', () => {
+  it('round-trips data and data type', () => {
+    const data = Buffer.from('hello opus frame');
+    const frame = encodeBinaryFrame(data, 'opus');
+
+    expect(frame[0]).toBe(FRAME_MARKER);
+    expect(frame.readUInt16BE(1)).toBe(data.length);
+    expect(frame.length).toBe(FRAME_HEADER_SIZE + data.length);
+    expect(decodeBinaryFrame(frame)).toEqual({ dataType: 'OPUS', data });
+  });
+
+  it('round-trips an empty payload and a full-length data type', () => {
+    expect(decodeBinaryFrame(encodeBinaryFrame(Buffer.alloc(0), 'abcdefghi'))).toEqual({
+      dataType: 'ABCDEFG',
+      data: Buffer.alloc(0)
+    });
+  });
+
+  it('round-trips the largest payload', () => {
+    const data = Buffer.alloc(MAX_FRAME_PAYLOAD, 0x5a);
+    expect(decodeBinaryFrame(encodeBinaryFrame(data, 'RAW')).data.equals(data)).toBe(true);
+  });
+
+  it('rejects payloads larger than MAX_FRAME_PAYLOAD', () => {
+    expect(errorCode(() => encodeBinaryFrame(Buffer.alloc(MAX_FRAME_PAYLOAD + 1), 'RAW')))
+      .toBe(ErrorCode.SIGNAL_TOO_LARGE);
+  });
+
+  it('rejects short, unmarked and length-mismatched frames', () => {
+    const frame = encodeBinaryFrame(Buffer.from('abc'), 'RAW');
+
+    expect(errorCode(() => decodeBinaryFrame(frame.subarray(0, FRAME_HEADER_SIZE - 1)))).toBe(ErrorCode.INVALID_FRAME);
+    expect(errorCode(() => decodeBinaryFrame(Buffer.concat([Buffer.from([0x81]), frame.subarray(1)]))))
+      .toBe(ErrorCode.INVALID_FRAME);
+    expect(errorCode(() => decodeBinaryFrame(frame.subarray(0, frame.length - 1)))).toBe(ErrorCode.INVALID_FRAME);
+  });
+});
+
+describe('checksums', () => {
+  it('computes the IEEE CRC-32 check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('computes the Ogg CRC-32 check value', () => {
+    expect(oggCrc32(Buffer.from('123456789'))).toBe(0x89a1897f);
+    expect(oggCrc32(Buffer.alloc(0))).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SignalJournal } from '../src/journal';
+import { ErrorCode } from '../src/errors';
+import { SDK, Signal, silentLogger } from '../src';
+import { MockPlatform } from '../src/testing';
+
+function segmentFiles(dir: string): string[] {
+  return fs.readdirSync(dir).filter((name) => name.endsWith('.log')).sort();
+}
+
+describe('SignalJournal', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-journal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays unacknowledged entries in order after reopening', () => {
+    const journal = new SignalJournal(dir, 1024 * 1024, false);
+    const first = journal.append('"one"');
+    journal.append('"two"');
+    journal.append('"three"');
+    journal.ack(first);
+    journal.close();
+
+    const reopened = new SignalJournal(dir, 1024 * 1024, false);
+    reopened.open();
+    expect(reopened.size()).toBe(2);
+    expect(reopened.peek()).toEqual({ seq: 2, data: '"two"' });
+    expect(reopened.append('"four"')).toBe(4);
+    reopened.close();
+  });
+
+  it('tracks sent entries and makes them pending again on resetSent', () => {
+    const journal = new SignalJournal(dir, 1024 * 1024, false);
+    const first = journal.append('"one"');
+    const second = journal.append('"two"');
+
+    journal.markSent(first);
+    expect(journal.sentSeqs()).toEqual([first]);
+    expect(journal.peek()).toEqual({ seq: second, data: '"two"' });
+
+    journal.resetSent();
+    expect(journal.sentSeqs()).toEqual([]);
+    expect(journal.peek()).toEqual({ seq: first, data: '"one"' });
+    journal.close();
+  });
+
+  it('deletes segments once every entry in them is acknowledged', () => {
+    const journal = new SignalJournal(dir, 64, false);
+    const seqs = [1, 2, 3, 4].map((i) => journal.append(JSON.stringify({ value: `signal-${i}` })));
+    expect(segmentFiles(dir).length).toBeGreaterThan(1);
+
+    for (const seq of seqs) {
+      journal.ack(seq);
+    }
+    expect(journal.size()).toBe(0);
+    expect(segmentFiles(dir)).toHaveLength(1);
+    journal.close();
+
+    const reopened = new SignalJournal(dir, 64, false);
+    reopened.open();
+    expect(reopened.size()).toBe(0);
+    reopened.close();
+  });
+
+  it('discards a truncated trailing record', () => {
+    const journal = new SignalJournal(dir, 1024 * 1024, false);
+    journal.append('"one"');
+    journal.close();
+
+    const [file] = segmentFiles(dir);
+    fs.appendFileSync(path.join(dir, file), '{"s":2,"d":"\\"tw');
+
+    const reopened = new SignalJournal(dir, 1024 * 1024, false);
+    reopened.open();
+    expect(reopened.size()).toBe(1);
+    expect(reopened.peek()).toEqual({ seq: 1, data: '"one"' });
+    expect(fs.readFileSync(path.join(dir, file), 'utf8').endsWith('\n')).toBe(true);
+    reopened.close();
+  });
+
+  it('resolves sync() once the entries are durable', async () => {
+    const journal = new SignalJournal(dir, 1024 * 1024, true);
+    journal.append('"one"');
+    journal.append('"two"');
+    await expect(Promise.all([journal.sync(), journal.sync()])).resolves.toBeDefined();
+    journal.close();
+  });
+});
+
+describe('journaled signals', () => {
+  let dir: string;
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-journal-'));
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('journals signals while reconnecting and fails with NOT_CONNECTED once reconnecting gave up', async () => {
+    let gaveUp: () => void = () => undefined;
+    const reconnectGaveUp = new Promise<void>((resolve) => {
+      gaveUp = resolve;
+    });
+    sdk.registerTerminal('t', platform.terminalConfig({
+      journalDir: dir,
+      maxReconnectAttempts: 1,
+      baseReconnectIntervalMs: 50,
+      maxReconnectIntervalMs: 50,
+      jitterFactor: 0,
+      logger: {
+        ...silentLogger,
+        error: (message) => {
+          if (message === 'Max reconnect attempts reached') {
+            gaveUp();
+          }
+        }
+      }
+    }));
+    await sdk.connect('t');
+
+    const reconnecting = new Promise<void>((resolve) => sdk.once('reconnecting', () => resolve()));
+    platform.rejectAuth();
+    platform.dropConnections();
+    await reconnecting;
+    expect(await sdk.sendSignal('t', new Signal('while.reconnecting'))).toBe(ErrorCode.OK);
+
+    await reconnectGaveUp;
+    expect(await sdk.sendSignal('t', new Signal('after.giving.up'))).toBe(ErrorCode.NOT_CONNECTED);
+    expect(sdk.getTerminalStatistics('t')!.journalPending).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { ConsoleLogger, LogFields, Logger, errorFields, withFields } from '../src/logger';
+import { SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+
+/**
+ * Logger keeping every record
+ */
+class MemoryLogger implements Logger {
+  records: Array<{ level: string; message: string; fields?: LogFields }> = [];
+
+  debug(message: string, fields?: LogFields): void {
+    this.records.push({ level: 'debug', message, fields });
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.records.push({ level: 'info', message, fields });
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.records.push({ level: 'warn', message, fields });
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.records.push({ level: 'error', message, fields });
+  }
+}
+
+describe('ConsoleLogger', () => {
+  let spies: jest.SpyInstance[];
+
+  beforeEach(() => {
+    spies = (['debug', 'info', 'warn', 'error'] as const).map((level) => jest.spyOn(console, level).mockImplementation(() => undefined));
+  });
+
+  afterEach(() => {
+    spies.forEach((spy) => spy.mockRestore());
+  });
+
+  it('writes records at or above its level with the console method of the level', () => {
+    const logger = new ConsoleLogger({ level: 'warn' });
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('careful');
+    logger.error('failed', { code: 3 });
+
+    const [debug, info, warn, error] = spies;
+    expect(debug).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[StreamInd] careful');
+    expect(error).toHaveBeenCalledWith('[StreamInd] failed', '{"code":3}');
+  });
+
+  it('defaults to info and uses the configured prefix', () => {
+    const logger = new ConsoleLogger({ prefix: '[gateway]' });
+    logger.debug('hidden');
+    logger.info('shown', {});
+
+    expect(spies[0]).not.toHaveBeenCalled();
+    expect(spies[1]).toHaveBeenCalledWith('[gateway] shown');
+  });
+});
+
+describe('withFields', () => {
+  it('adds context fields to every record, record fields winning', () => {
+    const logger = new MemoryLogger();
+    const terminalLogger = withFields(logger, { terminalId: 't', traceId: 'a' });
+    terminalLogger.info('connected');
+    terminalLogger.error('failed', { traceId: 'b', attempt: 2 });
+
+    expect(logger.records).toEqual([
+      { level: 'info', message: 'connected', fields: { terminalId: 't', traceId: 'a' } },
+      { level: 'error', message: 'failed', fields: { terminalId: 't', traceId: 'b', attempt: 2 } }
+    ]);
+  });
+});
+
+describe('errorFields', () => {
+  it('describes errors and thrown values', () => {
+    expect(errorFields(new Error('boom'))).toEqual({ error: 'boom' });
+    expect(errorFields('plain')).toEqual({ error: 'plain' });
+  });
+});
+
+describe('terminal logging', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('logs through the SDK logger with the terminal ID and trace ID', async () => {
+    const logger = new MemoryLogger();
+    sdk.setLogger(logger);
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t', 'trace-1');
+
+    expect(logger.records).toContainEqual({
+      level: 'info',
+      message: 'Connected to platform',
+      fields: expect.objectContaining({ terminalId: 't', traceId: 'trace-1' })
+    });
+  });
+
+  it('prefers Config.logger over the SDK logger', async () => {
+    const sdkLogger = new MemoryLogger();
+    const terminalLogger = new MemoryLogger();
+    sdk.registerTerminal('t', platform.terminalConfig({ logger: terminalLogger }));
+    sdk.setLogger(sdkLogger);
+    await sdk.connect('t');
+
+    expect(terminalLogger.records.map((record) => record.message)).toContain('Connected to platform');
+    expect(sdkLogger.records).toEqual([]);
+  });
+
+  it('is silent by default', async () => {
+    const spies = (['debug', 'info', 'warn', 'error', 'log'] as const).map((level) => jest.spyOn(console, level));
+    try {
+      sdk.registerTerminal('t', platform.terminalConfig());
+      await sdk.connect('t');
+      await sdk.disconnect('t');
+      spies.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+    } finally {
+      spies.forEach((spy) => spy.mockRestore());
+    }
+  });
+});
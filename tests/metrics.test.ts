@@ -0,0 +1,139 @@
+import {
+  Counter,
+  Histogram,
+  MetricsRegistry,
+  MetricsSnapshot,
+  ScalarFamily,
+  formatPrometheus,
+  mergeSnapshots,
+  withLabels
+} from '../src/metrics';
+import { SDK, Signal } from '../src';
+import { MockPlatform } from '../src/testing';
+
+describe('Counter', () => {
+  it('starts an unlabelled counter at zero and counts series by label set', () => {
+    expect(new Counter('plain_total', 'Plain').collect().samples).toEqual([{ labels: {}, value: 0 }]);
+
+    const counter = new Counter('bytes_total', 'Bytes', ['kind', 'dir']);
+    expect(counter.collect().samples).toEqual([]);
+    counter.inc({ kind: 'text', dir: 'out' }, 10);
+    counter.inc({ dir: 'out', kind: 'text' }, 5);
+    counter.inc({ kind: 'binary', dir: 'out' });
+
+    expect(counter.get({ dir: 'out', kind: 'text' })).toBe(15);
+    expect(counter.get({ kind: 'none', dir: 'out' })).toBe(0);
+    expect(counter.collect().samples).toHaveLength(2);
+  });
+});
+
+describe('Histogram', () => {
+  it('counts values into cumulative buckets with sum and count', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [0.1, 0.01, 1, 0.1]);
+    [0.005, 0.05, 0.1, 2].forEach((value) => histogram.observe(value));
+
+    expect(histogram.collect().samples).toEqual([{
+      labels: {},
+      buckets: [
+        { le: '0.01', count: 1 },
+        { le: '0.1', count: 3 },
+        { le: '1', count: 3 },
+        { le: '+Inf', count: 4 }
+      ],
+      sum: 2.155,
+      count: 4
+    }]);
+  });
+});
+
+describe('MetricsRegistry', () => {
+  it('collects metrics in registration order and reads gauges when collected', () => {
+    let depth = 3;
+    const registry = new MetricsRegistry();
+    registry.counter('a_total', 'A');
+    registry.gauge('depth', 'Depth', () => depth);
+    const explicit = registry.gauge('explicit', 'Explicit');
+    explicit.set(7, { terminal: 't' });
+
+    depth = 4;
+    const snapshot = registry.snapshot();
+    expect(snapshot.map((family) => family.name)).toEqual(['a_total', 'depth', 'explicit']);
+    expect((snapshot[1] as ScalarFamily).samples).toEqual([{ labels: {}, value: 4 }]);
+    expect((snapshot[2] as ScalarFamily).samples).toEqual([{ labels: { terminal: 't' }, value: 7 }]);
+  });
+});
+
+describe('snapshots', () => {
+  const snapshot = (value: number): MetricsSnapshot => [
+    { name: 'signals_total', help: 'Signals', type: 'counter', samples: [{ labels: {}, value }] }
+  ];
+
+  it('labels every series and merges series of the same metric', () => {
+    const merged = mergeSnapshots([withLabels(snapshot(1), { terminal: 'a' }), withLabels(snapshot(2), { terminal: 'b' })]);
+
+    expect(merged).toEqual([{
+      name: 'signals_total',
+      help: 'Signals',
+      type: 'counter',
+      samples: [{ labels: { terminal: 'a' }, value: 1 }, { labels: { terminal: 'b' }, value: 2 }]
+    }]);
+  });
+
+  it('renders the Prometheus text exposition format', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('signals_total', 'Signals\\sent\nby type', ['type']).inc({ type: 'say "hi"\\\n' }, 2);
+    registry.gauge('ratio', 'Ratio', () => Number.POSITIVE_INFINITY);
+    registry.histogram('rtt_seconds', 'RTT', [0.5]).observe(0.25);
+
+    expect(formatPrometheus(registry.snapshot())).toBe([
+      '# HELP signals_total Signals\\\\sent\\nby type',
+      '# TYPE signals_total counter',
+      'signals_total{type="say \\"hi\\"\\\\\\n"} 2',
+      '# HELP ratio Ratio',
+      '# TYPE ratio gauge',
+      'ratio +Inf',
+      '# HELP rtt_seconds RTT',
+      '# TYPE rtt_seconds histogram',
+      'rtt_seconds_bucket{le="0.5"} 1',
+      'rtt_seconds_bucket{le="+Inf"} 1',
+      'rtt_seconds_sum 0.25',
+      'rtt_seconds_count 1',
+      ''
+    ].join('\n'));
+    expect(formatPrometheus([])).toBe('');
+  });
+});
+
+describe('terminal metrics', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('counts signals, directives and bytes labelled by terminal', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+    await sdk.sendSignal('t', new Signal('sensor.data'));
+    const received = new Promise<void>((resolve) => sdk.once('directive', () => resolve()));
+    platform.pushDirective('light.on');
+    await received;
+
+    const text = sdk.getMetricsText();
+    expect(text).toContain('streamind_terminals 1\n');
+    expect(text).toContain('streamind_connected{terminal="t"} 1\n');
+    expect(text).toContain('streamind_signals_sent_total{signal_type="sensor.data",terminal="t"} 1\n');
+    expect(text).toContain('streamind_directives_received_total{directive="light.on",terminal="t"} 1\n');
+    expect(text).toMatch(/streamind_bytes_sent_total\{kind="text",terminal="t"\} [1-9]/);
+    expect(text).toMatch(/streamind_send_latency_seconds_count\{kind="text",terminal="t"\} [1-9]/);
+    expect(sdk.getTerminalMetrics('missing')).toBeNull();
+  });
+});
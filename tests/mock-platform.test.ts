@@ -0,0 +1,92 @@
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { SDK, Signal } from '../src';
+import { MockPlatform } from '../src/testing';
+
+describe('MockPlatform', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('records connections and signals', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ deviceId: 'device-1' }));
+    expect(await sdk.connect('t')).toBe(ErrorCode.OK);
+
+    const connection = await platform.waitForConnection();
+    expect(connection).toMatchObject({ id: 1, tenantId: 'mock-tenant', productId: 'mock-product', auth: 'query' });
+
+    await sdk.sendSignal('t', new Signal('sensor.data'));
+    const received = await platform.waitForSignal('sensor.data');
+    expect(received.connection.id).toBe(1);
+    expect(platform.getSignals('sensor.data')).toHaveLength(1);
+
+    platform.clear();
+    expect(platform.getSignals()).toEqual([]);
+  });
+
+  it('reassembles fragmented binary data', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+
+    const data = Buffer.alloc(100000, 0x42);
+    expect(await sdk.sendLargeBinary('t', data, 'jpeg')).toBe(ErrorCode.OK);
+    const received = await platform.waitForBinary('jpeg');
+    expect(received.data.equals(data)).toBe(true);
+  });
+
+  it('pushes directives and binary data to terminals', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+
+    const directive = new Promise<string>((resolve) => sdk.on('directive', (_terminalId, received) => resolve(received.name)));
+    const binary = new Promise<number>((resolve) => sdk.on('binary', (_terminalId, data) => resolve(data.length)));
+    platform.pushDirective('light.on', { level: 3 });
+    platform.pushBinary(Buffer.alloc(70000), 'RAW');
+
+    expect(await directive).toBe('light.on');
+    expect(await binary).toBe(70000);
+  });
+
+  it('rejects connections while rejectAuth is set', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ maxReconnectAttempts: 0 }));
+    platform.rejectAuth();
+    expect(await sdk.connect('t')).not.toBe(ErrorCode.OK);
+    expect(platform.getConnections()).toEqual([]);
+  });
+
+  it('rejects a wrong product key', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ productKey: 'wrong', maxReconnectAttempts: 0 }));
+    expect(await sdk.connect('t')).not.toBe(ErrorCode.OK);
+  });
+
+  it('times out waiting and removes its listener', async () => {
+    let error: unknown;
+    try {
+      await platform.waitForSignal('never', 20);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StreamIndError);
+    expect((error as StreamIndError).code).toBe(ErrorCode.CONNECTION_TIMEOUT);
+    expect(platform.listenerCount('signal')).toBe(0);
+  });
+
+  it('drops connections', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({ maxReconnectAttempts: 0 }));
+    await sdk.connect('t');
+    const connection = await platform.waitForConnection();
+
+    const disconnected = new Promise<number>((resolve) => platform.on('disconnection', (closed) => resolve(closed.id)));
+    platform.dropConnections();
+    expect(await disconnected).toBe(connection.id);
+  });
+});
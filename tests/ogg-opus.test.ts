@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+import {
+  OGG_FLAG_BOS,
+  OGG_FLAG_CONTINUED,
+  OGG_FLAG_EOS,
+  OggOpusDemuxer,
+  OggOpusMuxer,
+  OggPageParser,
+  getOpusPacketSamples
+} from '../src/ogg-opus';
+
+/** 20 ms SILK packets with a distinct second byte */
+function packets(count: number): Buffer[] {
+  return Array.from({ length: count }, (_, i) => Buffer.from([0x08, i]));
+}
+
+function mux(input: Buffer[], muxer: OggOpusMuxer): Buffer {
+  return Buffer.concat([...input.map((packet) => muxer.writePacket(packet)), muxer.end()]);
+}
+
+describe('getOpusPacketSamples', () => {
+  it('reads the frame size and count from the TOC byte', () => {
+    expect(getOpusPacketSamples(Buffer.from([0x08]))).toBe(960);        // SILK 20 ms, one frame
+    expect(getOpusPacketSamples(Buffer.from([0x09]))).toBe(1920);       // two frames
+    expect(getOpusPacketSamples(Buffer.from([0xfb, 0x03]))).toBe(2880); // CELT 20 ms, three frames
+    expect(getOpusPacketSamples(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('Ogg Opus muxer and demuxer', () => {
+  it('round-trips packets, headers and tags', () => {
+    const input = packets(12);
+    const muxer = new OggOpusMuxer({ channels: 2, sampleRate: 24000, serialNumber: 5, comments: ['TITLE=test'] });
+    const demuxer = new OggOpusDemuxer();
+
+    const output = demuxer.push(mux(input, muxer));
+    expect(output.map((packet) => packet.data)).toEqual(input);
+    expect(output.every((packet) => packet.durationMs === 20)).toBe(true);
+    expect(demuxer.getHead()).toMatchObject({ version: 1, channelCount: 2, preSkip: 0, inputSampleRate: 24000 });
+    expect(demuxer.getTags()).toEqual({ vendor: 'StreamInd SDK', comments: ['TITLE=test'] });
+  });
+
+  it('demuxes byte by byte', () => {
+    const input = packets(3);
+    const bytes = mux(input, new OggOpusMuxer());
+    const demuxer = new OggOpusDemuxer();
+
+    const output = [];
+    for (let i = 0; i < bytes.length; i++) {
+      output.push(...demuxer.push(bytes.subarray(i, i + 1)));
+    }
+    expect(output.map((packet) => packet.data)).toEqual(input);
+  });
+
+  it('writes the channel mapping table for more than two channels', () => {
+    const demuxer = new OggOpusDemuxer();
+    demuxer.push(mux(packets(1), new OggOpusMuxer({ channels: 6 })));
+
+    expect(demuxer.getHead()).toMatchObject({
+      channelCount: 6,
+      mappingFamily: 1,
+      channelMapping: { streamCount: 4, coupledCount: 2, mapping: [0, 4, 1, 2, 3, 5] }
+    });
+  });
+
+  it('writes an explicit channel mapping and reads back mapping family 0', () => {
+    const channelMapping = { streamCount: 10, coupledCount: 0, mapping: [0, 1, 2, 3, 4, 5, 6, 7, 8, 255] };
+    const surround = new OggOpusDemuxer();
+    surround.push(mux(packets(1), new OggOpusMuxer({ channels: 10, channelMapping })));
+    expect(surround.getHead()!.channelMapping).toEqual(channelMapping);
+
+    const stereo = new OggOpusDemuxer();
+    stereo.push(mux(packets(1), new OggOpusMuxer({ channels: 2 })));
+    expect(stereo.getHead()).toMatchObject({
+      mappingFamily: 0,
+      channelMapping: { streamCount: 1, coupledCount: 1, mapping: [0, 1] }
+    });
+  });
+
+  it('rejects channel counts and mappings it cannot describe', () => {
+    const codeOf = (create: () => unknown) => {
+      try {
+        create();
+      } catch (e) {
+        return (e as StreamIndError).code;
+      }
+      return undefined;
+    };
+
+    expect(codeOf(() => new OggOpusMuxer({ channels: 0 }))).toBe(ErrorCode.INVALID_PARAMETER);
+    expect(codeOf(() => new OggOpusMuxer({ channels: 9 }))).toBe(ErrorCode.INVALID_PARAMETER);
+    expect(codeOf(() => new OggOpusMuxer({
+      channels: 3,
+      channelMapping: { streamCount: 1, coupledCount: 1, mapping: [0, 1, 2] }
+    }))).toBe(ErrorCode.INVALID_PARAMETER);
+  });
+
+  it('starts granule positions at zero and removes pre-skip from timestamps', () => {
+    const bytes = mux(packets(10), new OggOpusMuxer({ preSkip: 312, maxPageDurationMs: 100 }));
+    const pages = new OggPageParser().push(bytes);
+
+    expect(pages.map((page) => page.granulePosition)).toEqual([0, 0, 4800, 9600]);
+    expect(pages[0].headerType & OGG_FLAG_BOS).toBeTruthy();
+    expect(pages[pages.length - 1].headerType & OGG_FLAG_EOS).toBeTruthy();
+
+    const timestamps = new OggOpusDemuxer().push(bytes).map((packet) => packet.timestampMs);
+    expect(timestamps.slice(0, 3)).toEqual([0, 13.5, 33.5]);
+    expect(timestamps[9]).toBe(173.5);
+  });
+
+  it('continues packets larger than a page on the next page', () => {
+    const large = Buffer.alloc(70000, 0x11);
+    large[0] = 0x08;
+    const bytes = mux([large, Buffer.from([0x08, 1])], new OggOpusMuxer());
+
+    const pages = new OggPageParser().push(bytes);
+    expect(pages.some((page) => page.headerType & OGG_FLAG_CONTINUED)).toBe(true);
+    expect(pages.filter((page) => page.granulePosition === -1).length).toBeGreaterThan(0);
+
+    const output = new OggOpusDemuxer().push(bytes);
+    expect(output.map((packet) => packet.data)).toEqual([large, Buffer.from([0x08, 1])]);
+  });
+
+  it('ends an empty stream with an EOS page', () => {
+    const muxer = new OggOpusMuxer();
+    const pages = new OggPageParser().push(muxer.end());
+
+    expect(pages).toHaveLength(3);
+    expect(pages[2].headerType & OGG_FLAG_EOS).toBeTruthy();
+    expect(muxer.end()).toHaveLength(0);
+  });
+
+  it('rejects packets after the stream ended', () => {
+    const muxer = new OggOpusMuxer();
+    muxer.end();
+    expect(() => muxer.writePacket(Buffer.from([0x08]))).toThrow(StreamIndError);
+  });
+
+  it('rejects pages with a bad checksum', () => {
+    const bytes = mux(packets(1), new OggOpusMuxer());
+    bytes[bytes.length - 1] ^= 0xff;
+
+    let error: unknown;
+    try {
+      new OggOpusDemuxer().push(bytes);
+    } catch (e) {
+      error = e;
+    }
+    expect((error as StreamIndError).code).toBe(ErrorCode.INVALID_MEDIA);
+  });
+});
+
+describe('SDK.sendOggOpus', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+  let dir: string;
+
+  async function* chunks(...buffers: Buffer[]): AsyncGenerator<Buffer> {
+    yield* buffers;
+  }
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamind-ogg-'));
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends every packet of a file as an opus frame', async () => {
+    const file = path.join(dir, 'audio.opus');
+    fs.writeFileSync(file, mux(packets(3), new OggOpusMuxer()));
+    const received = new Promise<Buffer[]>((resolve) => {
+      const data: Buffer[] = [];
+      platform.on('binary', (binary) => {
+        data.push(binary.data);
+        if (data.length === 3) {
+          resolve(data);
+        }
+      });
+    });
+
+    expect(await sdk.sendOggOpus('t', file)).toBe(ErrorCode.OK);
+    expect(await received).toEqual(packets(3));
+  });
+
+  it('returns INVALID_MEDIA for data without an Opus stream', async () => {
+    expect(await sdk.sendOggOpus('t', chunks(Buffer.from('not an ogg file')))).toBe(ErrorCode.INVALID_MEDIA);
+    expect(await sdk.sendOggOpus('t', chunks(Buffer.alloc(0)))).toBe(ErrorCode.INVALID_MEDIA);
+  });
+
+  it('returns INVALID_MEDIA for corrupt pages', async () => {
+    const bytes = mux(packets(1), new OggOpusMuxer());
+    bytes[bytes.length - 1] ^= 0xff;
+    expect(await sdk.sendOggOpus('t', chunks(bytes))).toBe(ErrorCode.INVALID_MEDIA);
+  });
+
+  it('returns IO_ERROR when the source cannot be read', async () => {
+    expect(await sdk.sendOggOpus('t', path.join(dir, 'missing.opus'))).toBe(ErrorCode.IO_ERROR);
+    expect(sdk.getLastError()).toContain('ENOENT');
+  });
+
+  it('returns CANCELLED when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await sdk.sendOggOpus('t', chunks(mux(packets(2), new OggOpusMuxer())), { signal: controller.signal }))
+      .toBe(ErrorCode.CANCELLED);
+  });
+});
@@ -0,0 +1,226 @@
+import WebSocket from 'ws';
+import { Outbox } from '../src/outbox';
+import { VirtualClock } from '../src/clock';
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { SDK, Signal } from '../src';
+import { MockPlatform } from '../src/testing';
+
+function drain(outbox: Outbox): Array<string | Buffer> {
+  const data: Array<string | Buffer> = [];
+  for (let entry = outbox.shift(); entry; entry = outbox.shift()) {
+    data.push(entry.data);
+  }
+  return data;
+}
+
+describe('Outbox', () => {
+  it('returns messages in enqueue order', () => {
+    const outbox = new Outbox(10, 'drop-oldest', 0);
+    outbox.push('signal', 'a');
+    outbox.push('binary', Buffer.from('b'));
+    outbox.push('signal', 'c');
+
+    expect(outbox.size()).toBe(3);
+    expect(drain(outbox)).toEqual(['a', Buffer.from('b'), 'c']);
+    expect(outbox.size()).toBe(0);
+  });
+
+  it('puts a message back at the head with unshift', () => {
+    const outbox = new Outbox(10, 'drop-oldest', 0);
+    outbox.push('signal', 'a');
+    outbox.push('signal', 'b');
+
+    const first = outbox.shift()!;
+    outbox.unshift(first);
+    expect(drain(outbox)).toEqual(['a', 'b']);
+  });
+
+  it('drops the oldest message when full under drop-oldest', () => {
+    const outbox = new Outbox(2, 'drop-oldest', 0);
+    expect(outbox.push('signal', 'a')).toBe(true);
+    expect(outbox.push('signal', 'b')).toBe(true);
+    expect(outbox.push('signal', 'c')).toBe(true);
+
+    expect(outbox.dropped()).toBe(1);
+    expect(drain(outbox)).toEqual(['b', 'c']);
+  });
+
+  it('refuses the new message when full under drop-newest', () => {
+    const outbox = new Outbox(2, 'drop-newest', 0);
+    outbox.push('signal', 'a');
+    outbox.push('signal', 'b');
+
+    expect(outbox.push('signal', 'c')).toBe(false);
+    expect(outbox.dropped()).toBe(1);
+    expect(drain(outbox)).toEqual(['a', 'b']);
+  });
+
+  it('throws QUEUE_FULL when full under reject', () => {
+    const outbox = new Outbox(1, 'reject', 0);
+    outbox.push('signal', 'a');
+
+    let error: unknown;
+    try {
+      outbox.push('signal', 'b');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StreamIndError);
+    expect((error as StreamIndError).code).toBe(ErrorCode.QUEUE_FULL);
+    expect(drain(outbox)).toEqual(['a']);
+  });
+
+  it('discards messages whose TTL elapsed', () => {
+    const clock = new VirtualClock(1000);
+    const outbox = new Outbox(10, 'drop-oldest', 100, clock);
+    outbox.push('signal', 'default-ttl');
+    outbox.push('signal', 'long-ttl', 500);
+    outbox.push('signal', 'no-ttl', 0);
+
+    clock.advance(100);
+    expect(drain(outbox)).toEqual(['long-ttl', 'no-ttl']);
+    expect(outbox.expired()).toBe(1);
+  });
+
+  it('frees space held by expired messages before applying the overflow policy', () => {
+    const clock = new VirtualClock();
+    const outbox = new Outbox(1, 'reject', 10, clock);
+    outbox.push('signal', 'old');
+
+    clock.advance(10);
+    expect(outbox.push('signal', 'new')).toBe(true);
+    expect(drain(outbox)).toEqual(['new']);
+  });
+
+  it('resets counters', () => {
+    const outbox = new Outbox(1, 'drop-newest', 0);
+    outbox.push('signal', 'a');
+    outbox.push('signal', 'b');
+    outbox.resetCounters();
+
+    expect(outbox.dropped()).toBe(0);
+    expect(outbox.expired()).toBe(0);
+  });
+});
+
+describe('offline queue on reconnect', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('sends queued signals before signals sent once reconnected', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({
+      offlineQueueEnabled: true,
+      baseReconnectIntervalMs: 50,
+      maxReconnectIntervalMs: 50,
+      jitterFactor: 0
+    }));
+    expect(await sdk.connect('t')).toBe(ErrorCode.OK);
+
+    const queued = new Promise<ErrorCode[]>((resolve) => {
+      sdk.once('reconnecting', () => {
+        resolve(Promise.all([
+          sdk.sendSignal('t', new Signal('queued.one')),
+          sdk.sendSignal('t', new Signal('queued.two'))
+        ]));
+      });
+    });
+    sdk.once('connected', () => {
+      sdk.sendSignal('t', new Signal('status.online'));
+    });
+    platform.dropConnections();
+
+    expect(await queued).toEqual([ErrorCode.OK, ErrorCode.OK]);
+    await platform.waitForSignal('status.online');
+    expect(platform.getSignals().map((received) => received.signal.type)).toEqual([
+      'queued.one',
+      'queued.two',
+      'status.online'
+    ]);
+  });
+
+  it('stops the flush at a failed send and keeps later messages queued behind it', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({
+      offlineQueueEnabled: true,
+      baseReconnectIntervalMs: 50,
+      maxReconnectIntervalMs: 50,
+      jitterFactor: 0
+    }));
+    await sdk.connect('t');
+
+    // Fail the first attempt to flush queued.one without closing the connection
+    const send = WebSocket.prototype.send;
+    let failSend: () => void = () => undefined;
+    const sendFailed = new Promise<void>((resolve) => {
+      failSend = resolve;
+    });
+    const spy = jest.spyOn(WebSocket.prototype, 'send').mockImplementation(function (this: WebSocket, ...args: any[]) {
+      const [data, callback] = args;
+      if (typeof data === 'string' && data.includes('"queued.one"') && spy.mock.calls.filter(([sent]) => sent === data).length === 1) {
+        process.nextTick(() => {
+          callback(new Error('send failed'));
+          failSend();
+        });
+        return;
+      }
+      return (send as (...sendArgs: any[]) => void).apply(this, args);
+    });
+
+    try {
+      const queued = new Promise<ErrorCode[]>((resolve) => {
+        sdk.once('reconnecting', () => {
+          resolve(Promise.all([
+            sdk.sendSignal('t', new Signal('queued.one')),
+            sdk.sendSignal('t', new Signal('queued.two'))
+          ]));
+        });
+      });
+      platform.dropConnections();
+      expect(await queued).toEqual([ErrorCode.OK, ErrorCode.OK]);
+
+      await sendFailed;
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await sdk.sendSignal('t', new Signal('status.online'))).toBe(ErrorCode.OK);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(platform.getSignals()).toEqual([]);
+
+      platform.dropConnections();
+      await platform.waitForSignal('status.online');
+      expect(platform.getSignals().map((received) => received.signal.type)).toEqual([
+        'queued.one',
+        'queued.two',
+        'status.online'
+      ]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('reports QUEUE_FULL when drop-newest refuses a signal', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig({
+      offlineQueueEnabled: true,
+      offlineQueueMaxSize: 1,
+      offlineQueueOverflowPolicy: 'drop-newest',
+      baseReconnectIntervalMs: 1000
+    }));
+    await sdk.connect('t');
+
+    const reconnecting = new Promise<void>((resolve) => sdk.once('reconnecting', () => resolve()));
+    platform.rejectAuth();
+    platform.dropConnections();
+    await reconnecting;
+
+    expect(await sdk.sendSignal('t', new Signal('first'))).toBe(ErrorCode.OK);
+    expect(await sdk.sendSignal('t', new Signal('second'))).toBe(ErrorCode.QUEUE_FULL);
+  });
+});
@@ -0,0 +1,146 @@
+import { ErrorCode, StreamIndError } from '../src/errors';
+import { CompiledSchema, JsonSchema, SchemaRegistry, formatSchemaErrors, validateSchema } from '../src/schema';
+
+function compileError(schema: unknown): StreamIndError {
+  try {
+    CompiledSchema.compile(schema as JsonSchema);
+  } catch (e) {
+    expect(e).toBeInstanceOf(StreamIndError);
+    return e as StreamIndError;
+  }
+  throw new Error('Schema compiled');
+}
+
+const volumeSchema: JsonSchema = {
+  type: 'object',
+  required: ['level'],
+  properties: {
+    level: { type: 'integer', minimum: 0, maximum: 100 },
+    mode: { enum: ['normal', 'quiet'] },
+    label: { type: 'string', maxLength: 3, pattern: '^[a-z]+$' }
+  },
+  additionalProperties: false
+};
+
+describe('validateSchema', () => {
+  it('accepts valid values', () => {
+    expect(validateSchema(volumeSchema, { level: 50, mode: 'quiet', label: 'abc' })).toEqual([]);
+  });
+
+  it('reports every failure with its JSON Pointer path', () => {
+    expect(validateSchema(volumeSchema, { level: 101, mode: 'loud', label: 'ABCD', extra: true })).toEqual([
+      { path: '/level', message: 'must be <= 100, got 101' },
+      { path: '/mode', message: 'must be one of "normal", "quiet"' },
+      { path: '/label', message: 'must be at most 3 characters' },
+      { path: '/label', message: 'must match pattern ^[a-z]+$' },
+      { path: '/extra', message: 'is not allowed' }
+    ]);
+    expect(validateSchema(volumeSchema, {})).toEqual([{ path: '/level', message: 'is required' }]);
+  });
+
+  it('does not count inherited properties as present', () => {
+    const schema: JsonSchema = { type: 'object', required: ['constructor', 'toString'] };
+    expect(validateSchema(schema, {})).toEqual([
+      { path: '/constructor', message: 'is required' },
+      { path: '/toString', message: 'is required' }
+    ]);
+    expect(validateSchema(schema, { constructor: 1, toString: 'x' })).toEqual([]);
+  });
+
+  it('checks types, treating integers as numbers', () => {
+    expect(validateSchema({ type: 'number' }, 3)).toEqual([]);
+    expect(validateSchema({ type: 'integer' }, 3.5)).toEqual([{ path: '', message: 'expected integer, got number' }]);
+    expect(validateSchema({ type: ['string', 'null'] }, null)).toEqual([]);
+    expect(validateSchema({ type: 'array' }, {})).toEqual([{ path: '', message: 'expected array, got object' }]);
+  });
+
+  it('counts string length in code points', () => {
+    expect(validateSchema({ type: 'string', maxLength: 1 }, '😀')).toEqual([]);
+  });
+
+  it('validates array items, prefix items and uniqueness', () => {
+    const schema: JsonSchema = { type: 'array', prefixItems: [{ type: 'string' }], items: { type: 'integer' }, uniqueItems: true };
+    expect(validateSchema(schema, ['a', 1, 2])).toEqual([]);
+    expect(validateSchema(schema, [1, 'b', 'b'])).toEqual([
+      { path: '/2', message: 'duplicate item' },
+      { path: '/0', message: 'expected string, got integer' },
+      { path: '/1', message: 'expected integer, got string' },
+      { path: '/2', message: 'expected integer, got string' }
+    ]);
+  });
+
+  it('evaluates combinators', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'integer' }, { minimum: 10 }], not: { const: 3 } };
+    expect(validateSchema(schema, 5)).toEqual([]);
+    expect(validateSchema(schema, 12)).toEqual([{ path: '', message: 'must match exactly one schema in oneOf (matched 2)' }]);
+    expect(validateSchema(schema, 3)).toEqual([{ path: '', message: 'must not match schema in not' }]);
+    expect(validateSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 1)).toEqual([
+      { path: '', message: 'must match at least one schema in anyOf' }
+    ]);
+  });
+
+  it('follows local references', () => {
+    const schema: JsonSchema = {
+      $defs: { percent: { type: 'number', minimum: 0, maximum: 1 }, ratio: { $ref: '#/$defs/percent' } },
+      type: 'array',
+      items: { $ref: '#/$defs/ratio' }
+    };
+    expect(validateSchema(schema, [0, 0.5])).toEqual([]);
+    expect(validateSchema(schema, [2])).toEqual([{ path: '/0', message: 'must be <= 1, got 2' }]);
+  });
+
+  it('treats boolean schemas as allow-all and allow-none', () => {
+    expect(validateSchema(true, 'anything')).toEqual([]);
+    expect(validateSchema({ properties: { x: false } }, { x: 1 })).toEqual([{ path: '/x', message: 'not allowed' }]);
+  });
+});
+
+describe('CompiledSchema.compile', () => {
+  it('rejects unresolvable and circular references', () => {
+    expect(compileError({ $ref: '#/$defs/missing' }).message).toContain('/$ref: cannot resolve #/$defs/missing');
+    expect(compileError({ $ref: 'http://example.com/schema' }).message).toContain('only local');
+    expect(compileError({ $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } }, $ref: '#/$defs/a' }).message)
+      .toContain('circular reference #/$defs/a');
+  });
+
+  it('rejects invalid patterns, types and keyword values with their paths', () => {
+    const error = compileError({
+      properties: { name: { pattern: '(' }, kind: { type: 'text' } },
+      required: 'name',
+      allOf: {}
+    });
+    expect(error.code).toBe(ErrorCode.INVALID_PARAMETER);
+    expect(error.message).toMatch(/^Invalid schema: /);
+    expect(error.message).toContain('/required: must be an array of strings');
+    expect(error.message).toContain('/allOf: must be an array of schemas');
+    expect(error.message).toContain('/properties/name/pattern: is not a valid regular expression');
+    expect(error.message).toContain('/properties/kind/type: must be one of');
+  });
+
+  it('rejects values that are not schemas', () => {
+    expect(compileError([]).message).toBe('Invalid schema: /: must be an object or boolean');
+  });
+});
+
+describe('SchemaRegistry', () => {
+  it('validates against the schema registered for a name', () => {
+    const registry = new SchemaRegistry();
+    registry.register('volume.set', volumeSchema);
+
+    expect(registry.has('volume.set')).toBe(true);
+    expect(registry.validate('volume.set', { level: 10 })).toEqual([]);
+    expect(formatSchemaErrors(registry.validate('volume.set', { level: -1 }))).toBe('/level: must be >= 0, got -1');
+    expect(registry.validate('other', 'anything')).toEqual([]);
+
+    expect(registry.unregister('volume.set')).toBe(true);
+    expect(registry.validate('volume.set', {})).toEqual([]);
+  });
+
+  it('keeps the previous schema when a replacement does not compile', () => {
+    const registry = new SchemaRegistry();
+    registry.register('volume.set', volumeSchema);
+
+    expect(() => registry.register('volume.set', { $ref: '#/nowhere' })).toThrow(StreamIndError);
+    expect(registry.validate('volume.set', {})).toEqual([{ path: '/level', message: 'is required' }]);
+  });
+});
@@ -0,0 +1,195 @@
+import { AudioWriteStream, BinaryReadStream } from '../src/streams';
+import { BinaryDataCallback, WebSocketTransport } from '../src/transport';
+import { SDK } from '../src';
+import { MockPlatform } from '../src/testing';
+
+/**
+ * Binary channel of a terminal, driven by the test
+ */
+class FakeTransport {
+  sent: Array<[string, string]> = [];
+  sendError: Error | null = null;
+  pauses = 0;
+  listeners: Array<{ onData: BinaryDataCallback; onEnd: () => void }> = [];
+  private bufferDrained: Promise<void> = Promise.resolve();
+  private drain: () => void = () => undefined;
+
+  holdBuffer(): void {
+    this.bufferDrained = new Promise((resolve) => {
+      this.drain = resolve;
+    });
+  }
+
+  releaseBuffer(): void {
+    this.drain();
+    this.bufferDrained = Promise.resolve();
+  }
+
+  waitForBufferedAmount(): Promise<void> {
+    return this.bufferDrained;
+  }
+
+  async sendBinaryData(data: Buffer, dataType: string): Promise<void> {
+    if (this.sendError) {
+      throw this.sendError;
+    }
+    this.sent.push([dataType, data.toString()]);
+  }
+
+  addBinaryListener(onData: BinaryDataCallback, onEnd: () => void): () => void {
+    const listener = { onData, onEnd };
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((candidate) => candidate !== listener);
+    };
+  }
+
+  receive(data: string, dataType: string = 'OPUS'): void {
+    this.listeners.forEach((listener) => listener.onData(Buffer.from(data), dataType));
+  }
+
+  end(): void {
+    this.listeners.forEach((listener) => listener.onEnd());
+  }
+
+  pauseReceiving(): void {
+    this.pauses++;
+  }
+
+  resumeReceiving(): void {
+    this.pauses--;
+  }
+
+  asTransport(): WebSocketTransport {
+    return this as unknown as WebSocketTransport;
+  }
+}
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('AudioWriteStream', () => {
+  it('sends each chunk as one frame of the stream\'s data type', async () => {
+    const transport = new FakeTransport();
+    const stream = new AudioWriteStream(transport.asTransport(), 'opus');
+    stream.write(Buffer.from('a'));
+    stream.write('b');
+    await new Promise<void>((resolve) => stream.end(resolve));
+
+    expect(transport.sent).toEqual([['opus', 'a'], ['opus', 'b']]);
+  });
+
+  it('holds writes back while the socket buffer is full and emits drain after', async () => {
+    const transport = new FakeTransport();
+    transport.holdBuffer();
+    const stream = new AudioWriteStream(transport.asTransport(), 'opus', { highWaterMark: 2 });
+
+    expect(stream.write(Buffer.from('a'))).toBe(true);
+    expect(stream.write(Buffer.from('b'))).toBe(false);
+    await tick();
+    expect(transport.sent).toEqual([]);
+
+    const drained = new Promise<void>((resolve) => stream.once('drain', resolve));
+    transport.releaseBuffer();
+    await drained;
+    expect(transport.sent).toEqual([['opus', 'a'], ['opus', 'b']]);
+  });
+
+  it('fails the stream when a send fails', async () => {
+    const transport = new FakeTransport();
+    transport.sendError = new Error('Not connected');
+    const stream = new AudioWriteStream(transport.asTransport(), 'opus');
+    const failed = new Promise<Error>((resolve) => stream.once('error', resolve));
+    stream.write(Buffer.from('a'));
+
+    expect((await failed).message).toBe('Not connected');
+  });
+});
+
+describe('BinaryReadStream', () => {
+  it('emits payloads of the requested data type and ends with the terminal', async () => {
+    const transport = new FakeTransport();
+    const stream = new BinaryReadStream(transport.asTransport(), { dataType: 'opus' });
+    transport.receive('a');
+    transport.receive('x', 'RAW');
+    transport.receive('b');
+    transport.end();
+
+    const packets: string[] = [];
+    for await (const packet of stream) {
+      packets.push(packet.toString());
+    }
+    expect(packets).toEqual(['a', 'b']);
+  });
+
+  it('pauses the socket once its buffer is full and resumes it when read', async () => {
+    const transport = new FakeTransport();
+    const stream = new BinaryReadStream(transport.asTransport(), { highWaterMark: 2 });
+    transport.receive('a');
+    expect(transport.pauses).toBe(0);
+    transport.receive('b');
+    transport.receive('c');
+    expect(transport.pauses).toBe(1);
+
+    expect(stream.read().toString()).toBe('a');
+    await tick();
+    expect(transport.pauses).toBe(1);
+    expect(stream.read().toString()).toBe('b');
+    await tick();
+    expect(transport.pauses).toBe(0);
+  });
+
+  it('unsubscribes and resumes the socket when destroyed', async () => {
+    const transport = new FakeTransport();
+    const stream = new BinaryReadStream(transport.asTransport(), { highWaterMark: 1 });
+    transport.receive('a');
+    expect(transport.pauses).toBe(1);
+
+    stream.destroy();
+    await tick();
+    expect(transport.pauses).toBe(0);
+    expect(transport.listeners).toEqual([]);
+  });
+});
+
+describe('terminal streams', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('writes frames to and reads frames from the platform', async () => {
+    sdk.registerTerminal('t', platform.terminalConfig());
+    await sdk.connect('t');
+    const writable = sdk.createAudioWriteStream('t')!;
+    const readable = sdk.createBinaryReadStream('t', { dataType: 'opus' })!;
+
+    await new Promise<void>((resolve) => writable.end(Buffer.from('outbound'), resolve));
+    expect((await platform.waitForBinary('opus')).data.toString()).toBe('outbound');
+
+    platform.pushAudio(Buffer.from('inbound'));
+    const [packet] = await new Promise<Buffer[]>((resolve) => readable.once('data', (data: Buffer) => resolve([data])));
+    expect(packet.toString()).toBe('inbound');
+
+    const ended = new Promise<void>((resolve) => readable.once('end', resolve));
+    readable.resume();
+    await sdk.disconnect('t');
+    await ended;
+  });
+
+  it('returns null for an unknown terminal', () => {
+    expect(sdk.createAudioWriteStream('missing')).toBeNull();
+    expect(sdk.createBinaryReadStream('missing')).toBeNull();
+    expect(sdk.getLastError()).toBe('Terminal missing not found');
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  SpanOptions,
+  TraceContext,
+  TraceSpan,
+  Tracer,
+  createTraceContext,
+  formatTraceparent,
+  isTraceId,
+  parseTraceparent
+} from '../src/tracing';
+import { SDK, Signal } from '../src';
+import { MockPlatform } from '../src/testing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+/**
+ * Tracer keeping every span
+ */
+class RecordingTracer implements Tracer {
+  spans: Array<{ name: string; options: SpanOptions; context: TraceContext; ended: boolean; error?: Error }> = [];
+
+  startSpan(name: string, options: SpanOptions): TraceSpan {
+    const span = { name, options, context: createTraceContext(options.parent), ended: false, error: undefined as Error | undefined };
+    this.spans.push(span);
+    return {
+      context: span.context,
+      end: (error?: Error) => {
+        span.ended = true;
+        span.error = error;
+      }
+    };
+  }
+
+  find(name: string) {
+    const span = this.spans.find((candidate) => candidate.name === name);
+    if (!span) {
+      throw new Error(`No span ${name}`);
+    }
+    return span;
+  }
+}
+
+describe('trace context', () => {
+  it('parses and formats traceparent values', () => {
+    const context = parseTraceparent(TRACEPARENT.toUpperCase(), 'vendor=1');
+
+    expect(context).toEqual({ traceId: TRACE_ID, spanId: '00f067aa0ba902b7', sampled: true, traceState: 'vendor=1' });
+    expect(formatTraceparent(context!)).toBe(TRACEPARENT);
+    expect(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-00`)!.sampled).toBe(false);
+  });
+
+  it('rejects malformed traceparent values', () => {
+    expect(parseTraceparent('')).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-00f067aa0ba902b7-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7`)).toBeNull();
+  });
+
+  it('recognizes trace IDs', () => {
+    expect(isTraceId(TRACE_ID)).toBe(true);
+    expect(isTraceId('0'.repeat(32))).toBe(false);
+    expect(isTraceId('request-42')).toBe(false);
+  });
+
+  it('creates child contexts in the parent trace and roots of new sampled traces', () => {
+    const parent = parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-00`, 'vendor=1')!;
+    const child = createTraceContext(parent);
+    const root = createTraceContext();
+
+    expect(child).toMatchObject({ traceId: TRACE_ID, sampled: false, traceState: 'vendor=1' });
+    expect(child.spanId).not.toBe(parent.spanId);
+    expect(isTraceId(root.traceId)).toBe(true);
+    expect(root.sampled).toBe(true);
+  });
+});
+
+describe('trace propagation', () => {
+  let platform: MockPlatform;
+  let sdk: SDK;
+  let tracer: RecordingTracer;
+
+  beforeEach(async () => {
+    platform = new MockPlatform();
+    await platform.start();
+    sdk = new SDK();
+    tracer = new RecordingTracer();
+    sdk.registerTerminal('t', platform.terminalConfig({ tracer, directiveAutoComplete: true }));
+  });
+
+  afterEach(async () => {
+    await sdk.disconnectAll();
+    await platform.stop();
+  });
+
+  it('joins the trace ID passed to connect and sends signals as children of the connect span', async () => {
+    await sdk.connect('t', TRACE_ID);
+    await sdk.sendSignal('t', new Signal('sensor.data'));
+
+    const connect = tracer.find('connect');
+    const send = tracer.find('send sensor.data');
+    expect(connect.options.kind).toBe('client');
+    expect(connect.context.traceId).toBe(TRACE_ID);
+    expect(connect.ended).toBe(true);
+    expect(send.options).toMatchObject({ kind: 'producer', parent: connect.context });
+
+    const { signal } = await platform.waitForSignal('sensor.data');
+    expect(signal.getTraceContext()).toEqual(send.context);
+  });
+
+  it('continues the trace context a signal already carries', async () => {
+    await sdk.connect('t');
+    const signal = new Signal('sensor.data');
+    signal.setTraceContext(parseTraceparent(TRACEPARENT));
+    await sdk.sendSignal('t', signal);
+
+    const send = tracer.find('send sensor.data');
+    expect(send.options.parent).toEqual(parseTraceparent(TRACEPARENT));
+    const received = await platform.waitForSignal('sensor.data');
+    expect(received.signal.getTraceContext()!.traceId).toBe(TRACE_ID);
+  });
+
+  it('processes directives in the platform trace and sends replies as children of the processing span', async () => {
+    sdk.onDirective('t', 'light.on', () => undefined);
+    await sdk.connect('t');
+
+    const id = platform.pushDirective('light.on', {}, { traceparent: TRACEPARENT });
+    const { signal } = await platform.waitForSignal('directive.reply');
+
+    const process = tracer.find('process light.on');
+    expect(process.options).toMatchObject({
+      kind: 'consumer',
+      parent: parseTraceparent(TRACEPARENT),
+      attributes: expect.objectContaining({ 'streamind.directive.id': id })
+    });
+    expect(process.ended).toBe(true);
+    const reply = tracer.find('send directive.reply');
+    expect(reply.options.parent).toEqual(process.context);
+    expect(signal.getTraceContext()).toEqual(reply.context);
+    expect(reply.context.traceId).toBe(TRACE_ID);
+  });
+
+  it('records handler failures on the processing span', async () => {
+    sdk.onDirective('t', 'light.on', () => {
+      throw new Error('bulb missing');
+    });
+    await sdk.connect('t');
+
+    platform.pushDirective('light.on');
+    await platform.waitForSignal('directive.reply');
+    expect(tracer.find('process light.on').error!.message).toBe('bulb missing');
+  });
+});